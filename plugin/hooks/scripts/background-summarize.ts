@@ -1,43 +1,29 @@
 #!/usr/bin/env bun
 
 /**
- * Background Summarization Script
+ * Background Job Runner
  *
- * This script runs in the background (detached from the hook process) and uses
- * `claude -p` to generate AI summaries of conversation knowledge.
+ * This script runs in the background (detached from the hook process) and
+ * drains the job queue, e.g. summarization jobs that use the configured LLM
+ * provider to generate AI summaries of conversation knowledge.
  *
  * Key design:
- * - Spawned by hooks with `detached: true` and `.unref()`
- * - Uses `claude -p` CLI (not Agent SDK) to avoid deadlock
+ * - Spawned by hooks with `detached: true` and `.unref()` after enqueueing a job
+ * - Jobs are persisted under the config directory, so a failed or interrupted
+ *   attempt is retried with backoff by this or a later runner
+ * - Defaults to the `claude -p` CLI (not Agent SDK) to avoid deadlock
  * - Writes results to Obsidian vault
  */
 
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import { spawn } from 'child_process';
 import { loadConfig } from '../../src/shared/config.js';
 import { VaultManager } from '../../src/mcp-server/utils/vault.js';
-import { parseTranscript, extractQAPairs, extractWebResearch } from '../../src/services/transcript.js';
-import { updatePreCompactKnowledge, markBackgroundJobCompleted } from '../../src/shared/session-store.js';
-
-interface SummarizeInput {
-  transcript_path: string;
-  session_id: string;
-  project: string;
-  trigger: 'pre-compact' | 'session-end';
-  mem_folder: string;
-  session_path?: string; // Path to session note (for session-end trigger)
-}
-
-interface KnowledgeResult {
-  type: 'qa' | 'explanation' | 'decision' | 'research' | 'learning';
-  title: string;
-  context: string;
-  summary: string;
-  keyPoints: string[];
-  topics: string[];
-}
+import { markBackgroundJobCompleted } from '../../src/shared/session-store.js';
+import { drainJobs } from '../../src/services/job-runner.js';
+import { summarizeTranscript, type SummarizeInput } from '../../src/services/transcript-summarizer.js';
+import { pruneTranscriptCursors } from '../../src/services/transcript.js';
 
 // Log file for debugging background script issues (cross-platform)
 const LOG_FILE = path.join(os.tmpdir(), 'cc-obsidian-mem-background.log');
@@ -53,286 +39,31 @@ function log(message: string) {
 }
 
 async function main() {
-  // Parse input from command line argument (outside try for catch access)
-  const inputArg = process.argv[2];
-  if (!inputArg) {
-    log('ERROR: No input argument provided');
-    process.exit(1);
-  }
-
-  let input: SummarizeInput;
-  try {
-    input = JSON.parse(inputArg);
-  } catch (parseError) {
-    log(`ERROR: Failed to parse input: ${parseError}`);
-    process.exit(1);
-  }
-
   try {
-    log(`Starting background summarization for session ${input.session_id}`);
-
     const config = loadConfig();
+    const vault = new VaultManager(config.vault.path, config.vault.memFolder);
 
-    // Check if transcript exists
-    if (!fs.existsSync(input.transcript_path)) {
-      log(`ERROR: Transcript not found: ${input.transcript_path}`);
-      if (input.trigger === 'pre-compact') markBackgroundJobCompleted(input.session_id);
-      process.exit(1);
-    }
-
-    // Parse transcript
-    const conversation = parseTranscript(input.transcript_path);
-    if (conversation.turns.length === 0) {
-      log('No conversation turns found, exiting');
-      if (input.trigger === 'pre-compact') markBackgroundJobCompleted(input.session_id);
-      process.exit(0);
-    }
-
-    log(`Parsed ${conversation.turns.length} conversation turns`);
-
-    // Build context for AI summarization
-    const qaPairs = extractQAPairs(conversation);
-    const research = extractWebResearch(conversation);
-
-    log(`Found ${qaPairs.length} Q&A pairs, ${research.length} research items`);
-
-    // Build context - will use conversation fallback if no Q&A or research
-    const contextText = buildContextForSummarization(qaPairs, research, conversation);
-
-    // Skip if context is too short for meaningful summarization
-    if (contextText.length < 500) {
-      log('Context too short for meaningful summarization, skipping');
-      if (input.trigger === 'pre-compact') markBackgroundJobCompleted(input.session_id);
-      process.exit(0);
-    }
-
-    log('Calling claude -p for AI summarization...');
-    const knowledgeItems = await runClaudeP(contextText, input.project, config.summarization.model);
-
-    if (!knowledgeItems || knowledgeItems.length === 0) {
-      log('AI summarization failed or returned empty - NOT creating any notes (no fallback)');
-      if (input.trigger === 'pre-compact') markBackgroundJobCompleted(input.session_id);
-      process.exit(0);
-    }
-
-    log(`AI extracted ${knowledgeItems.length} knowledge items`);
-
-    // Write knowledge to vault
-    if (knowledgeItems.length > 0) {
-      const vault = new VaultManager(config.vault.path, config.vault.memFolder);
-
-      const knowledgePaths: string[] = [];
-      for (const item of knowledgeItems) {
+    const attempts = await drainJobs({
+      summarize: async (job) => {
+        const input = job.payload as unknown as SummarizeInput;
+        log(`Starting background summarization for session ${input.session_id}`);
         try {
-          // Use writeKnowledge() which properly routes to project folders
-          const result = await vault.writeKnowledge(
-            {
-              type: item.type,
-              title: item.title,
-              context: item.context,
-              content: item.summary,
-              keyPoints: item.keyPoints,
-              topics: item.topics,
-              sourceSession: input.session_id,
-            },
-            input.project
-          );
-          knowledgePaths.push(result.path);
-          log(`Written knowledge note: ${result.path}`);
-        } catch (error) {
-          log(`ERROR writing knowledge note: ${error}`);
-        }
-      }
-
-      // Store paths or update session note depending on trigger
-      if (knowledgePaths.length > 0) {
-        if (input.trigger === 'pre-compact') {
-          // For pre-compact: store paths in session file for session-end to link later
-          updatePreCompactKnowledge(input.session_id, knowledgePaths);
-          log(`Stored ${knowledgePaths.length} knowledge paths in session`);
-        } else if (input.trigger === 'session-end' && input.session_path) {
-          // For session-end: update the session note directly with knowledge links
-          try {
-            await vault.linkSessionToKnowledge(input.session_path, knowledgePaths);
-            log(`Linked ${knowledgePaths.length} knowledge items to session note`);
-          } catch (error) {
-            log(`ERROR linking knowledge to session: ${error}`);
+          return await summarizeTranscript(input, config, vault, log);
+        } finally {
+          // Session-end waits for the first attempt only, never for backed-off retries
+          if (input.trigger === 'pre-compact' && job.attempts === 1) {
+            markBackgroundJobCompleted(input.session_id);
           }
         }
-      }
-
-      log(`Background summarization complete: ${knowledgePaths.length} notes written`);
-    } else {
-      log('No knowledge items to write');
-    }
-
-    // Mark background job as completed (so session-end doesn't wait)
-    if (input.trigger === 'pre-compact') {
-      markBackgroundJobCompleted(input.session_id);
-      log('Marked background job as completed');
-    }
+      },
+    }, config.jobs, { log });
 
+    log(`Job runner finished after ${attempts} job attempts`);
+    pruneTranscriptCursors();
   } catch (error) {
     log(`FATAL ERROR: ${error}`);
-    // Still mark as completed on error so session-end doesn't wait forever
-    if (input?.trigger === 'pre-compact' && input?.session_id) {
-      markBackgroundJobCompleted(input.session_id);
-    }
     process.exit(1);
   }
 }
 
-/**
- * Build context text for AI summarization
- */
-function buildContextForSummarization(
-  qaPairs: Array<{ question: string; answer: string }>,
-  research: Array<{ tool: string; query?: string; url?: string; content: string }>,
-  conversation: { turns: Array<{ role: string; text: string }> }
-): string {
-  const sections: string[] = [];
-
-  // Add Q&A pairs
-  if (qaPairs.length > 0) {
-    sections.push('## Q&A Exchanges\n');
-    for (const qa of qaPairs.slice(0, 10)) {
-      sections.push(`Q: ${qa.question.substring(0, 500)}`);
-      sections.push(`A: ${qa.answer.substring(0, 1000)}\n`);
-    }
-  }
-
-  // Add research
-  if (research.length > 0) {
-    sections.push('## Web Research\n');
-    for (const r of research.slice(0, 5)) {
-      sections.push(`Source: ${r.url || r.tool}`);
-      sections.push(`Query: ${r.query || 'N/A'}`);
-      sections.push(`Content: ${r.content.substring(0, 500)}\n`);
-    }
-  }
-
-  // Add conversation summary if no structured content
-  if (sections.length === 0) {
-    sections.push('## Conversation\n');
-    for (const turn of conversation.turns.slice(0, 20)) {
-      const prefix = turn.role === 'user' ? 'User' : 'Assistant';
-      sections.push(`${prefix}: ${turn.text.substring(0, 500)}\n`);
-    }
-  }
-
-  return sections.join('\n').substring(0, 25000);
-}
-
-/**
- * Run claude -p to extract knowledge
- */
-async function runClaudeP(
-  contextText: string,
-  project: string,
-  model: string
-): Promise<KnowledgeResult[] | null> {
-  const prompt = `You are analyzing a coding session conversation to extract valuable knowledge for future reference.
-
-Project: ${project}
-
-${contextText}
-
-Extract knowledge items from this conversation. Focus on:
-1. **qa** - Questions asked and answers provided
-2. **explanation** - Concepts or approaches explained
-3. **decision** - Technical choices made with rationale
-4. **research** - Information gathered from web/docs
-5. **learning** - Tips, patterns, gotchas discovered
-
-For each item, provide:
-- type: one of qa, explanation, decision, research, learning
-- title: concise title (5-10 words)
-- context: when this knowledge is useful (1 sentence)
-- summary: key information (max 100 words)
-- keyPoints: array of actionable points (2-5 items)
-- topics: array of relevant topic tags (2-5 items)
-
-Return a JSON array. Only include genuinely useful items worth remembering.
-If nothing significant to extract, return an empty array [].
-
-Respond with ONLY valid JSON, no markdown code blocks, no explanation.`;
-
-  return new Promise((resolve) => {
-    // Write prompt to temp file to avoid shell escaping issues (cross-platform)
-    const promptFile = path.join(os.tmpdir(), `claude-prompt-${Date.now()}.txt`);
-    fs.writeFileSync(promptFile, prompt);
-
-    const proc = spawn('claude', [
-      '-p',
-      '--model', model || 'haiku',
-      '--output-format', 'text',
-    ], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    // Send prompt via stdin
-    proc.stdin.write(prompt);
-    proc.stdin.end();
-
-    let stdout = '';
-    let stderr = '';
-
-    proc.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    proc.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    proc.on('close', (code) => {
-      // Clean up temp file
-      try { fs.unlinkSync(promptFile); } catch {}
-
-      if (code !== 0) {
-        log(`claude -p exited with code ${code}`);
-        log(`stderr: ${stderr || '(empty)'}`);
-        log(`stdout (first 500): ${stdout.substring(0, 500) || '(empty)'}`);
-        resolve(null);
-        return;
-      }
-
-      try {
-        // Try to parse JSON from output
-        const trimmed = stdout.trim();
-
-        // Handle potential markdown code blocks
-        let jsonStr = trimmed;
-        const jsonMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (jsonMatch) {
-          jsonStr = jsonMatch[1].trim();
-        }
-
-        const parsed = JSON.parse(jsonStr);
-        if (Array.isArray(parsed)) {
-          resolve(parsed as KnowledgeResult[]);
-        } else {
-          log(`Unexpected response format: ${typeof parsed}`);
-          resolve(null);
-        }
-      } catch (error) {
-        log(`Failed to parse claude -p output: ${error}\nOutput: ${stdout.substring(0, 500)}`);
-        resolve(null);
-      }
-    });
-
-    proc.on('error', (error) => {
-      log(`Failed to spawn claude -p: ${error}`);
-      resolve(null);
-    });
-
-    // Timeout after 2 minutes
-    setTimeout(() => {
-      proc.kill();
-      log('claude -p timed out after 2 minutes');
-      resolve(null);
-    }, 120000);
-  });
-}
-
 main();
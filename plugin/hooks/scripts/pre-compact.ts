@@ -4,76 +4,39 @@
  * PreCompact Hook
  *
  * Runs before conversation history is compacted (manual or auto).
- * Spawns a background script to extract knowledge using `claude -p`.
+ * Queues a background job to extract knowledge with the configured LLM provider.
  *
  * Key design:
- * - Hook exits immediately after spawning background process
- * - Background script uses `claude -p` (not Agent SDK) to avoid deadlock
+ * - Hook exits immediately after queueing the job and spawning the job runner
+ * - Failed extractions are retried from the persistent job queue
+ * - Background jobs default to `claude -p` (not Agent SDK) to avoid deadlock
  * - Knowledge extraction happens asynchronously
  */
 
-import * as path from 'path';
-import { spawn } from 'child_process';
 import { loadConfig } from '../../src/shared/config.js';
-import { readSession, markBackgroundJobStarted } from '../../src/shared/session-store.js';
+import { requestSummarization } from '../../src/services/session-lifecycle.js';
+import { callWorker } from '../../src/worker/client.js';
+import { WORKER_ENDPOINTS } from '../../src/shared/constants.js';
 import { readStdinJson } from './utils/helpers.js';
-
-interface PreCompactInput {
-  session_id: string;
-  cwd: string;
-  transcript_path: string;
-  trigger: 'manual' | 'auto';
-  custom_instructions?: string;
-}
+import type { PreCompactInput } from '../../src/shared/types.js';
 
 async function main() {
   try {
     const input = await readStdinJson<PreCompactInput>();
     const config = loadConfig();
 
-    // Skip if summarization is disabled
-    if (!config.summarization.enabled) {
-      return;
-    }
-
-    // Validate session
-    if (!input.session_id) {
-      return;
-    }
+    let result = await callWorker<{ started: boolean }>(config, WORKER_ENDPOINTS.sessionSummarize, {
+      body: input,
+    });
 
-    const session = readSession(input.session_id);
-    if (!session) {
-      return;
+    if (!result) {
+      // Worker unavailable - spawn directly
+      result = { started: requestSummarization(input, config) };
     }
 
-    // Validate transcript path
-    if (!input.transcript_path) {
-      return;
+    if (result.started) {
+      console.error(`PreCompact: Spawned background summarization for ${input.trigger} compact`);
     }
-
-    // Mark that a background job is starting (so session-end knows to wait)
-    markBackgroundJobStarted(input.session_id);
-
-    // Spawn background summarization script (don't await - fire and forget)
-    const backgroundInput = JSON.stringify({
-      transcript_path: input.transcript_path,
-      session_id: input.session_id,
-      project: session.project,
-      trigger: 'pre-compact',
-      mem_folder: config.vault.memFolder,
-    });
-
-    const scriptPath = path.join(__dirname, 'background-summarize.ts');
-
-    spawn('bun', ['run', scriptPath, backgroundInput], {
-      detached: true,      // Run independently of parent
-      stdio: 'ignore',     // Don't block on I/O
-      cwd: path.dirname(scriptPath),
-    }).unref();            // Allow hook to exit without waiting
-
-    // Log that we spawned the background process
-    console.error(`PreCompact: Spawned background summarization for ${input.trigger} compact`);
-
   } catch (error) {
     // Silently fail to not break Claude Code
     console.error('PreCompact hook error:', error);
@@ -4,19 +4,18 @@
  * UserPromptSubmit Hook
  *
  * Runs when user submits a prompt, before Claude processes it.
- * Captures user prompts as observations for later analysis.
+ * Captures user prompts as observations for later analysis and injects
+ * memory relevant to the prompt (past errors, decisions, knowledge and
+ * notes for mentioned files).
  */
 
 import { loadConfig } from '../../src/shared/config.js';
-import { addObservation, readSession } from '../../src/shared/session-store.js';
-import { readStdinJson, generateObservationId } from './utils/helpers.js';
-import type { Observation } from '../../src/shared/types.js';
-
-interface UserPromptSubmitInput {
-  session_id: string;
-  cwd: string;
-  prompt: string;
-}
+import { submitUserPrompt } from '../../src/services/session-lifecycle.js';
+import { VaultManager } from '../../src/mcp-server/utils/vault.js';
+import { callWorker } from '../../src/worker/client.js';
+import { WORKER_ENDPOINTS } from '../../src/shared/constants.js';
+import { readStdinJson } from './utils/helpers.js';
+import type { UserPromptSubmitInput } from '../../src/shared/types.js';
 
 async function main() {
   try {
@@ -28,31 +27,21 @@ async function main() {
       return;
     }
 
-    const session = readSession(input.session_id);
-    if (!session || session.status !== 'active') {
-      return;
+    let result = await callWorker<{ recorded: boolean; context: string | null }>(
+      config,
+      WORKER_ENDPOINTS.promptCapture,
+      { body: input }
+    );
+    if (!result) {
+      // Worker unavailable - handle directly
+      const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+      result = await submitUserPrompt(input, config, vault);
     }
 
-    // Skip very short prompts (likely just commands or acknowledgments)
-    if (input.prompt.trim().length < 20) {
-      return;
+    // Output context for Claude (stdout is added to the prompt context)
+    if (result.context) {
+      console.log(result.context);
     }
-
-    // Create observation for the user prompt
-    const observation: Observation = {
-      id: generateObservationId(),
-      timestamp: new Date().toISOString(),
-      tool: 'UserPrompt',
-      type: 'other',
-      isError: false,
-      data: {
-        prompt: input.prompt.substring(0, 5000), // Truncate very long prompts
-        promptLength: input.prompt.length,
-      },
-    };
-
-    // Add to session observations
-    addObservation(input.session_id, observation);
   } catch (error) {
     // Silently fail to not break Claude Code
     console.error('UserPromptSubmit hook error:', error);
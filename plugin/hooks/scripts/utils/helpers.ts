@@ -1,13 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import type { ProjectInfo, Observation, PostToolUseInput, ProjectContext } from '../../../src/shared/types.js';
+import { execFileSync } from 'child_process';
+import type { ProjectInfo, Observation, ProjectContext, GitRef, GitCommit, ErrorData, FileEditData } from '../../../src/shared/types.js';
 import { LANGUAGE_MAP } from '../../../src/shared/constants.js';
+import { parseErrorOutput } from '../../../src/shared/error-parsers.js';
+import { computeEditStats, formatEditSummary } from '../../../src/shared/edit-stats.js';
+import { detectWorkspaces } from '../../../src/services/workspaces.js';
+
+// Commits recorded per session - long sessions keep the most recent
+const MAX_SESSION_COMMITS = 50;
 
 /**
  * Find the git root directory by searching up the directory tree
  */
-function findGitRoot(startDir: string): string | null {
+export function findGitRoot(startDir: string): string | null {
   let dir = startDir;
   while (dir !== path.dirname(dir)) {
     if (fs.existsSync(path.join(dir, '.git'))) {
@@ -20,8 +27,9 @@ function findGitRoot(startDir: string): string | null {
 
 /**
  * Get project info from the current working directory
+ * @param options.workspaces - Also detect monorepo workspace packages at the repository root
  */
-export async function getProjectInfo(cwd: string): Promise<ProjectInfo> {
+export async function getProjectInfo(cwd: string, options: { workspaces?: boolean } = {}): Promise<ProjectInfo> {
   const info: ProjectInfo = {
     name: path.basename(cwd),
     path: cwd,
@@ -29,11 +37,18 @@ export async function getProjectInfo(cwd: string): Promise<ProjectInfo> {
 
   // Try to get git info by searching up the directory tree
   const gitRoot = findGitRoot(cwd);
-  if (gitRoot) {
-    const gitDir = path.join(gitRoot, '.git');
+  const dirs = gitRoot ? resolveGitDirs(gitRoot) : null;
+  if (dirs) {
     try {
-      // Get remote URL
-      const configPath = path.join(gitDir, 'config');
+      // A linked worktree without a remote is named after the main checkout
+      // (or the bare repository), so all worktrees share one project
+      if (dirs.commonDir !== dirs.gitDir) {
+        const common = path.basename(dirs.commonDir);
+        info.name = common === '.git' ? path.basename(path.dirname(dirs.commonDir)) : common.replace(/\.git$/, '');
+      }
+
+      // Get remote URL (config is shared by all worktrees)
+      const configPath = path.join(dirs.commonDir, 'config');
       if (fs.existsSync(configPath)) {
         const config = fs.readFileSync(configPath, 'utf-8');
         const remoteMatch = config.match(/\[remote "origin"\][\s\S]*?url = (.+)/);
@@ -47,113 +62,226 @@ export async function getProjectInfo(cwd: string): Promise<ProjectInfo> {
         }
       }
 
-      // Get current branch
-      const headPath = path.join(gitDir, 'HEAD');
-      if (fs.existsSync(headPath)) {
-        const head = fs.readFileSync(headPath, 'utf-8').trim();
-        const branchMatch = head.match(/ref: refs\/heads\/(.+)/);
-        if (branchMatch) {
-          info.gitBranch = branchMatch[1];
-        }
-      }
+      // Get current branch and commit (of this worktree)
+      const ref = readGitRef(dirs);
+      info.gitBranch = ref.branch;
+      info.gitCommit = ref.commit;
     } catch {
       // Ignore git errors
     }
   }
 
+  if (options.workspaces) {
+    const workspaces = detectWorkspaces(gitRoot || cwd);
+    if (workspaces.length > 0) {
+      info.workspaces = workspaces;
+    }
+  }
+
   return info;
 }
 
 /**
- * Generate a unique observation ID
+ * Get the current git branch and HEAD commit for a directory
  */
-export function generateObservationId(): string {
-  const timestamp = Date.now().toString(36);
-  const random = crypto.randomBytes(4).toString('hex');
-  return `${timestamp}-${random}`;
+export function getGitRef(cwd: string): GitRef {
+  const gitRoot = findGitRoot(cwd);
+  const dirs = gitRoot ? resolveGitDirs(gitRoot) : null;
+  if (!dirs) {
+    return {};
+  }
+
+  try {
+    return readGitRef(dirs);
+  } catch {
+    return {};
+  }
 }
 
 /**
- * Check if an action is significant enough to capture.
- * Uses fixed heuristics: file changes, errors, and non-trivial bash commands.
+ * Locate a checkout's git directories. In a linked worktree or a submodule
+ * `.git` is a file (`gitdir: <path>`) rather than a directory, and a
+ * worktree's git directory has a `commondir` file pointing at the
+ * repository's shared one.
+ * @returns gitDir holds the checkout's HEAD; commonDir holds config and refs
  */
-export function isSignificantAction(input: PostToolUseInput): boolean {
-  // Always capture errors
-  if (input.tool_response.isError) {
-    return true;
+export function resolveGitDirs(gitRoot: string): { gitDir: string; commonDir: string } | null {
+  const dotGit = path.join(gitRoot, '.git');
+
+  try {
+    let gitDir = dotGit;
+    if (fs.statSync(dotGit).isFile()) {
+      const match = fs.readFileSync(dotGit, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+      if (!match) return null;
+      gitDir = path.resolve(gitRoot, match[1].trim());
+    }
+
+    const commonDirFile = path.join(gitDir, 'commondir');
+    const commonDir = fs.existsSync(commonDirFile)
+      ? path.resolve(gitDir, fs.readFileSync(commonDirFile, 'utf-8').trim())
+      : gitDir;
+
+    return { gitDir, commonDir };
+  } catch {
+    return null;
   }
+}
 
-  // For file operations, check if it's a meaningful change
-  if (input.tool_name === 'Write' || input.tool_name === 'Edit' || input.tool_name === 'MultiEdit') {
-    return true; // All file changes are significant
+/**
+ * Read branch and commit from git directories without spawning git
+ */
+function readGitRef(dirs: { gitDir: string; commonDir: string }): GitRef {
+  const headPath = path.join(dirs.gitDir, 'HEAD');
+  if (!fs.existsSync(headPath)) {
+    return {};
   }
 
-  // For bash commands, filter out trivial commands
-  if (input.tool_name === 'Bash') {
-    const command = (input.tool_input.command as string || '').toLowerCase();
+  const head = fs.readFileSync(headPath, 'utf-8').trim();
+  const refMatch = head.match(/^ref: (refs\/heads\/(.+))$/);
+  if (!refMatch) {
+    // Detached HEAD
+    return /^[0-9a-f]{40}$/.test(head) ? { commit: head } : {};
+  }
 
-    // Skip trivial commands
-    const trivialCommands = ['ls', 'pwd', 'cd', 'echo', 'cat', 'head', 'tail', 'wc'];
-    if (trivialCommands.some(c => command.startsWith(c + ' ') || command === c)) {
-      return false;
+  const [, ref, branch] = refMatch;
+
+  // Loose ref first, then packed-refs (new branches have no commit yet)
+  const refPath = path.join(dirs.commonDir, ref);
+  if (fs.existsSync(refPath)) {
+    return { branch, commit: fs.readFileSync(refPath, 'utf-8').trim() };
+  }
+
+  const packedPath = path.join(dirs.commonDir, 'packed-refs');
+  if (fs.existsSync(packedPath)) {
+    const line = fs.readFileSync(packedPath, 'utf-8')
+      .split('\n')
+      .find(l => l.endsWith(` ${ref}`));
+    if (line) {
+      return { branch, commit: line.split(' ')[0] };
     }
+  }
 
-    // Keep significant commands
-    const significantPatterns = [
-      'npm', 'yarn', 'pnpm', 'bun',
-      'git',
-      'docker',
-      'make',
-      'cargo',
-      'go ',
-      'python',
-      'pip',
-      'test',
-      'build',
-      'deploy',
-    ];
-
-    return significantPatterns.some(p => command.includes(p));
+  return { branch };
+}
+
+/**
+ * Get files changed in the working tree or in the last few commits,
+ * relative to the repository root
+ */
+export function getRecentlyModifiedFiles(cwd: string, commits: number = 5): string[] {
+  const gitRoot = findGitRoot(cwd);
+  if (!gitRoot) {
+    return [];
   }
 
-  return false;
+  const git = (args: string[]) => runGit(gitRoot, args);
+  const files = new Set<string>();
+
+  // Uncommitted changes ("XY path" or "XY old -> new")
+  for (const line of git(['status', '--porcelain']).split('\n')) {
+    const file = line.substring(3).split(' -> ').pop()?.trim();
+    if (file) files.add(file);
+  }
+
+  for (const line of git(['log', `-${commits}`, '--name-only', '--pretty=format:']).split('\n')) {
+    if (line.trim()) files.add(line.trim());
+  }
+
+  return [...files].slice(0, 50);
+}
+
+/**
+ * Get commits made between two times on any local branch, oldest first
+ */
+export function getCommitsBetween(cwd: string, since: string, until: string): GitCommit[] {
+  const gitRoot = findGitRoot(cwd);
+  if (!gitRoot) {
+    return [];
+  }
+
+  const output = runGit(gitRoot, [
+    'log',
+    '--branches',
+    'HEAD',
+    `--since=${since}`,
+    `--until=${until}`,
+    '--reverse',
+    '--format=%H%x1f%cI%x1f%s',
+  ]);
+
+  const commits: GitCommit[] = [];
+  for (const line of output.split('\n')) {
+    const [hash, date, message] = line.split('\x1f');
+    if (hash && date) {
+      commits.push({ hash, date, message: message || '' });
+    }
+  }
+
+  return commits.slice(-MAX_SESSION_COMMITS);
+}
+
+/**
+ * Run a read-only git command in a repository, returning '' on any failure
+ */
+function runGit(gitRoot: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd: gitRoot,
+      encoding: 'utf-8',
+      timeout: 2000,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Generate a unique observation ID
+ */
+export function generateObservationId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = crypto.randomBytes(4).toString('hex');
+  return `${timestamp}-${random}`;
 }
 
 /**
- * Extract file info from a tool use
+ * Extract file info from a file-edit tool use, with line stats and touched
+ * symbols computed from the tool input
  */
 export function extractFileInfo(
   input: Record<string, unknown>,
   response: { content: Array<{ type: string; text?: string }>; isError?: boolean }
-): {
-  path: string;
-  language: string;
-  changeType: 'create' | 'modify' | 'delete';
-  linesAdded?: number;
-  linesRemoved?: number;
-} {
+): FileEditData {
   const filePath = (input.file_path as string) || (input.path as string) || 'unknown';
   const ext = path.extname(filePath);
   const language = LANGUAGE_MAP[ext] || 'unknown';
 
   // Determine change type from response
-  let changeType: 'create' | 'modify' | 'delete' = 'modify';
+  let changeType: FileEditData['changeType'] = 'modify';
   const responseText = response.content
     .filter(c => c.type === 'text')
     .map(c => c.text)
     .join(' ')
     .toLowerCase();
 
-  if (responseText.includes('created')) {
+  // An Edit with an empty old_string creates the file
+  if (responseText.includes('created') || input.old_string === '') {
     changeType = 'create';
   } else if (responseText.includes('deleted')) {
     changeType = 'delete';
   }
 
+  const stats = computeEditStats(input, language, changeType === 'create');
+
   return {
     path: filePath,
     language,
     changeType,
+    linesAdded: stats.linesAdded,
+    linesRemoved: stats.linesRemoved,
+    symbols: stats.symbols.length > 0 ? stats.symbols : undefined,
+    summary: formatEditSummary(changeType, stats),
   };
 }
 
@@ -197,59 +325,33 @@ export function extractCommandInfo(
 
 /**
  * Extract error info from a failed tool response
+ * @param cwd - Directory relative file paths in the output are resolved against
  */
 export function extractErrorInfo(
   toolName: string,
   input: Record<string, unknown>,
-  response: { content: Array<{ type: string; text?: string }>; isError?: boolean }
-): {
-  type: string;
-  message: string;
-  file?: string;
-  context?: string;
-} {
+  response: { content: Array<{ type: string; text?: string }>; isError?: boolean },
+  cwd?: string
+): ErrorData {
   const output = response.content
     .filter(c => c.type === 'text')
     .map(c => c.text)
     .join('\n');
 
-  // Try to extract error type and message
-  let type = 'UnknownError';
-  let message = output.substring(0, 500);
-
-  // Common error patterns
-  const errorPatterns = [
-    /(\w+Error):\s*(.+)/,
-    /error\[E\d+\]:\s*(.+)/i,
-    /error:\s*(.+)/i,
-    /failed:\s*(.+)/i,
-  ];
-
-  for (const pattern of errorPatterns) {
-    const match = output.match(pattern);
-    if (match) {
-      if (match[2]) {
-        type = match[1];
-        message = match[2];
-      } else {
-        message = match[1];
-      }
-      break;
-    }
-  }
-
-  const result: {
-    type: string;
-    message: string;
-    file?: string;
-    context?: string;
-  } = { type, message };
+  const parsed = parseErrorOutput(output);
+  const result: ErrorData = { type: parsed.type, message: parsed.message };
+  if (parsed.code) result.code = parsed.code;
+  if (parsed.line) result.line = parsed.line;
+  if (parsed.column) result.column = parsed.column;
+  if (parsed.stack) result.stack = parsed.stack;
 
-  // Try to extract file from input
+  // The tool's own file wins over one mentioned in the output
   if (input.file_path) {
     result.file = input.file_path as string;
   } else if (input.path) {
     result.file = input.path as string;
+  } else if (parsed.file) {
+    result.file = cwd && !path.isAbsolute(parsed.file) ? path.resolve(cwd, parsed.file) : parsed.file;
   }
 
   // Add context
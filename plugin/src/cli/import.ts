@@ -0,0 +1,73 @@
+#!/usr/bin/env bun
+
+/**
+ * Import Claude Code transcript history as session notes
+ *
+ *   bun run import [path] [--dry-run] [--extract]
+ */
+
+import { loadConfig } from '../shared/config.js';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import {
+  findTranscripts,
+  getDefaultTranscriptsDir,
+  importTranscripts,
+} from '../services/transcript-import.js';
+
+const USAGE = `Usage:
+  bun run import [path] [--dry-run] [--extract]
+
+  path        Transcript file or directory (default: ~/.claude/projects)
+  --dry-run   Only report which sessions would be imported
+  --extract   Also queue AI knowledge extraction for imported sessions`;
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const extract = args.includes('--extract');
+  const unknown = args.filter(arg => arg.startsWith('-') && arg !== '--dry-run' && arg !== '--extract');
+  const [root = getDefaultTranscriptsDir(), ...extra] = args.filter(arg => !arg.startsWith('-'));
+  if (unknown.length > 0 || extra.length > 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+
+  const transcripts = findTranscripts(root);
+  if (transcripts.length === 0) {
+    console.log(`No transcripts found in ${root}`);
+    return;
+  }
+
+  const results = await importTranscripts(transcripts, config, vault, { dryRun, extract });
+
+  for (const result of results) {
+    const date = result.startTime ? result.startTime.split('T')[0] : '';
+    if (result.imported) {
+      const target = dryRun ? result.project : result.sessionPath;
+      console.log(`${dryRun ? 'would import' : 'imported'}  ${result.sessionId}  ${date}  ${target}`);
+    } else {
+      console.log(`skipped   ${result.sessionId}  ${result.reason}`);
+    }
+  }
+
+  const imported = results.filter(r => r.imported).length;
+  const queued = results.filter(r => r.queued).length;
+  console.log(`\n${dryRun ? 'Would import' : 'Imported'} ${imported} of ${results.length} transcripts` +
+    (queued > 0 ? `, queued knowledge extraction for ${queued}` : ''));
+  if (extract && !config.summarization.enabled) {
+    console.log('Knowledge extraction skipped: summarization is disabled in config');
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+#!/usr/bin/env bun
+
+/**
+ * Project maintenance commands
+ *
+ *   bun run project merge <source> <target> [--dry-run]
+ *   bun run project alias <alias> <project>
+ *   bun run project aliases
+ */
+
+import { loadConfig } from '../shared/config.js';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+
+const USAGE = `Usage:
+  bun run project merge <source> <target> [--dry-run]   Move all notes of <source> into <target>
+  bun run project alias <alias> <project>               Resolve sessions of <alias> to <project>
+  bun run project aliases                               List registered aliases`;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const [command, ...params] = args.filter(arg => arg !== '--dry-run');
+
+  const config = loadConfig();
+  const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+
+  switch (command) {
+    case 'merge': {
+      const [source, target] = params;
+      if (!source || !target) break;
+
+      const result = await vault.mergeProject(source, target, { dryRun });
+      console.log(`${dryRun ? 'Would move' : 'Moved'} ${result.moved.length} notes from ${result.source} to ${result.target}`);
+      for (const renamed of result.renamed) {
+        console.log(`  renamed (name taken): ${renamed}`);
+      }
+      for (const merged of result.merged) {
+        console.log(`  merged into existing note: ${merged}`);
+      }
+      if (result.relinked.length > 0) {
+        console.log(`${dryRun ? 'Would relink' : 'Relinked'} ${result.relinked.length} other notes`);
+      }
+      if (!dryRun) {
+        console.log(`"${result.source}" is now an alias of "${result.target}"`);
+      }
+      return;
+    }
+
+    case 'alias': {
+      const [alias, project] = params;
+      if (!alias || !project) break;
+
+      vault.addProjectAlias(alias, project);
+      console.log(`"${alias}" now resolves to "${vault.resolveProjectName(alias)}"`);
+      return;
+    }
+
+    case 'aliases': {
+      const aliases = Object.entries(vault.listProjectAliases());
+      if (aliases.length === 0) {
+        console.log('No project aliases registered');
+      }
+      for (const [alias, project] of aliases) {
+        console.log(`${alias} -> ${project}`);
+      }
+      return;
+    }
+  }
+
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
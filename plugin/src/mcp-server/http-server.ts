@@ -25,9 +25,13 @@ import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
 import * as z from 'zod';
-import { VaultManager } from './utils/vault.js';
+import { VaultManager, type ProjectMergeResult } from './utils/vault.js';
 import { loadConfig } from '../shared/config.js';
-import type { SearchResult, ProjectContext, Note } from '../shared/types.js';
+import { listActiveSessions } from '../shared/session-store.js';
+import { explainCapture, type CaptureDecision } from '../services/capture-rules.js';
+import { spawnJobRunner } from '../services/session-lifecycle.js';
+import { listJobs, retryJob, cancelJob, type Job, type JobStatus } from '../shared/job-queue.js';
+import type { SearchResult, ProjectContext, Note, TimelineEvent } from '../shared/types.js';
 
 type TextContent = { type: 'text'; text: string };
 type ToolResult = { content: TextContent[]; isError?: boolean };
@@ -119,14 +123,16 @@ function createMcpServer(): McpServer {
       title: 'Search Memory',
       description: 'Search the Claude Code knowledge base for past sessions, errors, decisions, and patterns.',
       inputSchema: {
-        query: z.string().describe('Search query - natural language or keywords'),
+        query: z.string().describe('Search query - natural language, keywords or a commit hash'),
         project: z.string().optional().describe('Filter by project name'),
-        type: z.enum(['session', 'error', 'decision', 'pattern', 'file', 'learning', 'knowledge']).optional().describe('Filter by note type'),
+        type: z.enum(['session', 'error', 'decision', 'pattern', 'file', 'learning', 'test', 'knowledge']).optional().describe('Filter by note type'),
         tags: z.array(z.string()).optional().describe('Filter by tags'),
+        branch: z.string().optional().describe('Only return notes recorded on this git branch'),
         limit: z.number().default(10).describe('Maximum number of results'),
+        mode: z.enum(['keyword', 'semantic', 'hybrid']).optional().describe('Ranking mode: keyword, semantic or hybrid'),
       },
     },
-    async ({ query, project, type, tags, limit }): Promise<ToolResult> => {
+    async ({ query, project, type, tags, branch, limit, mode }): Promise<ToolResult> => {
       try {
         const knowledgeTypeMap: Record<string, string | string[] | undefined> = {
           'knowledge': undefined,
@@ -147,7 +153,9 @@ function createMcpServer(): McpServer {
             project,
             type: regularNoteType,
             tags,
+            branch,
             limit,
+            mode,
           });
         }
 
@@ -162,7 +170,9 @@ function createMcpServer(): McpServer {
           knowledgeResults = await vault.searchKnowledge(query, {
             project,
             knowledgeType,
+            branch,
             limit: isKnowledgeOnlySearch ? limit : Math.max(5, limit - regularResults.length),
+            mode,
           });
         }
 
@@ -298,6 +308,41 @@ function createMcpServer(): McpServer {
     }
   );
 
+  // Tool: mem_resolve_error - Record the resolution of an error note
+  server.registerTool(
+    'mem_resolve_error',
+    {
+      title: 'Resolve Error',
+      description: 'Mark a captured error as resolved and record how it was fixed.',
+      inputSchema: {
+        path: z.string().describe('Path to the error note'),
+        resolution: z.string().describe('How the error was fixed'),
+        fixSummary: z.string().optional().describe('Summary of the fix diff'),
+        sessionId: z.string().optional().describe('Resolving session ID (defaults to the only active session)'),
+      },
+    },
+    async ({ path, resolution, fixSummary, sessionId }): Promise<ToolResult> => {
+      try {
+        const activeSessions = sessionId ? [] : listActiveSessions();
+        const result = await vault.resolveError(path, {
+          resolution,
+          fixSummary,
+          sessionId: sessionId || (activeSessions.length === 1 ? activeSessions[0].id : undefined),
+        });
+
+        const action = result.alreadyResolved ? 'Updated resolution of' : 'Resolved';
+        return {
+          content: [{ type: 'text', text: `${action} error: ${result.path}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to resolve error: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: mem_project_context - Get context for current project
   server.registerTool(
     'mem_project_context',
@@ -310,15 +355,17 @@ function createMcpServer(): McpServer {
         includeErrors: z.boolean().default(true).describe('Include unresolved errors'),
         includeDecisions: z.boolean().default(true).describe('Include recent decisions'),
         includePatterns: z.boolean().default(true).describe('Include relevant patterns'),
+        branch: z.string().optional().describe('Current git branch (prefers notes from it)'),
       },
     },
-    async ({ project, includeRecentSessions, includeErrors, includeDecisions, includePatterns }): Promise<ToolResult> => {
+    async ({ project, includeRecentSessions, includeErrors, includeDecisions, includePatterns, branch }): Promise<ToolResult> => {
       try {
         const context = await vault.getProjectContext(project, {
           includeRecentSessions,
           includeErrors,
           includeDecisions,
           includePatterns,
+          branch,
         });
 
         return {
@@ -333,6 +380,66 @@ function createMcpServer(): McpServer {
     }
   );
 
+  // Tool: mem_timeline - Chronological project history
+  server.registerTool(
+    'mem_timeline',
+    {
+      title: 'Project Timeline',
+      description: 'Chronological feed of sessions, errors, decisions and knowledge for a project, grouped by day.',
+      inputSchema: {
+        project: z.string().describe('Project name'),
+        from: z.string().optional().describe('Start date (inclusive)'),
+        to: z.string().optional().describe('End date (inclusive)'),
+        types: z.array(z.enum(['session', 'error', 'decision', 'knowledge'])).optional().describe('Note types to include'),
+        limit: z.number().default(100).describe('Maximum number of events'),
+      },
+    },
+    async ({ project, from, to, types, limit }): Promise<ToolResult> => {
+      try {
+        const events = await vault.getTimeline(project, { from, to, types, limit });
+        return {
+          content: [{ type: 'text', text: formatTimeline(project, events) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to get timeline: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: mem_capture_test - Explain capture rule decisions
+  server.registerTool(
+    'mem_capture_test',
+    {
+      title: 'Test Capture Rules',
+      description: 'Check whether a tool call would be captured and whether .memignore or which capture rule decided.',
+      inputSchema: {
+        tool: z.string().describe('Tool name'),
+        command: z.string().optional().describe('Bash command'),
+        filePath: z.string().optional().describe('Edited file'),
+        project: z.string().optional().describe('Project name'),
+        projectPath: z.string().optional().describe('Project directory'),
+        isError: z.boolean().default(false).describe('Whether the tool call failed'),
+      },
+    },
+    async ({ tool, command, filePath, project, projectPath, isError }): Promise<ToolResult> => {
+      try {
+        // Current config and .memignore files, as the next captured tool call would see them
+        const decision = explainCapture({ tool, command, filePath, project, projectPath, isError }, loadConfig().capture);
+        return {
+          content: [{ type: 'text', text: formatCaptureDecision(decision) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to test capture rules: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: mem_list_projects - List all projects
   server.registerTool(
     'mem_list_projects',
@@ -363,6 +470,77 @@ function createMcpServer(): McpServer {
     }
   );
 
+  // Tool: mem_project_merge - Merge one project into another
+  server.registerTool(
+    'mem_project_merge',
+    {
+      title: 'Merge Projects',
+      description: 'Move all notes of one project into another (renamed repo, fork) and record the old name as an alias. Use dryRun to preview.',
+      inputSchema: {
+        source: z.string().describe('Project to merge (its folder is removed)'),
+        target: z.string().describe('Project that receives the notes'),
+        dryRun: z.boolean().default(false).describe('Only report what would be moved'),
+      },
+    },
+    async ({ source, target, dryRun }): Promise<ToolResult> => {
+      try {
+        const result = await vault.mergeProject(source, target, { dryRun });
+        return {
+          content: [{ type: 'text', text: formatProjectMerge(result, dryRun) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to merge projects: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: mem_jobs - Inspect and manage background jobs
+  server.registerTool(
+    'mem_jobs',
+    {
+      title: 'Background Jobs',
+      description: 'List background summarization jobs with their status, attempts and last error, retry a failed or cancelled job, or cancel one that has not completed (an attempt already running still finishes and keeps the notes it writes). Summarization that failed (LLM error, timeout, machine asleep) is retried automatically with backoff; use this when a job has failed for good or is no longer wanted.',
+      inputSchema: {
+        action: z.enum(['list', 'retry', 'cancel']).default('list').describe('List jobs, or retry/cancel the job with the given id'),
+        id: z.string().optional().describe('Job ID (required for retry and cancel)'),
+        status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']).optional().describe('Only list jobs with this status'),
+        limit: z.number().default(20).describe('Maximum number of jobs to list'),
+      },
+    },
+    async ({ action, id, status, limit }): Promise<ToolResult> => {
+      try {
+        if (action === 'list') {
+          return {
+            content: [{ type: 'text', text: formatJobs(listJobs(status).slice(0, limit), status) }],
+          };
+        }
+
+        if (!id) {
+          return {
+            content: [{ type: 'text', text: `A job id is required to ${action} a job` }],
+            isError: true,
+          };
+        }
+
+        const job = action === 'retry' ? await retryJob(id) : await cancelJob(id);
+        if (action === 'retry') {
+          spawnJobRunner();
+        }
+        return {
+          content: [{ type: 'text', text: formatJobAction(job, action) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Job ${action} failed: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // ===== TechKB Tools =====
 
   // Tool: mem_techkb_categories - List available TechKB categories
@@ -534,6 +712,61 @@ function formatNote(note: Note): string {
   return lines.join('\n');
 }
 
+function formatCaptureDecision(decision: CaptureDecision): string {
+  const lines = [
+    `**Captured**: ${decision.capture ? 'yes' : 'no'}`,
+    `**Reason**: ${decision.reason}`,
+  ];
+  if (decision.rule) {
+    lines.push('', '```json', JSON.stringify(decision.rule, null, 2), '```');
+  }
+  return lines.join('\n');
+}
+
+function formatProjectMerge(result: ProjectMergeResult, dryRun: boolean): string {
+  const verb = dryRun ? 'Would move' : 'Moved';
+  return `${verb} ${result.moved.length} notes from ${result.source} to ${result.target} ` +
+    `(${result.renamed.length} renamed, ${result.merged.length} merged into existing notes, ` +
+    `${result.relinked.length} other notes relinked)`;
+}
+
+function formatJobs(jobs: Job[], status?: JobStatus): string {
+  if (!jobs.length) return status ? `No ${status} jobs.` : 'No background jobs.';
+  return jobs.map(j => `${j.id} ${j.type} ${j.status} ${j.attempts}/${j.maxAttempts}` +
+    (j.lastError ? ` - ${j.lastError}` : '')).join('\n');
+}
+
+function formatJobAction(job: Job, action: 'retry' | 'cancel'): string {
+  return action === 'retry'
+    ? `Job ${job.id} queued again with ${job.maxAttempts} fresh attempts.`
+    : `Job ${job.id} cancelled. An attempt already running still finishes, and notes it writes are kept; it just won't be retried.`;
+}
+
+const TIMELINE_LABELS: Record<TimelineEvent['kind'], string> = {
+  session: 'Session',
+  error_first_seen: 'Error first seen',
+  error_last_seen: 'Error last seen',
+  error_resolved: 'Error resolved',
+  decision: 'Decision',
+  supersession: 'Superseded',
+  knowledge: 'Knowledge',
+};
+
+function formatTimeline(project: string, events: TimelineEvent[]): string {
+  if (!events.length) return `No timeline events found for project "${project}".`;
+  const lines: string[] = [`# Timeline: ${project} (${events.length} events)`, ''];
+  let day = '';
+  for (const e of events) {
+    const [date, time] = e.date.split('T');
+    if (date !== day) {
+      if (day) lines.push('');
+      lines.push(`## ${(day = date)}`, '');
+    }
+    lines.push(`- ${time.substring(0, 5)} **${TIMELINE_LABELS[e.kind]}**: ${e.title} (\`${e.path}\`)${e.detail ? ` - ${e.detail}` : ''}`);
+  }
+  return lines.join('\n');
+}
+
 function formatProjectContext(context: ProjectContext): string {
   const lines: string[] = [`# Project: ${context.project}`, ''];
   if (context.summary) lines.push('## Summary', context.summary, '');
@@ -543,12 +776,22 @@ function formatProjectContext(context: ProjectContext): string {
   }
   if (context.unresolvedErrors.length) {
     lines.push('## Unresolved Errors', '');
-    for (const e of context.unresolvedErrors) lines.push(`> [!danger] ${e.type}`, `> ${e.message}`, `> Last seen: ${e.lastSeen}`, '');
+    for (const e of context.unresolvedErrors) lines.push(`> [!danger] ${e.type}`, `> ${e.message}`, `> Last seen: ${e.lastSeen}${e.occurrences && e.occurrences > 1 ? ` (${e.occurrences} occurrences)` : ''}`, '');
+  }
+  if (context.flakyTests.length) {
+    lines.push('## Flaky Tests', '');
+    for (const t of context.flakyTests) lines.push(`- \`${t.name}\` (failed ${t.failures} of ${t.runs} runs)`);
+    lines.push('');
   }
   if (context.activeDecisions.length) {
     lines.push('## Active Decisions', '');
     for (const d of context.activeDecisions) lines.push(`### ${d.title}`, d.decision, '');
   }
+  if (context.relevantFiles.length) {
+    lines.push('## Frequently Edited Files', '');
+    for (const f of context.relevantFiles) lines.push(`- \`${f.path}\` (${f.editCount} edits)`);
+    lines.push('');
+  }
   if (context.patterns.length) {
     lines.push('## Relevant Patterns', '');
     for (const p of context.patterns) lines.push(`- **${p.name}**: ${p.description}`);
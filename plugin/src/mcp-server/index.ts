@@ -3,9 +3,13 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import * as z from 'zod';
-import { VaultManager } from './utils/vault.js';
+import { VaultManager, type ProjectMergeResult } from './utils/vault.js';
 import { loadConfig } from '../shared/config.js';
-import type { SearchResult, ProjectContext, Note } from '../shared/types.js';
+import { listActiveSessions } from '../shared/session-store.js';
+import { explainCapture, type CaptureDecision } from '../services/capture-rules.js';
+import { spawnJobRunner } from '../services/session-lifecycle.js';
+import { listJobs, retryJob, cancelJob, type Job, type JobStatus } from '../shared/job-queue.js';
+import type { SearchResult, ProjectContext, Note, TimelineEvent } from '../shared/types.js';
 
 type TextContent = { type: 'text'; text: string };
 type ToolResult = { content: TextContent[]; isError?: boolean };
@@ -29,14 +33,16 @@ async function main() {
       title: 'Search Memory',
       description: 'Search the Claude Code knowledge base for past sessions, errors, decisions, and patterns. Use semantic search to find relevant information based on natural language queries.',
       inputSchema: {
-        query: z.string().describe('Search query - natural language or keywords'),
+        query: z.string().describe('Search query - natural language, keywords, or a git commit hash (finds the session that made the commit)'),
         project: z.string().optional().describe('Filter by project name'),
-        type: z.enum(['session', 'error', 'decision', 'pattern', 'file', 'learning', 'knowledge']).optional().describe('Filter by note type. Use "knowledge" to search all knowledge notes (qa, explanation, decision, research, learning)'),
+        type: z.enum(['session', 'error', 'decision', 'pattern', 'file', 'learning', 'test', 'knowledge']).optional().describe('Filter by note type. Use "knowledge" to search all knowledge notes (qa, explanation, decision, research, learning)'),
         tags: z.array(z.string()).optional().describe('Filter by tags'),
+        branch: z.string().optional().describe('Only return notes recorded on this git branch (notes without branch information are always included)'),
         limit: z.number().default(10).describe('Maximum number of results'),
+        mode: z.enum(['keyword', 'semantic', 'hybrid']).optional().describe('Ranking mode: "keyword" (BM25), "semantic" (embedding similarity, good for natural-language questions) or "hybrid" (both). Defaults to search.defaultMode in config'),
       },
     },
-    async ({ query, project, type, tags, limit }): Promise<ToolResult> => {
+    async ({ query, project, type, tags, branch, limit, mode }): Promise<ToolResult> => {
       try {
         // Map NoteType to knowledge_type for knowledge search
         // 'knowledge' type searches ALL knowledge types (qa, explanation, decision, research, learning)
@@ -62,7 +68,9 @@ async function main() {
             project,
             type: regularNoteType,
             tags,
+            branch,
             limit,
+            mode,
           });
         }
 
@@ -82,7 +90,9 @@ async function main() {
           knowledgeResults = await vault.searchKnowledge(query, {
             project,
             knowledgeType,
+            branch,
             limit: isKnowledgeOnlySearch ? limit : Math.max(5, limit - regularResults.length),
+            mode,
           });
         }
 
@@ -225,6 +235,41 @@ async function main() {
     }
   );
 
+  // Tool: mem_resolve_error - Record the resolution of an error note
+  server.registerTool(
+    'mem_resolve_error',
+    {
+      title: 'Resolve Error',
+      description: 'Mark a captured error as resolved and record how it was fixed. Use after fixing an error that appears under "Known Issues" or in mem_search results, so future sessions get the fix instead of a stale open issue. Resolved errors are reopened automatically if they occur again.',
+      inputSchema: {
+        path: z.string().describe('Path to the error note (e.g., "projects/my-project/errors/abc123def456.md")'),
+        resolution: z.string().describe('How the error was fixed - root cause and the change that fixed it'),
+        fixSummary: z.string().optional().describe('Optional summary of the fix diff (files changed, key edits)'),
+        sessionId: z.string().optional().describe('Session that resolved the error (defaults to the active session when there is exactly one)'),
+      },
+    },
+    async ({ path, resolution, fixSummary, sessionId }): Promise<ToolResult> => {
+      try {
+        const activeSessions = sessionId ? [] : listActiveSessions();
+        const result = await vault.resolveError(path, {
+          resolution,
+          fixSummary,
+          sessionId: sessionId || (activeSessions.length === 1 ? activeSessions[0].id : undefined),
+        });
+
+        const action = result.alreadyResolved ? 'Updated resolution of' : 'Resolved';
+        return {
+          content: [{ type: 'text', text: `${action} error: ${result.path}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to resolve error: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: mem_project_context - Get context for current project
   server.registerTool(
     'mem_project_context',
@@ -237,15 +282,17 @@ async function main() {
         includeErrors: z.boolean().default(true).describe('Include unresolved errors'),
         includeDecisions: z.boolean().default(true).describe('Include recent decisions'),
         includePatterns: z.boolean().default(true).describe('Include relevant patterns'),
+        branch: z.string().optional().describe('Current git branch - notes recorded on or related to it rank higher, notes recorded only on other branches rank lower'),
       },
     },
-    async ({ project, includeRecentSessions, includeErrors, includeDecisions, includePatterns }): Promise<ToolResult> => {
+    async ({ project, includeRecentSessions, includeErrors, includeDecisions, includePatterns, branch }): Promise<ToolResult> => {
       try {
         const context = await vault.getProjectContext(project, {
           includeRecentSessions,
           includeErrors,
           includeDecisions,
           includePatterns,
+          branch,
         });
 
         const output = formatProjectContext(context);
@@ -262,6 +309,67 @@ async function main() {
     }
   );
 
+  // Tool: mem_timeline - Chronological project history
+  server.registerTool(
+    'mem_timeline',
+    {
+      title: 'Project Timeline',
+      description: 'Show what happened on a project over time: sessions, errors first seen / last seen / resolved, decisions, supersessions and knowledge notes, grouped by day. Use for questions like "what happened on this project last week".',
+      inputSchema: {
+        project: z.string().describe('Project name'),
+        from: z.string().optional().describe('Start date, inclusive (e.g. "2026-03-01" or an ISO timestamp)'),
+        to: z.string().optional().describe('End date, inclusive (a plain date covers the whole day)'),
+        types: z.array(z.enum(['session', 'error', 'decision', 'knowledge'])).optional().describe('Only include these note types (default: all)'),
+        limit: z.number().default(100).describe('Maximum number of events (the newest are kept)'),
+      },
+    },
+    async ({ project, from, to, types, limit }): Promise<ToolResult> => {
+      try {
+        const events = await vault.getTimeline(project, { from, to, types, limit });
+
+        return {
+          content: [{ type: 'text', text: formatTimeline(project, events) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to get timeline: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: mem_capture_test - Explain capture rule decisions
+  server.registerTool(
+    'mem_capture_test',
+    {
+      title: 'Test Capture Rules',
+      description: 'Dry-run the capture rules for a tool call: shows whether it would be recorded as an observation and whether .memignore or which capture rule decided, using the current config.json. Use when tuning capture.rules in config.json.',
+      inputSchema: {
+        tool: z.string().describe('Tool name, e.g. "Bash", "Edit" or "mcp__github__create_issue"'),
+        command: z.string().optional().describe('Bash command'),
+        filePath: z.string().optional().describe('Edited file, absolute or relative to projectPath'),
+        project: z.string().optional().describe('Project name'),
+        projectPath: z.string().optional().describe('Project directory, used to make filePath relative'),
+        isError: z.boolean().default(false).describe('Whether the tool call failed'),
+      },
+    },
+    async ({ tool, command, filePath, project, projectPath, isError }): Promise<ToolResult> => {
+      try {
+        // Current config and .memignore files, as the next captured tool call would see them
+        const decision = explainCapture({ tool, command, filePath, project, projectPath, isError }, loadConfig().capture);
+        return {
+          content: [{ type: 'text', text: formatCaptureDecision(decision) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to test capture rules: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: mem_list_projects - List all projects
   server.registerTool(
     'mem_list_projects',
@@ -294,6 +402,77 @@ async function main() {
     }
   );
 
+  // Tool: mem_project_merge - Merge one project into another
+  server.registerTool(
+    'mem_project_merge',
+    {
+      title: 'Merge Projects',
+      description: 'Move all notes of one project into another when a project\'s identity changed (renamed repository, fork, clone without a remote). Rewrites project frontmatter, project/ tags and parent links, merges error and file notes the target already has (other notes with a taken name are renamed), and records the old name as an alias so future sessions use the target project. Run with dryRun first to preview.',
+      inputSchema: {
+        source: z.string().describe('Project to merge (its folder is removed)'),
+        target: z.string().describe('Project that receives the notes'),
+        dryRun: z.boolean().default(false).describe('Only report what would be moved'),
+      },
+    },
+    async ({ source, target, dryRun }): Promise<ToolResult> => {
+      try {
+        const result = await vault.mergeProject(source, target, { dryRun });
+        return {
+          content: [{ type: 'text', text: formatProjectMerge(result, dryRun) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to merge projects: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: mem_jobs - Inspect and manage background jobs
+  server.registerTool(
+    'mem_jobs',
+    {
+      title: 'Background Jobs',
+      description: 'List background summarization jobs with their status, attempts and last error, retry a failed or cancelled job, or cancel one that has not completed (an attempt already running still finishes and keeps the notes it writes). Summarization that failed (LLM error, timeout, machine asleep) is retried automatically with backoff; use this when a job has failed for good or is no longer wanted.',
+      inputSchema: {
+        action: z.enum(['list', 'retry', 'cancel']).default('list').describe('List jobs, or retry/cancel the job with the given id'),
+        id: z.string().optional().describe('Job ID (required for retry and cancel)'),
+        status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']).optional().describe('Only list jobs with this status'),
+        limit: z.number().default(20).describe('Maximum number of jobs to list'),
+      },
+    },
+    async ({ action, id, status, limit }): Promise<ToolResult> => {
+      try {
+        if (action === 'list') {
+          return {
+            content: [{ type: 'text', text: formatJobs(listJobs(status).slice(0, limit), status) }],
+          };
+        }
+
+        if (!id) {
+          return {
+            content: [{ type: 'text', text: `A job id is required to ${action} a job` }],
+            isError: true,
+          };
+        }
+
+        const job = action === 'retry' ? await retryJob(id) : await cancelJob(id);
+        if (action === 'retry') {
+          spawnJobRunner();
+        }
+        return {
+          content: [{ type: 'text', text: formatJobAction(job, action) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Job ${action} failed: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // ===== TechKB Tools =====
 
   // Tool: mem_techkb_categories - List available TechKB categories
@@ -493,6 +672,115 @@ function formatNote(note: Note): string {
   return lines.join('\n');
 }
 
+function formatCaptureDecision(decision: CaptureDecision): string {
+  const lines = [
+    `**Captured**: ${decision.capture ? 'yes' : 'no'}`,
+    `**Reason**: ${decision.reason}`,
+  ];
+  if (decision.rule) {
+    lines.push('', '```json', JSON.stringify(decision.rule, null, 2), '```');
+  }
+  return lines.join('\n');
+}
+
+function formatProjectMerge(result: ProjectMergeResult, dryRun: boolean): string {
+  const lines = [
+    `## ${dryRun ? 'Merge Preview' : 'Merged'}: ${result.source} → ${result.target}`,
+    '',
+    `**Notes moved**: ${result.moved.length}`,
+    `**Renamed (name taken in target)**: ${result.renamed.length}`,
+    `**Merged into the target's error and file notes**: ${result.merged.length}`,
+    `**Other notes relinked**: ${result.relinked.length}`,
+  ];
+
+  if (result.renamed.length > 0) {
+    lines.push('', '### Renamed', '', ...result.renamed.map(p => `- ${p}`));
+  }
+  if (result.merged.length > 0) {
+    lines.push('', '### Merged', '', ...result.merged.map(p => `- ${p}`));
+  }
+  if (result.relinked.length > 0) {
+    lines.push('', '### Relinked', '', ...result.relinked.map(p => `- ${p}`));
+  }
+  if (!dryRun) {
+    lines.push('', `Sessions for "${result.source}" now continue in "${result.target}".`);
+  }
+
+  return lines.join('\n');
+}
+
+function describeJob(job: Job): string {
+  const payload = job.payload as { project?: string; trigger?: string; session_id?: string };
+  return [payload.trigger, payload.project, payload.session_id && `session ${payload.session_id}`]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function formatJobs(jobs: Job[], status?: JobStatus): string {
+  if (jobs.length === 0) {
+    return status ? `No ${status} jobs.` : 'No background jobs.';
+  }
+
+  const lines = [`## Background Jobs (${jobs.length})`, ''];
+  for (const job of jobs) {
+    lines.push(`### ${job.id} - ${job.status}`);
+    lines.push(`- **Type**: ${job.type}${describeJob(job) ? ` (${describeJob(job)})` : ''}`);
+    lines.push(`- **Attempts**: ${job.attempts}/${job.maxAttempts}`);
+    lines.push(`- **Created**: ${job.createdAt}`);
+    if (job.status === 'pending' && job.attempts > 0) {
+      lines.push(`- **Next attempt**: ${job.runAfter}`);
+    }
+    if (job.lastError) {
+      lines.push(`- **Last error**: ${job.lastError}`);
+    }
+    if (job.result) {
+      lines.push(`- **Result**: ${job.result}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n').trimEnd();
+}
+
+function formatJobAction(job: Job, action: 'retry' | 'cancel'): string {
+  return action === 'retry'
+    ? `Job ${job.id} queued again with ${job.maxAttempts} fresh attempts.`
+    : `Job ${job.id} cancelled. An attempt already running still finishes, and notes it writes are kept; it just won't be retried.`;
+}
+
+const TIMELINE_LABELS: Record<TimelineEvent['kind'], string> = {
+  session: 'Session',
+  error_first_seen: 'Error first seen',
+  error_last_seen: 'Error last seen',
+  error_resolved: 'Error resolved',
+  decision: 'Decision',
+  supersession: 'Superseded',
+  knowledge: 'Knowledge',
+};
+
+function formatTimeline(project: string, events: TimelineEvent[]): string {
+  if (events.length === 0) {
+    return `No timeline events found for project "${project}".`;
+  }
+
+  const lines: string[] = [`# Timeline: ${project} (${events.length} events)`, ''];
+  let day = '';
+
+  for (const event of events) {
+    const [date, time] = event.date.split('T');
+    if (date !== day) {
+      if (day) lines.push('');
+      day = date;
+      lines.push(`## ${date}`);
+      lines.push('');
+    }
+
+    const detail = event.detail ? ` - ${event.detail}` : '';
+    lines.push(`- ${time.substring(0, 5)} **${TIMELINE_LABELS[event.kind]}**: ${event.title} (\`${event.path}\`)${detail}`);
+  }
+
+  return lines.join('\n');
+}
+
 function formatProjectContext(context: ProjectContext): string {
   const lines: string[] = [];
 
@@ -521,11 +809,20 @@ function formatProjectContext(context: ProjectContext): string {
     for (const error of context.unresolvedErrors) {
       lines.push(`> [!danger] ${error.type}`);
       lines.push(`> ${error.message}`);
-      lines.push(`> Last seen: ${error.lastSeen}`);
+      lines.push(`> Last seen: ${error.lastSeen}${error.occurrences && error.occurrences > 1 ? ` (${error.occurrences} occurrences)` : ''}`);
       lines.push('');
     }
   }
 
+  if (context.flakyTests.length > 0) {
+    lines.push('## Flaky Tests');
+    lines.push('');
+    for (const test of context.flakyTests) {
+      lines.push(`- \`${test.name}\` - failed ${test.failures} of ${test.runs} runs, last ${test.lastFailed.split('T')[0]}`);
+    }
+    lines.push('');
+  }
+
   if (context.activeDecisions.length > 0) {
     lines.push('## Active Decisions');
     lines.push('');
@@ -536,6 +833,15 @@ function formatProjectContext(context: ProjectContext): string {
     }
   }
 
+  if (context.relevantFiles.length > 0) {
+    lines.push('## Frequently Edited Files');
+    lines.push('');
+    for (const file of context.relevantFiles) {
+      lines.push(`- \`${file.path}\` (${file.editCount} edits, last ${file.lastEdited.split('T')[0]})`);
+    }
+    lines.push('');
+  }
+
   if (context.patterns.length > 0) {
     lines.push('## Relevant Patterns');
     lines.push('');
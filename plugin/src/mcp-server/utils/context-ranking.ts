@@ -0,0 +1,102 @@
+/**
+ * Relevance ranking for project context
+ *
+ * Scores notes for the session-start context. A note's score is its recency
+ * (exponential decay), scaled up by how often its subject recurs (error
+ * occurrences, file edit counts) and by its relation to the current git
+ * branch and recently modified files. Notes recorded only on other branches
+ * are demoted, and superseded notes score zero.
+ */
+
+import * as path from 'path';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENCY_HALF_LIFE_DAYS = 14;
+/** Age assumed for notes without a usable timestamp */
+const UNKNOWN_AGE_DAYS = RECENCY_HALF_LIFE_DAYS * 4;
+const FREQUENCY_WEIGHT = 0.5;
+const BRANCH_BOOST = 1;
+/** Multiplier for notes recorded only on other (non-default) branches */
+const OTHER_BRANCH_FACTOR = 0.25;
+const RECENT_FILE_BOOST = 0.5;
+const MAX_FILE_MATCHES = 3;
+/** Branches all work happens on - a note mentioning them says nothing */
+const DEFAULT_BRANCHES = new Set(['main', 'master', 'develop', 'dev', 'trunk']);
+
+export interface RankingContext {
+  /** Current git branch */
+  branch?: string;
+  /** Recently modified files, relative to the repository root */
+  recentFiles?: string[];
+  /** Reference time in ms (defaults to now) */
+  now?: number;
+}
+
+export interface NoteSignals {
+  /** When the note's subject was last active (ISO timestamp) */
+  lastActive?: string;
+  /** Error occurrences or file edit count */
+  frequency?: number;
+  superseded?: boolean;
+  /** Branches the note was recorded on, if known */
+  branches?: string[];
+  /** Note text checked for branch and file mentions */
+  text: string;
+}
+
+/**
+ * Score how useful a note is as context right now (higher is better, 0 = exclude)
+ */
+export function scoreRelevance(signals: NoteSignals, context: RankingContext = {}): number {
+  if (signals.superseded) {
+    return 0;
+  }
+
+  const now = context.now ?? Date.now();
+  const time = signals.lastActive ? Date.parse(signals.lastActive) : NaN;
+  const ageDays = Number.isNaN(time) ? UNKNOWN_AGE_DAYS : Math.max(0, (now - time) / DAY_MS);
+
+  let score = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  score *= 1 + FREQUENCY_WEIGHT * Math.log2(Math.max(1, signals.frequency ?? 1));
+
+  const relation = branchRelation(signals, context.branch);
+  if (relation === 'same') {
+    score *= 1 + BRANCH_BOOST;
+  } else if (relation === 'other') {
+    score *= OTHER_BRANCH_FACTOR;
+  }
+
+  const fileMatches = countFileMentions(signals.text, context.recentFiles || []);
+  score *= 1 + RECENT_FILE_BOOST * Math.min(fileMatches, MAX_FILE_MATCHES);
+
+  return score;
+}
+
+function branchRelation(signals: NoteSignals, branch?: string): 'same' | 'other' | 'unknown' {
+  if (!branch) return 'unknown';
+
+  const recorded = signals.branches || [];
+  if (recorded.includes(branch)) return 'same';
+  // Work from default branches is shared ground for every branch
+  if (recorded.length > 0 && !recorded.some(b => DEFAULT_BRANCHES.has(b))) return 'other';
+  if (DEFAULT_BRANCHES.has(branch)) return 'unknown';
+
+  // "feature/login-form" also matches notes that mention "login-form"
+  const text = signals.text.toLowerCase();
+  const lastSegment = branch.split('/').pop() || branch;
+  const mentioned = text.includes(branch.toLowerCase()) ||
+    (lastSegment.length >= 4 && text.includes(lastSegment.toLowerCase()));
+  return mentioned ? 'same' : 'unknown';
+}
+
+function countFileMentions(text: string, files: string[]): number {
+  let count = 0;
+  for (const file of files) {
+    const basename = path.basename(file);
+    // Bare names like "index" are too common to count on their own
+    if (text.includes(file) || (basename.includes('.') && basename.length >= 5 && text.includes(basename))) {
+      count++;
+    }
+  }
+  return count;
+}
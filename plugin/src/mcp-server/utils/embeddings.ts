@@ -0,0 +1,164 @@
+import type { EmbedderConfig } from '../../shared/types.js';
+import { tokenize } from './search-index.js';
+
+/**
+ * Turns text into fixed-size vectors for semantic search
+ */
+export interface Embedder {
+  /** Identifies the model; stored vectors from a different id are discarded */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_DIMENSIONS = 512;
+
+// Character trigrams catch morphological variants ("dropped" vs "drop") but
+// are noisier than whole words, so they count for less
+const TRIGRAM_WEIGHT = 0.5;
+const BIGRAM_WEIGHT = 0.75;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length (in place)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity of two unit-length vectors
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  for (let i = 0; i < length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Local embedder using the hashing trick over words, word bigrams and character
+ * trigrams. Needs no model download or network, and is deterministic, so vectors
+ * stay valid across processes and machines.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `hashed-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const terms = tokenize(text);
+
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // Use a separate bit for the sign so collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+
+    for (let i = 0; i < terms.length; i++) {
+      const term = terms[i];
+      add(`w:${term}`, 1);
+
+      if (i + 1 < terms.length) {
+        add(`b:${term} ${terms[i + 1]}`, BIGRAM_WEIGHT);
+      }
+
+      const padded = `^${term}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    // Sublinear scaling so repeated terms don't dominate long notes
+    for (let i = 0; i < vector.length; i++) {
+      const v = vector[i];
+      if (v !== 0) vector[i] = Math.sign(v) * Math.log1p(Math.abs(v));
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * Embedder for any OpenAI-compatible /embeddings endpoint
+ * (OpenAI, Ollama, LM Studio, vLLM, ...)
+ */
+export class OpenAICompatibleEmbedder implements Embedder {
+  readonly id: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.id = `openai-compatible:${this.baseUrl}:${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+    return body.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalizeVector([...item.embedding]));
+  }
+}
+
+/**
+ * Create the embedder selected in config
+ */
+export function createEmbedder(config?: EmbedderConfig): Embedder {
+  if (config?.provider === 'openai-compatible') {
+    if (!config.baseUrl || !config.model) {
+      throw new Error('search.embedder requires baseUrl and model for the openai-compatible provider');
+    }
+    return new OpenAICompatibleEmbedder({
+      baseUrl: config.baseUrl,
+      model: config.model,
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+    });
+  }
+
+  return new HashedNgramEmbedder(config?.dimensions);
+}
@@ -0,0 +1,68 @@
+/**
+ * Similarity between knowledge notes
+ *
+ * Used to catch the same knowledge being extracted again in a later session
+ * ("How to configure X" asked once a week). Two notes are compared by their
+ * titles (shared terms), topics (shared tags) and content (cosine of term
+ * frequencies, as indexed for search), blended into a score from 0 to 1.
+ */
+
+import { tokenize } from './search-index.js';
+
+const TITLE_WEIGHT = 0.4;
+const TOPIC_WEIGHT = 0.2;
+const CONTENT_WEIGHT = 0.4;
+
+export interface KnowledgeSignals {
+  title: string;
+  topics: string[];
+  /** Term -> frequency, see termFrequencies() */
+  terms: Record<string, number>;
+}
+
+/**
+ * Score how alike two knowledge notes are (0 = unrelated, 1 = same)
+ * Topics only count when both notes have some
+ */
+export function knowledgeSimilarity(a: KnowledgeSignals, b: KnowledgeSignals): number {
+  const title = jaccard(new Set(tokenize(a.title)), new Set(tokenize(b.title)));
+  const content = cosine(a.terms, b.terms);
+
+  const topicsA = new Set(a.topics.map(normalizeTopic));
+  const topicsB = new Set(b.topics.map(normalizeTopic));
+  if (topicsA.size === 0 || topicsB.size === 0) {
+    return (TITLE_WEIGHT * title + CONTENT_WEIGHT * content) / (TITLE_WEIGHT + CONTENT_WEIGHT);
+  }
+
+  return TITLE_WEIGHT * title + TOPIC_WEIGHT * jaccard(topicsA, topicsB) + CONTENT_WEIGHT * content;
+}
+
+/**
+ * Topic as written to tags (`topic/<topic>`)
+ */
+export function normalizeTopic(topic: string): string {
+  return topic.toLowerCase().replace(/\s+/g, '-');
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function cosine(a: Record<string, number>, b: Record<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, freq] of Object.entries(a)) {
+    normA += freq * freq;
+    if (b[term]) dot += freq * b[term];
+  }
+  for (const freq of Object.values(b)) {
+    normB += freq * freq;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { sanitizeProjectName } from '../../shared/config.js';
+import { PROJECTS_FOLDER } from '../../shared/constants.js';
+import { atomicWriteSync } from '../../shared/file-lock.js';
+
+const ALIASES_FILE = 'project-aliases.json';
+
+// Longest alias chain followed before giving up (guards against cycles)
+const MAX_ALIAS_HOPS = 10;
+
+interface AliasesFile {
+  /** Sanitized alias -> canonical project name */
+  aliases: Record<string, string>;
+}
+
+/**
+ * Registry of old project names (renamed repos, forks, clones without a
+ * remote) and the canonical project they were merged into. Stored in
+ * `<memFolder>/project-aliases.json` so it travels with the vault.
+ */
+export class ProjectAliases {
+  private filePath: string;
+
+  constructor(memPath: string) {
+    this.filePath = path.join(memPath, ALIASES_FILE);
+  }
+
+  /**
+   * All aliases, keyed by sanitized alias
+   */
+  list(): Record<string, string> {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as AliasesFile;
+      return data.aliases && typeof data.aliases === 'object' ? data.aliases : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * The canonical project for a name (the name itself if it isn't an alias)
+   */
+  resolve(name: string): string {
+    const aliases = this.list();
+    let current = name;
+    for (let hop = 0; hop < MAX_ALIAS_HOPS; hop++) {
+      const next = aliases[sanitizeProjectName(current)];
+      if (!next || sanitizeProjectName(next) === sanitizeProjectName(current)) break;
+      current = next;
+    }
+    return current;
+  }
+
+  /**
+   * Record that `alias` now refers to `canonical`. Aliases that pointed at
+   * `alias` are re-pointed so lookups stay one hop.
+   */
+  add(alias: string, canonical: string): void {
+    const aliasKey = sanitizeProjectName(alias);
+    const canonicalKey = sanitizeProjectName(canonical);
+    if (aliasKey === canonicalKey) {
+      throw new Error(`A project cannot be an alias of itself: ${alias}`);
+    }
+
+    const aliases = this.list();
+    for (const [key, target] of Object.entries(aliases)) {
+      if (sanitizeProjectName(target) === aliasKey) {
+        aliases[key] = canonical;
+      }
+    }
+    aliases[aliasKey] = canonical;
+    // The canonical project is no longer an alias of anything
+    delete aliases[canonicalKey];
+
+    const sorted = Object.fromEntries(Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b)));
+    atomicWriteSync(this.filePath, JSON.stringify({ aliases: sorted }, null, 2) + '\n');
+  }
+}
+
+/**
+ * Point a note's project references at another project: `project:` and
+ * `parent_project:` frontmatter, `project/<slug>` tags, and links or paths
+ * into the project folder (parent wikilinks, Dataview `FROM` queries)
+ * @param renamed - Files renamed on the way, by path inside the project
+ *   folder (forward slashes, notes without `.md`) -> new path
+ */
+export function rewriteProjectReferences(
+  content: string,
+  from: string,
+  to: string,
+  renamed: Record<string, string> = {}
+): string {
+  const fromSlug = escapeRegExp(sanitizeProjectName(from));
+  const toSlug = sanitizeProjectName(to);
+  const names = [...new Set([from, sanitizeProjectName(from)])].map(escapeRegExp).join('|');
+
+  // Links to renamed files first, so the slug rewrite below can't point them at the target's namesake
+  for (const [oldPath, newPath] of Object.entries(renamed)) {
+    content = content.replace(
+      new RegExp(`\\b${PROJECTS_FOLDER}/${fromSlug}/${escapeRegExp(oldPath)}(\\.md)?(?=[\\]|#")])`, 'g'),
+      (_match, ext: string | undefined) => `${PROJECTS_FOLDER}/${toSlug}/${newPath}${ext || ''}`
+    );
+  }
+
+  return content
+    .replace(
+      new RegExp(`^(project|parent_project):([ \\t]*)(["']?)(?:${names})\\3[ \\t]*$`, 'gm'),
+      (_match, key: string, space: string, quote: string) => `${key}:${space}${quote}${to}${quote}`
+    )
+    .replace(new RegExp(`(^|[\\s#"'\\[,])project/${fromSlug}(?![\\w/-])`, 'gm'), `$1project/${toSlug}`)
+    .replace(new RegExp(`\\b${PROJECTS_FOLDER}/${fromSlug}/${fromSlug}(?=[\\]|#"])`, 'g'), `${PROJECTS_FOLDER}/${toSlug}/${toSlug}`)
+    .replace(new RegExp(`\\b${PROJECTS_FOLDER}/${fromSlug}(?=[/"\\]|#])`, 'g'), `${PROJECTS_FOLDER}/${toSlug}`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,520 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseFrontmatter } from './frontmatter.js';
+import { INDEX_FOLDER } from '../../shared/constants.js';
+import { acquireLockSync, atomicWriteSync, releaseLock } from '../../shared/file-lock.js';
+
+/**
+ * Bump when the on-disk layout or tokenizer changes so stale indexes are rebuilt
+ */
+const INDEX_VERSION = 3;
+const INDEX_FILE = 'search-index.json';
+
+// BM25 tuning (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Title terms count this many times towards term frequency
+const TITLE_WEIGHT = 3;
+
+// Abbreviated or full commit hash, as shown by git log / git blame
+const COMMIT_HASH_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that',
+  'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Metadata and term frequencies for one indexed note
+ */
+export interface IndexedNote {
+  mtimeMs: number;
+  size: number;
+  title: string;
+  type: string;
+  project?: string;
+  knowledgeType?: string;
+  created?: string;
+  tags: string[];
+  topics: string[];
+  /** Git branches the note was recorded on (empty if unknown) */
+  branches: string[];
+  /** Full hashes of the git commits recorded on the note (sessions) */
+  commits: string[];
+  /** Total number of (weighted) terms in the note */
+  length: number;
+  /** Term -> frequency */
+  terms: Record<string, number>;
+}
+
+/**
+ * A ranked search hit. `path` is relative to the memory folder and uses forward slashes.
+ */
+export interface IndexHit {
+  path: string;
+  note: IndexedNote;
+  score: number;
+}
+
+interface IndexFile {
+  version: number;
+  notes: Record<string, IndexedNote>;
+}
+
+/**
+ * Reduce a word to a crude stem so "errors" matches "error"
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function normalizeTerm(word: string): string | null {
+  const lower = word.toLowerCase();
+  if (lower.length < 2 || STOP_WORDS.has(lower)) return null;
+  return stem(lower);
+}
+
+/**
+ * Split text into search terms.
+ * Identifiers are indexed whole and by their camelCase / snake_case parts,
+ * so "getProjectContext" matches both itself and "project context".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.match(/[\p{L}\p{N}_]+/gu) || [];
+
+  for (const word of words) {
+    const whole = normalizeTerm(word);
+    if (whole) tokens.push(whole);
+
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(Boolean);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const term = normalizeTerm(part);
+        if (term && term !== whole) tokens.push(term);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Term frequencies of a note, with title terms weighted up
+ */
+export function termFrequencies(title: string, content: string): { terms: Record<string, number>; length: number } {
+  const terms: Record<string, number> = {};
+  let length = 0;
+  for (const term of tokenize(content)) {
+    terms[term] = (terms[term] || 0) + 1;
+    length++;
+  }
+  for (const term of tokenize(title)) {
+    terms[term] = (terms[term] || 0) + TITLE_WEIGHT;
+    length += TITLE_WEIGHT;
+  }
+  return { terms, length };
+}
+
+/**
+ * Persistent BM25 index over the markdown notes in the memory folder.
+ *
+ * The index is stored as JSON under `<memFolder>/.index/` and kept current in two ways:
+ * writers call `update()` for the notes they touch, and `refresh()` compares every
+ * note's mtime/size against the index so edits made outside the plugin (or updates
+ * lost to concurrent writers) are picked up before searching.
+ */
+export class SearchIndex {
+  private memPath: string;
+  private notes: Map<string, IndexedNote> | null = null;
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+  private dirty = false;
+  /** Notes indexed or dropped since the last save */
+  private changed = new Set<string>();
+
+  constructor(memPath: string) {
+    this.memPath = memPath;
+  }
+
+  /**
+   * Get the path of the persisted index file
+   */
+  getIndexPath(): string {
+    return path.join(this.memPath, INDEX_FOLDER, INDEX_FILE);
+  }
+
+  /**
+   * Number of notes currently indexed
+   */
+  size(): number {
+    return this.load().size;
+  }
+
+  /**
+   * Look up an indexed note by its path relative to the memory folder
+   */
+  getNote(relPath: string): IndexedNote | undefined {
+    return this.load().get(relPath);
+  }
+
+  /**
+   * List indexed notes with the file stats they were indexed at
+   */
+  entries(): Array<{ path: string; mtimeMs: number; size: number }> {
+    return [...this.load()].map(([relPath, note]) => ({
+      path: relPath,
+      mtimeMs: note.mtimeMs,
+      size: note.size,
+    }));
+  }
+
+  /**
+   * Bring the index in line with the notes on disk and persist any changes
+   */
+  refresh(): void {
+    const notes = this.load();
+    const seen = new Set<string>();
+
+    for (const file of this.listNotes()) {
+      const relPath = this.toRelative(file);
+      seen.add(relPath);
+
+      let stat: fs.Stats;
+      try {
+        stat = fs.statSync(file);
+      } catch {
+        continue;
+      }
+
+      const existing = notes.get(relPath);
+      if (existing && existing.mtimeMs === stat.mtimeMs && existing.size === stat.size) {
+        continue;
+      }
+
+      this.indexFile(relPath, file, stat);
+    }
+
+    for (const relPath of [...notes.keys()]) {
+      if (!seen.has(relPath)) {
+        this.removeNote(relPath);
+      }
+    }
+
+    this.save();
+  }
+
+  /**
+   * Re-index (or drop, if deleted) specific notes after they were written.
+   * Does nothing until a full index has been built by a search, so hook
+   * processes never pay for an initial build.
+   */
+  update(fullPaths: string[]): void {
+    if (!this.notes && !fs.existsSync(this.getIndexPath())) {
+      return;
+    }
+
+    this.load();
+
+    for (const fullPath of fullPaths) {
+      const relPath = this.toRelative(fullPath);
+      if (relPath.startsWith('..') || !relPath.endsWith('.md')) continue;
+
+      try {
+        this.indexFile(relPath, fullPath, fs.statSync(fullPath));
+      } catch {
+        this.removeNote(relPath);
+      }
+    }
+
+    this.save();
+  }
+
+  /**
+   * Rank notes against a query using BM25
+   */
+  search(
+    query: string,
+    options: {
+      filter?: (relPath: string, note: IndexedNote) => boolean;
+      limit?: number;
+    } = {}
+  ): IndexHit[] {
+    const notes = this.load();
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || notes.size === 0) {
+      return [];
+    }
+
+    const docCount = notes.size;
+    const avgLength = this.totalLength / docCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [relPath, tf] of posting) {
+        const note = notes.get(relPath)!;
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * (note.length / avgLength));
+        const termScore = idf * ((tf * (BM25_K1 + 1)) / (tf + norm));
+        scores.set(relPath, (scores.get(relPath) || 0) + termScore);
+      }
+    }
+
+    const hits: IndexHit[] = [];
+    for (const [relPath, score] of scores) {
+      const note = notes.get(relPath)!;
+      if (options.filter && !options.filter(relPath, note)) continue;
+      hits.push({ path: relPath, note, score });
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+    return options.limit ? hits.slice(0, options.limit) : hits;
+  }
+
+  /**
+   * Find notes that recorded a commit, given its full or abbreviated hash.
+   * Returns no hits when the query doesn't look like a hash.
+   */
+  findByCommit(
+    query: string,
+    options: {
+      filter?: (relPath: string, note: IndexedNote) => boolean;
+      limit?: number;
+    } = {}
+  ): IndexHit[] {
+    const hash = query.trim().toLowerCase();
+    if (!COMMIT_HASH_PATTERN.test(hash)) {
+      return [];
+    }
+
+    const hits: IndexHit[] = [];
+    for (const [relPath, note] of this.load()) {
+      if (!note.commits.some(commit => commit.startsWith(hash))) continue;
+      if (options.filter && !options.filter(relPath, note)) continue;
+      hits.push({ path: relPath, note, score: 1 });
+    }
+
+    return options.limit ? hits.slice(0, options.limit) : hits;
+  }
+
+  private load(): Map<string, IndexedNote> {
+    if (this.notes) return this.notes;
+
+    this.notes = new Map();
+    this.postings.clear();
+    this.totalLength = 0;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.getIndexPath(), 'utf-8')) as IndexFile;
+      if (data.version === INDEX_VERSION) {
+        for (const [relPath, note] of Object.entries(data.notes)) {
+          this.addNote(relPath, note);
+        }
+      } else {
+        this.dirty = true;
+      }
+    } catch {
+      // Missing or corrupt index - start empty and let refresh() rebuild it
+      this.dirty = true;
+    }
+
+    return this.notes;
+  }
+
+  private save(): void {
+    if (!this.dirty || !this.notes) return;
+
+    const indexPath = this.getIndexPath();
+    fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+
+    // Hooks, the MCP server and the worker all save the index: merge this
+    // process's changes into the saved index under its lock, so none are lost
+    const lockPath = `${indexPath}.lock`;
+    if (!acquireLockSync(lockPath)) {
+      console.error('Failed to save search index: timed out waiting for its lock');
+      return;
+    }
+
+    try {
+      this.mergeSaved();
+      const data: IndexFile = {
+        version: INDEX_VERSION,
+        notes: Object.fromEntries(this.notes),
+      };
+      atomicWriteSync(indexPath, JSON.stringify(data));
+      this.dirty = false;
+      this.changed.clear();
+    } catch (error) {
+      console.error('Failed to save search index:', error);
+    } finally {
+      releaseLock(lockPath);
+    }
+  }
+
+  /**
+   * Take what other processes saved since this index was loaded, except for
+   * the notes this process changed itself
+   */
+  private mergeSaved(): void {
+    let saved: IndexFile;
+    try {
+      saved = JSON.parse(fs.readFileSync(this.getIndexPath(), 'utf-8')) as IndexFile;
+    } catch {
+      return;
+    }
+    if (saved.version !== INDEX_VERSION) return;
+
+    for (const [relPath, note] of Object.entries(saved.notes)) {
+      const current = this.notes!.get(relPath);
+      if (this.changed.has(relPath) || (current && current.mtimeMs === note.mtimeMs && current.size === note.size)) {
+        continue;
+      }
+      this.dropNote(relPath);
+      this.addNote(relPath, note);
+    }
+    for (const relPath of [...this.notes!.keys()]) {
+      if (!this.changed.has(relPath) && !(relPath in saved.notes)) {
+        this.dropNote(relPath);
+      }
+    }
+  }
+
+  private indexFile(relPath: string, fullPath: string, stat: fs.Stats): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(fullPath, 'utf-8');
+    } catch {
+      this.removeNote(relPath);
+      return;
+    }
+
+    let frontmatter: Record<string, unknown> = {};
+    let content = raw;
+    try {
+      const parsed = parseFrontmatter(raw);
+      frontmatter = parsed.frontmatter;
+      content = parsed.content;
+    } catch {
+      // Index malformed notes as plain text
+    }
+
+    const title = typeof frontmatter.title === 'string'
+      ? frontmatter.title
+      : path.basename(relPath, '.md');
+
+    const { terms, length } = termFrequencies(title, content);
+
+    const toStringList = (value: unknown): string[] =>
+      Array.isArray(value) ? value.map(v => String(v)) : [];
+
+    this.removeNote(relPath);
+    this.addNote(relPath, {
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      title,
+      type: typeof frontmatter.type === 'string' ? frontmatter.type : 'learning',
+      project: frontmatter.project ? String(frontmatter.project) : undefined,
+      knowledgeType: frontmatter.knowledge_type ? String(frontmatter.knowledge_type) : undefined,
+      // Unquoted YAML timestamps parse as Date objects
+      created: frontmatter.created instanceof Date
+        ? frontmatter.created.toISOString()
+        : frontmatter.created ? String(frontmatter.created) : undefined,
+      tags: toStringList(frontmatter.tags),
+      topics: toStringList(frontmatter.topics),
+      branches: [...new Set([
+        ...(frontmatter.branch ? [String(frontmatter.branch)] : []),
+        ...toStringList(frontmatter.branches),
+      ])],
+      commits: toStringList(frontmatter.commits).map(c => c.toLowerCase()),
+      length,
+      terms,
+    });
+    this.changed.add(relPath);
+    this.dirty = true;
+  }
+
+  private addNote(relPath: string, note: IndexedNote): void {
+    this.notes!.set(relPath, note);
+    this.totalLength += note.length;
+
+    for (const [term, tf] of Object.entries(note.terms)) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(relPath, tf);
+    }
+  }
+
+  private removeNote(relPath: string): void {
+    // Recorded even if this process never indexed the note, so the save drops
+    // it from what other processes indexed too
+    this.dropNote(relPath);
+    this.changed.add(relPath);
+    this.dirty = true;
+  }
+
+  private dropNote(relPath: string): void {
+    const note = this.notes?.get(relPath);
+    if (!note) return;
+
+    this.notes!.delete(relPath);
+    this.totalLength -= note.length;
+
+    for (const term of Object.keys(note.terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(relPath);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  private listNotes(): string[] {
+    const files: string[] = [];
+
+    const walk = (dir: string): void => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        // Skip the index folder and other hidden folders (.obsidian, .trash)
+        if (entry.name.startsWith('.')) continue;
+
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(fullPath);
+        } else if (entry.name.endsWith('.md')) {
+          files.push(fullPath);
+        }
+      }
+    };
+
+    walk(this.memPath);
+    return files;
+  }
+
+  private toRelative(fullPath: string): string {
+    return path.relative(this.memPath, fullPath).split(path.sep).join('/');
+  }
+}
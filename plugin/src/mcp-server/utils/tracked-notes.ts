@@ -0,0 +1,111 @@
+/**
+ * Merging notes that track one thing over time
+ *
+ * Error notes (errors/<fingerprint>.md) and file notes (files/<hash>.md) are
+ * named after what they track, so when two projects are merged a note with
+ * the same name in both describes the same error or file. Instead of keeping
+ * two copies, the notes are combined: their counts add up, their occurrence
+ * or edit history tables are joined and their first/last seen dates widen.
+ */
+
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter.js';
+
+interface TrackedNoteFields {
+  /** Frontmatter field counting occurrences or edits */
+  count: string;
+  /** Heading of the history table */
+  table: string;
+  /** Frontmatter fields holding the earliest and latest sighting */
+  first?: string;
+  last: string;
+}
+
+const TRACKED_NOTES: Record<string, TrackedNoteFields> = {
+  error: { count: 'occurrences', table: 'Occurrences', first: 'first_seen', last: 'last_seen' },
+  file: { count: 'edit_count', table: 'Edit History', last: 'last_edited' },
+};
+
+/**
+ * Whether two notes track the same kind of thing and can be merged
+ */
+export function canMergeTrackedNotes(a: string, b: string): boolean {
+  const typeA = parseFrontmatter(a).frontmatter.type;
+  return typeA in TRACKED_NOTES && parseFrontmatter(b).frontmatter.type === typeA;
+}
+
+/**
+ * Combine a tracked note into another one tracking the same error or file
+ *
+ * The target's text is kept; `resolved` only stays set if both notes are
+ * resolved, since the other copy saw the error without a fix.
+ */
+export function mergeTrackedNotes(target: string, source: string): string {
+  const into = parseFrontmatter(target);
+  const from = parseFrontmatter(source);
+  const fields = TRACKED_NOTES[into.frontmatter.type];
+  if (!fields || from.frontmatter.type !== into.frontmatter.type) {
+    throw new Error(`Cannot merge a ${from.frontmatter.type} note into a ${into.frontmatter.type} note`);
+  }
+
+  const a: Record<string, unknown> = into.frontmatter;
+  const b: Record<string, unknown> = from.frontmatter;
+  const merged: Record<string, unknown> = { ...a };
+
+  merged[fields.count] = (Number(a[fields.count]) || 1) + (Number(b[fields.count]) || 1);
+  merged.created = pickDate(a.created, b.created, Math.min);
+  if (fields.first) {
+    merged[fields.first] = pickDate(a[fields.first], b[fields.first], Math.min);
+  }
+  merged[fields.last] = pickDate(a[fields.last], b[fields.last], Math.max);
+  if (merged[fields.last] === b[fields.last] && b.last_commit) {
+    merged.last_commit = b.last_commit;
+  }
+  if ('resolved' in a || 'resolved' in b) {
+    merged.resolved = a.resolved === true && b.resolved === true;
+  }
+  for (const list of ['tags', 'sessions', 'branches']) {
+    if (Array.isArray(a[list]) || Array.isArray(b[list])) {
+      merged[list] = [...new Set([...asList(a[list]), ...asList(b[list])])];
+    }
+  }
+
+  const content = mergeHistoryTable(into.content, from.content, fields.table);
+  return stringifyFrontmatter(merged as typeof into.frontmatter, content);
+}
+
+/**
+ * Add the source's history rows to the target's table, newest first
+ */
+function mergeHistoryTable(target: string, source: string, heading: string): string {
+  const table = new RegExp(`^## ${heading}\\n\\n\\|.*\\|\\n\\|[-|\\s]+\\|\\n((?:\\|.*(?:\\n|$))*)`, 'm');
+  const targetMatch = target.match(table);
+  const sourceRows = source.match(table)?.[1];
+  if (!targetMatch || !sourceRows) return target;
+
+  const rows = [...splitRows(targetMatch[1]), ...splitRows(sourceRows)]
+    // Dates lead each row (YYYY-MM-DD); the sort is stable, so same-day rows keep their order
+    .sort((x, y) => y.slice(0, 12).localeCompare(x.slice(0, 12)));
+
+  const start = targetMatch.index! + targetMatch[0].length - targetMatch[1].length;
+  const end = targetMatch.index! + targetMatch[0].length;
+  return target.slice(0, start) + rows.join('\n') + '\n' + target.slice(end);
+}
+
+function splitRows(block: string): string[] {
+  return block.split('\n').filter(row => row.startsWith('|'));
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+/**
+ * The earlier or later of two frontmatter dates (either may be missing)
+ */
+function pickDate(a: unknown, b: unknown, pick: (x: number, y: number) => number): unknown {
+  const timeA = a ? new Date(a as string).getTime() : NaN;
+  const timeB = b ? new Date(b as string).getTime() : NaN;
+  if (Number.isNaN(timeB)) return a;
+  if (Number.isNaN(timeA)) return b;
+  return pick(timeA, timeB) === timeB && timeB !== timeA ? b : a;
+}
@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parseFrontmatter, stringifyFrontmatter, generateFrontmatter, mergeFrontmatter } from './frontmatter.js';
-import type { Note, NoteFrontmatter, WriteNoteInput, NoteType, SearchResult, ProjectContext, TechKBCategory } from '../../shared/types.js';
+import type { Note, NoteFrontmatter, WriteNoteInput, NoteType, SearchResult, SearchMode, ProjectContext, TechKBCategory, Config, TimelineEvent, TimelineNoteType } from '../../shared/types.js';
 import {
   loadConfig,
   getMemFolderPath,
@@ -15,6 +15,15 @@ import {
   resolveTechKBPath,
 } from '../../shared/config.js';
 import { PROJECTS_FOLDER, GLOBAL_FOLDER, TEMPLATES_FOLDER } from '../../shared/constants.js';
+import { SearchIndex, termFrequencies, type IndexedNote } from './search-index.js';
+import { VectorStore } from './vector-store.js';
+import { createEmbedder } from './embeddings.js';
+import { scoreRelevance, type NoteSignals, type RankingContext } from './context-ranking.js';
+import { knowledgeSimilarity, normalizeTopic } from './knowledge-similarity.js';
+import { redactText } from '../../shared/redaction.js';
+import { ProjectAliases, rewriteProjectReferences } from './project-aliases.js';
+import { canMergeTrackedNotes, mergeTrackedNotes } from './tracked-notes.js';
+import { atomicWriteSync, withFileLock } from '../../shared/file-lock.js';
 
 /**
  * Input for writing a TechKB note
@@ -36,14 +45,69 @@ export interface WriteTechKBNoteInput {
   append?: boolean;
 }
 
+/**
+ * Outcome of merging one project into another
+ */
+export interface ProjectMergeResult {
+  source: string;
+  target: string;
+  /** Notes moved, relative to the memory folder (at their new location) */
+  moved: string[];
+  /** Moved notes that were renamed because the target already had a note with that name */
+  renamed: string[];
+  /** Error and file notes combined into the target's note for the same error or file */
+  merged: string[];
+  /** Notes outside the merged folder whose links to it were rewritten */
+  relinked: string[];
+}
+
+/**
+ * Outcome of writing a knowledge note
+ */
+export interface KnowledgeWriteResult {
+  /** Note holding the knowledge, relative to the memory folder */
+  path: string;
+  created: boolean;
+  /**
+   * created: written as a new note; appended: a similar note recorded another
+   * occurrence; merged: new key points were added to a similar note;
+   * superseded: a new note replaced the similar one
+   */
+  action: 'created' | 'appended' | 'merged' | 'superseded';
+  /** The similar existing note and its similarity (0-1) */
+  similarTo?: { path: string; score: number };
+}
+
+// Cosine similarity below which semantic matches are treated as noise
+const MIN_SEMANTIC_SCORE = 0.05;
+
+// Newest session notes considered when ranking project context
+const MAX_RANKED_SESSIONS = 50;
+
+/**
+ * Branch filter for searches: keeps notes recorded on the branch and notes
+ * without branch information (written before branches were tracked, or by hand)
+ */
+function matchesBranch(note: IndexedNote, branch?: string): boolean {
+  return !branch || note.branches.length === 0 || note.branches.includes(branch);
+}
+
 export class VaultManager {
   private vaultPath: string;
   private memFolder: string;
+  private searchConfig: Config['search'];
+  private redactionConfig: Config['redaction'];
+  private knowledgeConfig: Config['knowledge'];
+  private searchIndex: SearchIndex | null = null;
+  private vectorStore: VectorStore | null = null;
 
   constructor(vaultPath?: string, memFolder?: string) {
     const config = loadConfig();
     this.vaultPath = vaultPath || config.vault.path;
     this.memFolder = memFolder || config.vault.memFolder;
+    this.searchConfig = config.search;
+    this.redactionConfig = config.redaction;
+    this.knowledgeConfig = config.knowledge;
   }
 
   /**
@@ -76,17 +140,215 @@ export class VaultManager {
     }
   }
 
+  /**
+   * Register a monorepo package as a sub-project: creates its folder
+   * structure and records `parent_project` in its project index
+   */
+  async ensureSubProject(parentName: string, subProjectName: string): Promise<void> {
+    parentName = this.resolveProjectName(parentName);
+    subProjectName = this.resolveProjectName(subProjectName);
+    const projectPath = await this.ensureProjectStructure(subProjectName);
+    const indexPath = path.join(projectPath, `${sanitizeProjectName(subProjectName)}.md`);
+    const parentSlug = sanitizeProjectName(parentName);
+    await withFileLock(indexPath, () => {
+      const { frontmatter, content } = parseFrontmatter(fs.readFileSync(indexPath, 'utf-8'));
+      if (frontmatter.parent_project === parentName) return;
+
+      atomicWriteSync(indexPath, stringifyFrontmatter({
+        ...frontmatter,
+        parent_project: parentName,
+        parent: `[[${this.memFolder}/${PROJECTS_FOLDER}/${parentSlug}/${parentSlug}]]`,
+      }, content));
+    });
+  }
+
+  /**
+   * Names of the sub-projects registered under a project
+   */
+  getSubProjects(projectName: string): string[] {
+    projectName = this.resolveProjectName(projectName);
+    const projectsDir = path.join(this.getMemPath(), PROJECTS_FOLDER);
+    if (!fs.existsSync(projectsDir)) {
+      return [];
+    }
+
+    const children: string[] = [];
+    for (const entry of fs.readdirSync(projectsDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      try {
+        const indexPath = path.join(projectsDir, entry.name, `${entry.name}.md`);
+        const { frontmatter } = parseFrontmatter(fs.readFileSync(indexPath, 'utf-8'));
+        if (frontmatter.parent_project === projectName) {
+          children.push(frontmatter.project || entry.name);
+        }
+      } catch {
+        // No project index
+      }
+    }
+
+    return children;
+  }
+
+  /**
+   * The canonical project for a name, following aliases left by merges
+   */
+  resolveProjectName(projectName: string): string {
+    return new ProjectAliases(this.getMemPath()).resolve(projectName);
+  }
+
+  /**
+   * Make future sessions of `alias` resolve to `projectName`
+   */
+  addProjectAlias(alias: string, projectName: string): void {
+    new ProjectAliases(this.getMemPath()).add(alias, this.resolveProjectName(projectName));
+  }
+
+  /**
+   * Registered aliases, keyed by (sanitized) alias
+   */
+  listProjectAliases(): Record<string, string> {
+    return new ProjectAliases(this.getMemPath()).list();
+  }
+
+  /**
+   * Move all notes of `source` into `target`, rewrite their project
+   * frontmatter, tags and links, and record `source` as an alias of `target`
+   */
+  async mergeProject(source: string, target: string, options: { dryRun?: boolean } = {}): Promise<ProjectMergeResult> {
+    target = this.resolveProjectName(target);
+    const projectsDir = path.join(this.getMemPath(), PROJECTS_FOLDER);
+    const sourceSlug = sanitizeProjectName(source);
+    const targetSlug = sanitizeProjectName(target);
+    const sourcePath = path.join(projectsDir, sourceSlug);
+    const targetPath = path.join(projectsDir, targetSlug);
+
+    if (sourceSlug === targetSlug) {
+      throw new Error(`Cannot merge a project into itself: ${source}`);
+    }
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error(`Project not found: ${source}`);
+    }
+
+    const result: ProjectMergeResult = { source, target, moved: [], renamed: [], merged: [], relinked: [] };
+    if (!options.dryRun) {
+      await this.ensureProjectStructure(target);
+    }
+
+    // The source's project and category indexes are replaced by the target's
+    const isIndexNote = (relPath: string) => {
+      const parts = relPath.split(path.sep);
+      return (parts.length === 1 && parts[0] === `${sourceSlug}.md`) ||
+        (parts.length === 2 && parts[1] === `${parts[0]}.md`);
+    };
+
+    // Every file moves, not just notes (attachments, canvases); a file whose
+    // name is taken in the target is renamed, and links to it follow. Error
+    // and file notes are named after what they track, so those are merged
+    const moves: Array<{ from: string; to: string }> = [];
+    const merges: Array<{ from: string; to: string }> = [];
+    const discarded: string[] = [];
+    const claimed = new Set<string>();
+    const renamedLinks: Record<string, string> = {};
+    const linkPath = (relPath: string) => relPath.split(path.sep).join('/').replace(/\.md$/, '');
+
+    for (const file of this.walkDir(sourcePath, '')) {
+      const relPath = path.relative(sourcePath, file);
+      if (relPath.endsWith('.md') && isIndexNote(relPath)) {
+        discarded.push(file);
+        continue;
+      }
+
+      let destination = path.join(targetPath, relPath);
+      if (relPath.endsWith('.md') && fs.existsSync(destination) &&
+        canMergeTrackedNotes(fs.readFileSync(destination, 'utf-8'), fs.readFileSync(file, 'utf-8'))) {
+        merges.push({ from: file, to: destination });
+        result.merged.push(path.relative(this.getMemPath(), destination));
+        continue;
+      }
+      if (fs.existsSync(destination) || claimed.has(destination)) {
+        const ext = path.extname(destination);
+        const base = ext ? destination.slice(0, -ext.length) : destination;
+        let counter = 1;
+        destination = `${base}-${sourceSlug}${ext}`;
+        while (fs.existsSync(destination) || claimed.has(destination)) {
+          destination = `${base}-${sourceSlug}-${++counter}${ext}`;
+        }
+        renamedLinks[linkPath(relPath)] = linkPath(path.relative(targetPath, destination));
+        result.renamed.push(path.relative(this.getMemPath(), destination));
+      }
+      claimed.add(destination);
+      moves.push({ from: file, to: destination });
+      result.moved.push(path.relative(this.getMemPath(), destination));
+    }
+
+    const rewrite = (content: string) => rewriteProjectReferences(content, source, target, renamedLinks);
+
+    // Copy everything before deleting anything, so a failure leaves the source intact
+    const writtenPaths: string[] = [];
+    if (!options.dryRun) {
+      for (const { from, to } of moves) {
+        fs.mkdirSync(path.dirname(to), { recursive: true });
+        if (from.endsWith('.md')) {
+          await withFileLock(from, () => {
+            atomicWriteSync(to, rewrite(fs.readFileSync(from, 'utf-8')));
+          });
+          writtenPaths.push(to);
+        } else {
+          fs.copyFileSync(from, to, fs.constants.COPYFILE_EXCL);
+        }
+      }
+      for (const { from, to } of merges) {
+        await withFileLock(from, () => withFileLock(to, () => {
+          atomicWriteSync(to, mergeTrackedNotes(fs.readFileSync(to, 'utf-8'), rewrite(fs.readFileSync(from, 'utf-8'))));
+        }));
+        writtenPaths.push(to);
+      }
+    }
+
+    // Notes elsewhere that link into the source (sub-projects, global notes)
+    for (const file of this.walkDir(this.getMemPath(), '.md')) {
+      if (file.startsWith(sourcePath + path.sep) || writtenPaths.includes(file)) continue;
+      const content = fs.readFileSync(file, 'utf-8');
+      if (rewrite(content) === content) continue;
+
+      result.relinked.push(path.relative(this.getMemPath(), file));
+      if (!options.dryRun) {
+        await withFileLock(file, () => {
+          atomicWriteSync(file, rewrite(fs.readFileSync(file, 'utf-8')));
+        });
+        writtenPaths.push(file);
+      }
+    }
+
+    if (!options.dryRun) {
+      for (const file of [...moves.map(move => move.from), ...merges.map(merge => merge.from), ...discarded]) {
+        fs.unlinkSync(file);
+        writtenPaths.push(file);
+      }
+      // Deepest folders first; rmdir refuses (and the merge fails) if anything was left behind
+      for (const dir of this.listDirs(sourcePath).sort((a, b) => b.length - a.length)) {
+        fs.rmdirSync(dir);
+      }
+      this.addProjectAlias(source, target);
+      this.indexNotes(writtenPaths);
+    }
+
+    return result;
+  }
+
   /**
    * Ensure a project folder structure exists
    */
   async ensureProjectStructure(projectName: string): Promise<string> {
+    // A merged project's old name must not bring its folder back
+    projectName = this.resolveProjectName(projectName);
     const projectPath = path.join(
       this.getMemPath(),
       PROJECTS_FOLDER,
       sanitizeProjectName(projectName)
     );
 
-    const categories = ['sessions', 'errors', 'decisions', 'files', 'knowledge', 'research'];
+    const categories = ['sessions', 'errors', 'decisions', 'files', 'tests', 'knowledge', 'research'];
     const dirs = [
       projectPath,
       ...categories.map(cat => path.join(projectPath, cat)),
@@ -162,6 +424,11 @@ export class VaultManager {
         type: 'file',
         description: 'File-specific knowledge and edit history',
       },
+      tests: {
+        title: 'Tests',
+        type: 'test',
+        description: 'Failing tests and their pass/fail history',
+      },
       knowledge: {
         title: 'Knowledge',
         type: 'learning',
@@ -213,7 +480,7 @@ SORT created DESC
 \`\`\`
 `;
 
-    fs.writeFileSync(indexPath, frontmatter + content);
+    atomicWriteSync(indexPath, frontmatter + content);
   }
 
   /**
@@ -224,7 +491,7 @@ SORT created DESC
     const relativePath = path.relative(this.getMemPath(), projectPath);
 
     // Category links (e.g., decisions/decisions.md)
-    const categories = ['knowledge', 'research', 'decisions', 'sessions', 'errors', 'files'];
+    const categories = ['knowledge', 'research', 'decisions', 'sessions', 'errors', 'files', 'tests'];
     const categoryLinks = categories
       .map(cat => `- [[${this.memFolder}/${relativePath}/${cat}/${cat}|${cat.charAt(0).toUpperCase() + cat.slice(1)}]]`)
       .join('\n');
@@ -293,7 +560,7 @@ LIMIT 10
       tags: ['index', 'project-root', `project/${sanitizedName}`],
     });
 
-    fs.writeFileSync(
+    atomicWriteSync(
       path.join(projectPath, `${sanitizedName}.md`),
       stringifyFrontmatter(frontmatter, content)
     );
@@ -331,6 +598,12 @@ LIMIT 10
   async writeNote(input: WriteNoteInput): Promise<{ path: string; created: boolean }> {
     await this.ensureStructure();
 
+    // Secrets never reach the vault
+    input = this.redactNoteInput(input);
+    if (input.project) {
+      input = { ...input, project: this.resolveProjectName(input.project) };
+    }
+
     const notePath = input.path || this.generateNotePath(input);
     const fullPath = this.resolvePath(notePath);
 
@@ -340,74 +613,100 @@ LIMIT 10
       fs.mkdirSync(dir, { recursive: true });
     }
 
-    const exists = fs.existsSync(fullPath);
-
-    if (exists && input.append) {
-      // Append to existing note
-      const existing = await this.readNote(notePath);
-      const newContent = existing.content + '\n\n' + input.content;
-      const updatedFrontmatter = mergeFrontmatter(existing.frontmatter, {
-        tags: input.tags,
-        ...input.metadata,
-        // Apply status if provided (can update status on existing notes)
-        ...(input.status && { status: input.status }),
-      } as Partial<NoteFrontmatter>);
-      updatedFrontmatter.updated = new Date().toISOString();
-
-      fs.writeFileSync(fullPath, stringifyFrontmatter(updatedFrontmatter, newContent));
-    } else if (exists && input.preserveFrontmatter) {
-      // Overwrite content but preserve existing frontmatter fields
-      const existing = await this.readNote(notePath);
-
-      // Generate new frontmatter, then merge with existing (existing takes precedence for created, user tags)
-      const newFrontmatter = generateFrontmatter(input.type, {
-        title: input.title,
-        project: input.project,
-        tags: input.tags,
-        additional: input.metadata,
-      });
+    // Lock the note so concurrent hooks and tools don't lose each other's changes
+    const created = await withFileLock(fullPath, async () => {
+      const exists = fs.existsSync(fullPath);
 
-      // Merge: keep existing created, combine tags, preserve custom fields
-      const mergedFrontmatter = {
-        ...newFrontmatter,
-        ...existing.frontmatter,
-        // Combine tags from both, removing duplicates
-        tags: [...new Set([...(existing.frontmatter.tags || []), ...(input.tags || [])])],
-        // Keep original created timestamp
-        created: existing.frontmatter.created,
-        // Update title and project if provided
-        title: input.title || existing.frontmatter.title,
-        project: input.project || existing.frontmatter.project,
-        // Apply status if provided (can update status on existing notes)
-        ...(input.status && { status: input.status }),
-        updated: new Date().toISOString(),
-      };
-
-      fs.writeFileSync(fullPath, stringifyFrontmatter(mergedFrontmatter, input.content));
-    } else {
-      // Generate parent link for hierarchical navigation
-      const parentLink = this.generateParentLink(notePath, input.project);
-
-      // Create or overwrite
-      const frontmatter = generateFrontmatter(input.type, {
-        title: input.title,
-        project: input.project,
-        tags: input.tags,
-        additional: {
+      if (exists && input.append) {
+        // Append to existing note
+        const existing = await this.readNote(notePath);
+        const newContent = existing.content + '\n\n' + input.content;
+        const updatedFrontmatter = mergeFrontmatter(existing.frontmatter, {
+          tags: input.tags,
           ...input.metadata,
-          // Add parent link for hierarchical navigation
-          ...(parentLink && { parent: parentLink }),
-          // Add linking fields if provided
+          // Apply status if provided (can update status on existing notes)
           ...(input.status && { status: input.status }),
-          ...(input.superseded_by && { superseded_by: input.superseded_by }),
-          ...(input.supersedes && input.supersedes.length > 0 && { supersedes: input.supersedes }),
-        },
-      });
+        } as Partial<NoteFrontmatter>);
+        updatedFrontmatter.updated = new Date().toISOString();
+
+        atomicWriteSync(fullPath, stringifyFrontmatter(updatedFrontmatter, newContent));
+      } else if (exists && input.preserveFrontmatter) {
+        // Overwrite content but preserve existing frontmatter fields
+        const existing = await this.readNote(notePath);
+
+        // Generate new frontmatter, then merge with existing (existing takes precedence for created, user tags)
+        const newFrontmatter = generateFrontmatter(input.type, {
+          title: input.title,
+          project: input.project,
+          tags: input.tags,
+          additional: input.metadata,
+        });
 
-      fs.writeFileSync(fullPath, stringifyFrontmatter(frontmatter, input.content));
-    }
+        // Merge: keep existing created, combine tags, preserve custom fields
+        const mergedFrontmatter = {
+          ...newFrontmatter,
+          ...existing.frontmatter,
+          // Combine tags from both, removing duplicates
+          tags: [...new Set([...(existing.frontmatter.tags || []), ...(input.tags || [])])],
+          // Keep original created timestamp
+          created: existing.frontmatter.created,
+          // Update title and project if provided
+          title: input.title || existing.frontmatter.title,
+          project: input.project || existing.frontmatter.project,
+          // Apply status if provided (can update status on existing notes)
+          ...(input.status && { status: input.status }),
+          updated: new Date().toISOString(),
+        };
 
-    return { path: notePath, created: !exists };
+        atomicWriteSync(fullPath, stringifyFrontmatter(mergedFrontmatter, input.content));
+      } else {
+        // Generate parent link for hierarchical navigation
+        const parentLink = this.generateParentLink(notePath, input.project);
+
+        // Create or overwrite
+        const frontmatter = generateFrontmatter(input.type, {
+          title: input.title,
+          project: input.project,
+          tags: input.tags,
+          additional: {
+            ...input.metadata,
+            // Add parent link for hierarchical navigation
+            ...(parentLink && { parent: parentLink }),
+            // Add linking fields if provided
+            ...(input.status && { status: input.status }),
+            ...(input.superseded_by && { superseded_by: input.superseded_by }),
+            ...(input.supersedes && input.supersedes.length > 0 && { supersedes: input.supersedes }),
+          },
+        });
+
+        atomicWriteSync(fullPath, stringifyFrontmatter(frontmatter, input.content));
+      }
+
+      return !exists;
+    });
+
+    this.indexNotes([fullPath]);
+
+    return { path: notePath, created };
+  }
+
+  /**
+   * Redact secrets from a note's title and content, recording the redacted
+   * types in its `redacted` frontmatter
+   */
+  private redactNoteInput<T extends { title: string; content: string; metadata?: Record<string, unknown> }>(input: T): T {
+    const title = redactText(input.title, this.redactionConfig);
+    const content = redactText(input.content, this.redactionConfig);
+    const redacted = [...new Set([...title.redacted, ...content.redacted])];
+    if (redacted.length === 0) {
+      return input;
+    }
+    return {
+      ...input,
+      title: title.text,
+      content: content.text,
+      metadata: { ...input.metadata, redacted },
+    };
   }
 
   /**
@@ -475,7 +774,7 @@ LIMIT 10
     let newResult: { path: string; created: boolean };
     if (oldNotePath.includes('/research/') || oldFrontmatter?.knowledge_type === 'research') {
       // Manually construct path to keep in research folder
-      const project = newNoteWithLink.project;
+      const project = newNoteWithLink.project && this.resolveProjectName(newNoteWithLink.project);
       if (project) {
         const date = new Date().toISOString().split('T')[0];
         const slug = this.slugify(newNoteWithLink.title, 'research');
@@ -493,26 +792,109 @@ LIMIT 10
     // Then, update the old note to mark it as superseded
     // (fullOldPath already resolved above)
     if (fs.existsSync(fullOldPath)) {
-      const raw = fs.readFileSync(fullOldPath, 'utf-8');
-      const { frontmatter, content } = parseFrontmatter(raw);
+      await withFileLock(fullOldPath, () => {
+        const raw = fs.readFileSync(fullOldPath, 'utf-8');
+        const { frontmatter, content } = parseFrontmatter(raw);
 
-      // Update frontmatter
-      frontmatter.status = 'superseded';
-      frontmatter.superseded_by = newWikiLink;
+        // Update frontmatter
+        frontmatter.status = 'superseded';
+        frontmatter.superseded_by = newWikiLink;
 
-      // Add superseded notice to content if not already present
-      let updatedContent = content;
-      if (!content.includes('> [!warning] Superseded')) {
-        const notice = `> [!warning] Superseded\n> This note has been superseded by ${newWikiLink}\n\n`;
-        updatedContent = notice + content;
-      }
+        // Add superseded notice to content if not already present
+        let updatedContent = content;
+        if (!content.includes('> [!warning] Superseded')) {
+          const notice = `> [!warning] Superseded\n> This note has been superseded by ${newWikiLink}\n\n`;
+          updatedContent = notice + content;
+        }
 
-      fs.writeFileSync(fullOldPath, stringifyFrontmatter(frontmatter, updatedContent));
+        atomicWriteSync(fullOldPath, stringifyFrontmatter(frontmatter, updatedContent));
+      });
+      this.indexNotes([fullOldPath]);
     }
 
     return { oldPath: oldNotePath, newPath: newResult.path };
   }
 
+  /**
+   * Mark an error note as resolved and record how it was fixed
+   * Auto-detected resolutions never overwrite an existing resolution
+   * @throws Error if the note doesn't exist or isn't an error note
+   */
+  async resolveError(
+    notePath: string,
+    details: {
+      resolution: string;
+      sessionId?: string;
+      fixSummary?: string;
+      method?: 'manual' | 'auto';
+    }
+  ): Promise<{ path: string; alreadyResolved: boolean }> {
+    const fullPath = this.resolvePath(notePath);
+    return withFileLock(fullPath, () => {
+      if (!fs.existsSync(fullPath)) {
+        throw new Error(`Cannot resolve: note not found at "${notePath}"`);
+      }
+
+      const { frontmatter, content } = parseFrontmatter(fs.readFileSync(fullPath, 'utf-8'));
+      if (frontmatter.type !== 'error') {
+        throw new Error(`Cannot resolve: "${notePath}" is not an error note`);
+      }
+
+      const method = details.method || 'manual';
+      const alreadyResolved = frontmatter.resolved === true;
+      if (alreadyResolved && method === 'auto') {
+        return { path: notePath, alreadyResolved };
+      }
+
+      const resolution = redactText(details.resolution, this.redactionConfig);
+      const fixSummary = redactText(details.fixSummary || '', this.redactionConfig);
+      const redacted = [...new Set([...resolution.redacted, ...fixSummary.redacted])];
+      if (redacted.length > 0) {
+        frontmatter.redacted = [...new Set([...((frontmatter.redacted as string[]) || []), ...redacted])];
+      }
+      details = { ...details, resolution: resolution.text, fixSummary: fixSummary.text || undefined };
+
+      const resolvedAt = new Date().toISOString();
+      frontmatter.resolved = true;
+      frontmatter.resolved_at = resolvedAt;
+      frontmatter.resolution_method = method;
+      frontmatter.resolved_by_session = details.sessionId;
+
+      const resolvedLine = [
+        `**Resolved**: ${resolvedAt.split('T')[0]}`,
+        details.sessionId ? ` in session ${details.sessionId.substring(0, 8)}` : '',
+        method === 'auto' ? ' (auto-detected)' : '',
+      ].join('');
+      const section = [
+        '## Resolution',
+        '',
+        '> [!success] Solution',
+        ...details.resolution.trim().split('\n').map(line => `> ${line}`),
+        '',
+        resolvedLine,
+        ...(details.fixSummary ? ['', '### Fix', '', details.fixSummary.trim()] : []),
+        '',
+      ].join('\n');
+
+      // Replace the existing Resolution section, or add one before Occurrences
+      let updatedContent: string;
+      const sectionMatch = content.match(/^## Resolution\n[\s\S]*?(?=^## |(?![\s\S]))/m);
+      if (sectionMatch && sectionMatch.index !== undefined) {
+        updatedContent = content.substring(0, sectionMatch.index) + section + '\n' +
+          content.substring(sectionMatch.index + sectionMatch[0].length);
+      } else if (content.includes('## Occurrences')) {
+        updatedContent = content.replace('## Occurrences', `${section}\n## Occurrences`);
+      } else {
+        updatedContent = `${content.trimEnd()}\n\n${section}`;
+      }
+
+      atomicWriteSync(fullPath, stringifyFrontmatter(frontmatter, updatedContent));
+      this.indexNotes([fullPath]);
+
+      return { path: notePath, alreadyResolved };
+    });
+  }
+
   /**
    * Convert a note path to an Obsidian wikilink
    */
@@ -558,6 +940,8 @@ LIMIT 10
 
   /**
    * Write a knowledge note to the vault
+   * A note similar to one already in the project (see knowledge.dedup config)
+   * is folded into it, or supersedes it, instead of being written alongside
    */
   async writeKnowledge(
     knowledge: {
@@ -571,7 +955,8 @@ LIMIT 10
       sourceSession?: string;
     },
     projectName: string
-  ): Promise<{ path: string; created: boolean }> {
+  ): Promise<KnowledgeWriteResult> {
+    projectName = this.resolveProjectName(projectName);
     await this.ensureProjectStructure(projectName);
 
     const date = new Date().toISOString().split('T')[0];
@@ -582,7 +967,8 @@ LIMIT 10
       ? 'research'
       : 'knowledge';
 
-    const notePath = `${PROJECTS_FOLDER}/${sanitizeProjectName(projectName)}/${folder}/${date}_${slug}.md`;
+    const folderPath = `${PROJECTS_FOLDER}/${sanitizeProjectName(projectName)}/${folder}/`;
+    const notePath = `${folderPath}${date}_${slug}.md`;
 
     // Build content
     const keyPointsSection = knowledge.keyPoints.length > 0
@@ -607,10 +993,10 @@ ${keyPointsSection}${sourceSection}
     const tags = [
       'knowledge',
       `knowledge/${knowledge.type}`,
-      ...knowledge.topics.map(t => `topic/${t.toLowerCase().replace(/\s+/g, '-')}`),
+      ...knowledge.topics.map(t => `topic/${normalizeTopic(t)}`),
     ];
 
-    return this.writeNote({
+    const input: WriteNoteInput = {
       type: 'learning', // Use learning as the base note type
       title: knowledge.title,
       content: noteContent,
@@ -623,7 +1009,170 @@ ${keyPointsSection}${sourceSection}
         source_url: knowledge.sourceUrl,
         source_session: knowledge.sourceSession,
       },
+    };
+
+    const dedup = this.knowledgeConfig.dedup;
+    const similar = dedup.enabled
+      ? this.findSimilarKnowledge(folderPath, knowledge.title, noteContent, knowledge.topics)
+      : null;
+
+    if (!similar) {
+      return { ...await this.writeNote(input), action: 'created' };
+    }
+
+    // A changed decision replaces the old one rather than piling up next to it
+    if (
+      similar.score < dedup.duplicateThreshold &&
+      dedup.supersedeTypes.includes(knowledge.type) &&
+      similar.path !== notePath
+    ) {
+      const { newPath } = await this.supersedeNote(similar.path, input);
+      return { path: newPath, created: true, action: 'superseded', similarTo: similar };
+    }
+
+    const keyPoints = similar.score < dedup.duplicateThreshold ? knowledge.keyPoints : [];
+    const merged = await this.addKnowledgeOccurrence(similar.path, knowledge, keyPoints);
+    return {
+      path: similar.path,
+      created: false,
+      action: merged > 0 ? 'merged' : 'appended',
+      similarTo: similar,
+    };
+  }
+
+  /**
+   * Find the knowledge note in a folder most similar to a new one
+   * @returns The closest note that isn't superseded, or null if none reaches knowledge.dedup.mergeThreshold
+   */
+  private findSimilarKnowledge(
+    folderPath: string,
+    title: string,
+    content: string,
+    topics: string[]
+  ): { path: string; score: number } | null {
+    const index = this.getSearchIndex();
+    index.refresh();
+
+    const signals = { title, topics, terms: termFrequencies(title, content).terms };
+    const candidates: Array<{ path: string; score: number }> = [];
+    for (const { path: relPath } of index.entries()) {
+      const note = index.getNote(relPath);
+      // Category indexes have no knowledge type
+      if (!relPath.startsWith(folderPath) || !note?.knowledgeType) continue;
+
+      const score = knowledgeSimilarity(signals, note);
+      if (score >= this.knowledgeConfig.dedup.mergeThreshold) {
+        candidates.push({ path: relPath, score });
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+    for (const candidate of candidates) {
+      try {
+        const { frontmatter } = parseFrontmatter(fs.readFileSync(this.resolvePath(candidate.path), 'utf-8'));
+        if (frontmatter.status !== 'superseded') {
+          return candidate;
+        }
+      } catch {
+        // Note vanished since the index was refreshed
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record another occurrence of a knowledge note, adding the key points and
+   * topics it doesn't have yet
+   * @returns Number of key points added
+   */
+  private async addKnowledgeOccurrence(
+    notePath: string,
+    occurrence: { topics: string[]; sourceSession?: string },
+    keyPoints: string[]
+  ): Promise<number> {
+    const { sourceSession } = occurrence;
+    const fullPath = this.resolvePath(notePath);
+
+    const added = await withFileLock(fullPath, () => {
+      const { frontmatter, content } = parseFrontmatter(fs.readFileSync(fullPath, 'utf-8'));
+      const now = new Date().toISOString();
+      let updated = content;
+
+      // Key points already listed (in any wording case) are not repeated
+      const known = new Set([...content.matchAll(/^- (.+)$/gm)].map(m => m[1].trim().toLowerCase()));
+      const redacted = new Set<string>();
+      const newPoints: string[] = [];
+      for (const point of keyPoints) {
+        const result = redactText(point.trim(), this.redactionConfig);
+        const key = result.text.toLowerCase();
+        if (!key || known.has(key)) continue;
+        known.add(key);
+        newPoints.push(result.text);
+        result.redacted.forEach(type => redacted.add(type));
+      }
+
+      if (newPoints.length > 0) {
+        const bullets = newPoints.map(p => `- ${p}`).join('\n');
+        const listMatch = updated.match(/\*\*Key Points\*\*:\n(?:- .*\n?)*/);
+        if (listMatch && listMatch.index !== undefined) {
+          const end = listMatch.index + listMatch[0].length;
+          updated = `${updated.substring(0, end).trimEnd()}\n${bullets}\n${updated.substring(end)}`;
+        } else if (updated.includes('\n**Source**:')) {
+          updated = updated.replace('\n**Source**:', `\n**Key Points**:\n${bullets}\n\n**Source**:`);
+        } else {
+          updated = `${updated.trimEnd()}\n\n**Key Points**:\n${bullets}\n`;
+        }
+      }
+      if (redacted.size > 0) {
+        frontmatter.redacted = [...new Set([...((frontmatter.redacted as string[]) || []), ...redacted])];
+      }
+
+      // A session already recorded on the note (e.g. a retried summarization) isn't a new occurrence
+      const session = sourceSession ? sourceSession.substring(0, 8) : undefined;
+      const seenInSession = !!session && (
+        String(frontmatter.source_session || '').startsWith(session) || content.includes(`| ${session} |`)
+      );
+
+      if (!seenInSession) {
+        // Occurrences table, started with the note's own first occurrence
+        if (!updated.includes('## Occurrences')) {
+          // Unquoted YAML timestamps parse as Date objects
+          const createdValue: unknown = frontmatter.created;
+          const created = createdValue instanceof Date ? createdValue.toISOString() : String(createdValue || now);
+          const firstSession = frontmatter.source_session ? String(frontmatter.source_session).substring(0, 8) : '-';
+          updated = `${updated.trimEnd()}\n\n## Occurrences\n\n| Date | Session | Note |\n|------|---------|------|\n` +
+            `| ${created.split('T')[0]} | ${firstSession} | First occurrence |\n`;
+        }
+        const row = `| ${now.split('T')[0]} | ${session || '-'} | ` +
+          `${newPoints.length > 0 ? `Merged ${newPoints.length} key points` : 'Seen again'} |`;
+        const tableMatch = updated.match(/## Occurrences\n\n(?:\|.*\n?)*/)!;
+        const tableEnd = tableMatch.index! + tableMatch[0].length;
+        updated = `${updated.substring(0, tableEnd).trimEnd()}\n${row}\n${updated.substring(tableEnd)}`;
+      }
+
+      const topics = (frontmatter.topics as string[]) || [];
+      const knownTopics = new Set(topics.map(normalizeTopic));
+      const newTopics = occurrence.topics.filter(t => !knownTopics.has(normalizeTopic(t)));
+      if (newTopics.length > 0) {
+        frontmatter.topics = [...topics, ...newTopics];
+        frontmatter.tags = [...new Set([...(frontmatter.tags || []), ...newTopics.map(t => `topic/${normalizeTopic(t)}`)])];
+      }
+
+      if (seenInSession && newPoints.length === 0 && newTopics.length === 0) {
+        return 0;
+      }
+      if (!seenInSession) {
+        frontmatter.occurrences = (Number(frontmatter.occurrences) || 1) + 1;
+        frontmatter.last_seen = now;
+      }
+      frontmatter.updated = now;
+
+      atomicWriteSync(fullPath, stringifyFrontmatter(frontmatter, updated));
+      return newPoints.length;
     });
+
+    this.indexNotes([fullPath]);
+    return added;
   }
 
   /**
@@ -670,41 +1219,44 @@ ${keyPointsSection}${sourceSection}
     if (!fs.existsSync(fullPath)) return;
 
     try {
-      let raw = fs.readFileSync(fullPath, 'utf-8');
-
-      // Build knowledge links using full paths from vault root
-      const links = knowledgePaths
-        .map(p => {
-          const linkPath = p.replace(/\.md$/, '');
-          return `- [[${this.memFolder}/${linkPath}]]`;
-        })
-        .join('\n');
-
-      // Check if Knowledge section already exists
-      if (raw.includes('## Knowledge Captured')) {
-        // Find the section and append to it (before next ## or end of file)
-        const sectionStart = raw.indexOf('## Knowledge Captured');
-        const afterSection = raw.substring(sectionStart);
-        const nextSectionMatch = afterSection.match(/\n## [^#]/);
-
-        if (nextSectionMatch && nextSectionMatch.index !== undefined) {
-          // Insert before next section, ensuring newline separation
-          const insertPos = sectionStart + nextSectionMatch.index;
-          // Add newline before links to ensure separation from existing content
-          raw = raw.substring(0, insertPos) + '\n' + links + raw.substring(insertPos);
+      await withFileLock(fullPath, () => {
+        let raw = fs.readFileSync(fullPath, 'utf-8');
+
+        // Build knowledge links using full paths from vault root
+        const links = knowledgePaths
+          .map(p => {
+            const linkPath = p.replace(/\.md$/, '');
+            return `- [[${this.memFolder}/${linkPath}]]`;
+          })
+          .join('\n');
+
+        // Check if Knowledge section already exists
+        if (raw.includes('## Knowledge Captured')) {
+          // Find the section and append to it (before next ## or end of file)
+          const sectionStart = raw.indexOf('## Knowledge Captured');
+          const afterSection = raw.substring(sectionStart);
+          const nextSectionMatch = afterSection.match(/\n## [^#]/);
+
+          if (nextSectionMatch && nextSectionMatch.index !== undefined) {
+            // Insert before next section, ensuring newline separation
+            const insertPos = sectionStart + nextSectionMatch.index;
+            // Add newline before links to ensure separation from existing content
+            raw = raw.substring(0, insertPos) + '\n' + links + raw.substring(insertPos);
+          } else {
+            // Append to end of file with proper newline
+            raw = raw.trimEnd() + '\n' + links + '\n';
+          }
+          atomicWriteSync(fullPath, raw);
         } else {
-          // Append to end of file with proper newline
-          raw = raw.trimEnd() + '\n' + links + '\n';
+          // Create new section
+          const knowledgeSection = `\n## Knowledge Captured\n\n${links}\n`;
+          atomicWriteSync(fullPath, raw + knowledgeSection);
         }
-        fs.writeFileSync(fullPath, raw);
-      } else {
-        // Create new section
-        const knowledgeSection = `\n## Knowledge Captured\n\n${links}\n`;
-        fs.appendFileSync(fullPath, knowledgeSection);
-      }
 
-      // Update knowledge_captured count in frontmatter
-      this.updateKnowledgeCount(fullPath, knowledgePaths.length);
+        // Update knowledge_captured count in frontmatter
+        this.updateKnowledgeCount(fullPath, knowledgePaths.length);
+      });
+      this.indexNotes([fullPath]);
     } catch (error) {
       console.error(`Failed to link session to knowledge: ${sessionPath}`, error);
     }
@@ -722,7 +1274,7 @@ ${keyPointsSection}${sourceSection}
       frontmatter.knowledge_captured = currentCount + addCount;
       frontmatter.updated = new Date().toISOString();
 
-      fs.writeFileSync(fullPath, stringifyFrontmatter(frontmatter, content));
+      atomicWriteSync(fullPath, stringifyFrontmatter(frontmatter, content));
     } catch {
       // Ignore errors - count update is best-effort
     }
@@ -737,189 +1289,226 @@ ${keyPointsSection}${sourceSection}
       project?: string;
       knowledgeType?: 'qa' | 'explanation' | 'decision' | 'research' | 'learning';
       topics?: string[];
+      branch?: string;
       limit?: number;
+      mode?: SearchMode;
     } = {}
   ): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
-    const limit = options.limit || 10;
-
-    // Build search directories
-    const searchDirs: string[] = [];
-    if (options.project) {
-      const projectPath = path.join(
-        this.getMemPath(),
-        PROJECTS_FOLDER,
-        sanitizeProjectName(options.project)
-      );
-      searchDirs.push(path.join(projectPath, 'knowledge'));
-      searchDirs.push(path.join(projectPath, 'research'));
-    } else {
-      // Search all projects
-      const projectsDir = path.join(this.getMemPath(), PROJECTS_FOLDER);
-      if (fs.existsSync(projectsDir)) {
-        const projects = fs.readdirSync(projectsDir, { withFileTypes: true })
-          .filter(d => d.isDirectory())
-          .map(d => d.name);
-        for (const proj of projects) {
-          searchDirs.push(path.join(projectsDir, proj, 'knowledge'));
-          searchDirs.push(path.join(projectsDir, proj, 'research'));
+    const projectPrefix = options.project
+      ? `${PROJECTS_FOLDER}/${sanitizeProjectName(this.resolveProjectName(options.project))}/`
+      : `${PROJECTS_FOLDER}/`;
+
+    const hits = await this.rankNotes(query, {
+      limit: options.limit || 10,
+      mode: options.mode,
+      filter: (relPath, note) => {
+        // Only projects/<project>/knowledge/ and projects/<project>/research/
+        if (!relPath.startsWith(projectPrefix)) return false;
+        const category = relPath.split('/')[2];
+        if (category !== 'knowledge' && category !== 'research') return false;
+
+        // Filter by knowledge type
+        if (options.knowledgeType && note.knowledgeType !== options.knowledgeType) {
+          return false;
         }
-      }
-    }
-
-    const queryLower = query.toLowerCase();
-
-    for (const dir of searchDirs) {
-      if (!fs.existsSync(dir)) continue;
-
-      const files = this.walkDir(dir, '.md');
-
-      for (const file of files) {
-        if (results.length >= limit) break;
-
-        try {
-          const raw = fs.readFileSync(file, 'utf-8');
-          const { frontmatter, content } = parseFrontmatter(raw);
-
-          // Filter by knowledge type
-          if (options.knowledgeType && frontmatter.knowledge_type !== options.knowledgeType) {
-            continue;
-          }
-
-          // Filter by topics
-          if (options.topics && options.topics.length > 0) {
-            const itemTopics = (frontmatter.topics as string[]) || [];
-            const hasMatchingTopic = options.topics.some(t =>
-              itemTopics.some(it => it.toLowerCase().includes(t.toLowerCase()))
-            );
-            if (!hasMatchingTopic) continue;
-          }
-
-          // Search in content
-          const fullText = (content + ' ' + (frontmatter.title || '')).toLowerCase();
-          if (!fullText.includes(queryLower)) {
-            continue;
-          }
 
-          results.push({
-            id: path.basename(file, '.md'),
-            title: frontmatter.title || path.basename(file, '.md'),
-            type: `knowledge/${frontmatter.knowledge_type || 'unknown'}`,
-            path: path.relative(this.vaultPath, file),
-            snippet: this.extractSnippet(content, query),
-            score: this.calculateScore(fullText, queryLower),
-            metadata: {
-              project: frontmatter.project,
-              date: frontmatter.created,
-              tags: frontmatter.tags,
-            },
-          });
-        } catch {
-          // Skip files that can't be parsed
+        // Filter by topics
+        if (options.topics && options.topics.length > 0) {
+          const hasMatchingTopic = options.topics.some(t =>
+            note.topics.some(it => it.toLowerCase().includes(t.toLowerCase()))
+          );
+          if (!hasMatchingTopic) return false;
         }
-      }
-    }
 
-    // Sort by score
-    results.sort((a, b) => b.score - a.score);
+        return matchesBranch(note, options.branch);
+      },
+    });
 
-    return results.slice(0, limit);
+    return hits.map(hit =>
+      this.toSearchResult(hit, query, `knowledge/${hit.note.knowledgeType || 'unknown'}`)
+    );
   }
 
   /**
-   * Search notes by content (keyword search)
+   * Search notes by content (keyword, semantic or hybrid ranking)
    * Excludes knowledge/ and research/ folders (use searchKnowledge for those)
    */
   async searchNotes(query: string, options: {
     project?: string;
     type?: NoteType;
     tags?: string[];
+    branch?: string;
     limit?: number;
+    mode?: SearchMode;
   } = {}): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
-    const limit = options.limit || 10;
+    const projectPrefix = options.project
+      ? `${PROJECTS_FOLDER}/${sanitizeProjectName(this.resolveProjectName(options.project))}/`
+      : undefined;
 
-    const searchDir = options.project
-      ? path.join(this.getMemPath(), PROJECTS_FOLDER, sanitizeProjectName(options.project))
-      : this.getMemPath();
+    const hits = await this.rankNotes(query, {
+      limit: options.limit || 10,
+      mode: options.mode,
+      filter: (relPath, note) => {
+        if (projectPrefix && !relPath.startsWith(projectPrefix)) return false;
 
-    if (!fs.existsSync(searchDir)) {
-      return results;
+        // Skip knowledge/ and research/ folders (handled by searchKnowledge)
+        const folders = relPath.split('/').slice(0, -1);
+        if (folders.includes('knowledge') || folders.includes('research')) return false;
+
+        // Filter by type
+        if (options.type && note.type !== options.type) return false;
+
+        // Filter by tags
+        if (options.tags && options.tags.length > 0) {
+          const hasAllTags = options.tags.every(tag => note.tags.includes(tag));
+          if (!hasAllTags) return false;
+        }
+
+        return matchesBranch(note, options.branch);
+      },
+    });
+
+    return hits.map(hit => this.toSearchResult(hit, query, hit.note.type));
+  }
+
+  /**
+   * Update the search index after notes were written outside writeNote()
+   * (e.g. by hooks that build note markdown directly)
+   */
+  indexNotes(notePaths: string[]): void {
+    try {
+      this.getSearchIndex().update(notePaths.map(p => this.resolvePath(p)));
+    } catch (error) {
+      // Index updates are best-effort; searches re-sync on mtime drift
+      console.error('Failed to update search index:', error);
     }
+  }
 
-    const files = this.walkDir(searchDir, '.md');
-    const queryLower = query.toLowerCase();
+  private getSearchIndex(): SearchIndex {
+    if (!this.searchIndex) {
+      this.searchIndex = new SearchIndex(this.getMemPath());
+    }
+    return this.searchIndex;
+  }
 
-    for (const file of files) {
-      if (results.length >= limit) break;
+  private getVectorStore(): VectorStore {
+    if (!this.vectorStore) {
+      this.vectorStore = new VectorStore(this.getMemPath(), createEmbedder(this.searchConfig.embedder));
+    }
+    return this.vectorStore;
+  }
 
-      // Skip knowledge/ and research/ folders (handled by searchKnowledge)
-      // Normalize path separators for cross-platform support (Windows uses \)
-      const relativePath = path.relative(searchDir, file).split(path.sep).join('/');
-      if (relativePath.includes('/knowledge/') || relativePath.includes('/research/') ||
-          relativePath.startsWith('knowledge/') || relativePath.startsWith('research/')) {
-        continue;
-      }
+  /**
+   * Rank indexed notes for a query using the requested search mode
+   */
+  private async rankNotes(
+    query: string,
+    options: {
+      filter: (relPath: string, note: IndexedNote) => boolean;
+      limit: number;
+      mode?: SearchMode;
+    }
+  ): Promise<Array<{ path: string; note: IndexedNote; score: number }>> {
+    const mode = options.mode || this.searchConfig.defaultMode;
+    const index = this.getSearchIndex();
+    index.refresh();
+
+    // A commit hash (e.g. from git blame) finds the sessions that made the commit
+    const commitHits = index.findByCommit(query, { filter: options.filter, limit: options.limit });
+    if (commitHits.length > 0) {
+      return commitHits;
+    }
 
-      try {
-        const raw = fs.readFileSync(file, 'utf-8');
-        const { frontmatter, content } = parseFrontmatter(raw);
+    if (mode === 'keyword') {
+      return index.search(query, { filter: options.filter, limit: options.limit });
+    }
 
-        // Filter by type
-        if (options.type && frontmatter.type !== options.type) {
-          continue;
-        }
+    const vectors = this.getVectorStore();
+    await vectors.sync(index.entries());
 
-        // Filter by tags
-        if (options.tags && options.tags.length > 0) {
-          const hasAllTags = options.tags.every(tag =>
-            frontmatter.tags.includes(tag)
-          );
-          if (!hasAllTags) continue;
-        }
+    const semantic = await vectors.query(query, {
+      minScore: MIN_SEMANTIC_SCORE,
+      filter: relPath => {
+        const note = index.getNote(relPath);
+        return !!note && options.filter(relPath, note);
+      },
+    });
 
-        // Search in content
-        const fullText = (content + ' ' + (frontmatter.title || '')).toLowerCase();
-        if (!fullText.includes(queryLower)) {
-          continue;
-        }
+    if (mode === 'semantic') {
+      return semantic.slice(0, options.limit).map(hit => ({
+        ...hit,
+        note: index.getNote(hit.path)!,
+      }));
+    }
 
-        // Extract snippet
-        const snippet = this.extractSnippet(content, query);
+    // Hybrid: blend normalized BM25 with cosine similarity
+    const keyword = index.search(query, { filter: options.filter });
+    const maxKeyword = keyword[0]?.score || 1;
+    const weight = Math.min(1, Math.max(0, this.searchConfig.hybridWeight));
+    const combined = new Map<string, number>();
 
-        results.push({
-          id: path.basename(file, '.md'),
-          title: frontmatter.title || path.basename(file, '.md'),
-          type: frontmatter.type,
-          path: path.relative(this.vaultPath, file),
-          snippet,
-          score: this.calculateScore(fullText, queryLower),
-          metadata: {
-            project: frontmatter.project,
-            date: frontmatter.created,
-            tags: frontmatter.tags,
-          },
-        });
-      } catch {
-        // Skip files that can't be parsed
-      }
+    for (const hit of keyword) {
+      combined.set(hit.path, weight * (hit.score / maxKeyword));
+    }
+    for (const hit of semantic) {
+      combined.set(hit.path, (combined.get(hit.path) || 0) + (1 - weight) * hit.score);
     }
 
-    // Sort by score
-    results.sort((a, b) => b.score - a.score);
+    return [...combined]
+      .map(([relPath, score]) => ({ path: relPath, note: index.getNote(relPath)!, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+  }
 
-    return results.slice(0, limit);
+  private toSearchResult(
+    hit: { path: string; note: IndexedNote; score: number },
+    query: string,
+    type: string
+  ): SearchResult {
+    const fullPath = path.join(this.getMemPath(), hit.path);
+
+    let snippet = '';
+    try {
+      const { content } = parseFrontmatter(fs.readFileSync(fullPath, 'utf-8'));
+      snippet = this.extractSnippet(content, query);
+    } catch {
+      // Note vanished or is unparseable - return without snippet
+    }
+
+    return {
+      id: path.basename(hit.path, '.md'),
+      title: hit.note.title,
+      type,
+      path: path.relative(this.vaultPath, fullPath),
+      snippet,
+      score: hit.score,
+      metadata: {
+        project: hit.note.project,
+        date: hit.note.created,
+        tags: hit.note.tags,
+      },
+    };
   }
 
   /**
    * Get project context for injection
+   * Notes in each section are ranked by relevance (see context-ranking.ts)
    */
   async getProjectContext(projectName: string, options: {
     includeRecentSessions?: number;
     includeErrors?: boolean;
     includeDecisions?: boolean;
     includePatterns?: boolean;
+    /** Number of frequently edited files to include (0 = none) */
+    includeFiles?: number;
+    /** Current git branch, used for ranking */
+    branch?: string;
+    /** Recently modified files relative to the repository root, used for ranking */
+    recentFiles?: string[];
+    /** Include errors, decisions, files and tests of sub-projects (default true) */
+    includeSubProjects?: boolean;
   } = {}): Promise<ProjectContext> {
+    projectName = this.resolveProjectName(projectName);
     const projectPath = path.join(
       this.getMemPath(),
       PROJECTS_FOLDER,
@@ -933,108 +1522,310 @@ ${keyPointsSection}${sourceSection}
       unresolvedErrors: [],
       activeDecisions: [],
       patterns: [],
+      relevantFiles: [],
+      flakyTests: [],
     };
 
     if (!fs.existsSync(projectPath)) {
       return context;
     }
 
+    const ranking: RankingContext = { branch: options.branch, recentFiles: options.recentFiles };
+
+    // A monorepo project aggregates the notes of its packages
+    const projectPaths = [
+      projectPath,
+      ...(options.includeSubProjects === false ? [] : this.getSubProjects(projectName)).map(child =>
+        path.join(this.getMemPath(), PROJECTS_FOLDER, sanitizeProjectName(child))
+      ),
+    ];
+
     // Get recent sessions
     if (options.includeRecentSessions !== 0) {
-      const sessionsDir = path.join(projectPath, 'sessions');
-      if (fs.existsSync(sessionsDir)) {
-        const sessionFiles = this.walkDir(sessionsDir, '.md')
-          .sort((a, b) => fs.statSync(b).mtime.getTime() - fs.statSync(a).mtime.getTime())
-          .slice(0, options.includeRecentSessions || 3);
-
-        for (const file of sessionFiles) {
-          try {
-            const { frontmatter, content } = parseFrontmatter(
-              fs.readFileSync(file, 'utf-8')
-            );
-            context.recentSessions.push({
-              id: frontmatter.session_id as string || path.basename(file, '.md'),
-              date: frontmatter.created,
-              summary: frontmatter.summary as string || this.extractFirstParagraph(content),
-              keyActions: [],
-            });
-          } catch {
-            // Skip
-          }
-        }
+      // Only rank the newest sessions - older ones can't win on recency
+      const sessionFiles = this.walkDir(path.join(projectPath, 'sessions'), '.md')
+        .sort((a, b) => fs.statSync(b).mtime.getTime() - fs.statSync(a).mtime.getTime())
+        .slice(0, MAX_RANKED_SESSIONS);
+
+      const ranked = this.rankContextNotes(sessionFiles, ranking, options.includeRecentSessions || 3,
+        (frontmatter, content) => ({
+          lastActive: this.frontmatterDate(frontmatter.end_time) || this.frontmatterDate(frontmatter.created),
+          branches: this.frontmatterBranches(frontmatter),
+          text: content,
+        })
+      );
+
+      for (const { file, frontmatter, content, score } of ranked) {
+        context.recentSessions.push({
+          id: frontmatter.session_id as string || path.basename(file, '.md'),
+          date: this.frontmatterDate(frontmatter.created) || '',
+          summary: frontmatter.summary as string || this.extractFirstParagraph(content),
+          keyActions: [],
+          score,
+        });
       }
     }
 
     // Get unresolved errors
     if (options.includeErrors !== false) {
-      const errorsDir = path.join(projectPath, 'errors');
-      if (fs.existsSync(errorsDir)) {
-        const errorFiles = this.walkDir(errorsDir, '.md');
-        for (const file of errorFiles) {
-          try {
-            const { frontmatter } = parseFrontmatter(
-              fs.readFileSync(file, 'utf-8')
-            );
-            if (frontmatter.resolved !== true) {
-              context.unresolvedErrors.push({
-                type: frontmatter.error_type as string || 'unknown',
-                message: frontmatter.title || path.basename(file, '.md'),
-                lastSeen: frontmatter.last_seen as string || frontmatter.updated,
-              });
-            }
-          } catch {
-            // Skip
-          }
+      const ranked = this.rankContextNotes(this.walkProjectDirs(projectPaths, 'errors'), ranking, 10,
+        (frontmatter, content) => frontmatter.resolved === true ? null : {
+          lastActive: this.frontmatterDate(frontmatter.last_seen) || this.frontmatterDate(frontmatter.updated),
+          frequency: Number(frontmatter.occurrences) || 1,
+          superseded: frontmatter.status === 'superseded',
+          branches: this.frontmatterBranches(frontmatter),
+          text: content,
         }
+      );
+
+      for (const { file, frontmatter, score } of ranked) {
+        context.unresolvedErrors.push({
+          type: frontmatter.error_type as string || 'unknown',
+          message: frontmatter.title || path.basename(file, '.md'),
+          lastSeen: this.frontmatterDate(frontmatter.last_seen) || this.frontmatterDate(frontmatter.updated) || '',
+          occurrences: Number(frontmatter.occurrences) || 1,
+          score,
+        });
+      }
+
+      // Flaky tests are known issues too
+      const flaky = this.rankContextNotes(this.walkProjectDirs(projectPaths, 'tests'), ranking, 5,
+        frontmatter => frontmatter.flaky !== true ? null : {
+          lastActive: this.frontmatterDate(frontmatter.last_failed) || this.frontmatterDate(frontmatter.updated),
+          frequency: Number(frontmatter.failures) || 1,
+          text: String(frontmatter.test_name || ''),
+        }
+      );
+
+      for (const { file, frontmatter, score } of flaky) {
+        context.flakyTests.push({
+          name: String(frontmatter.test_name || path.basename(file, '.md')),
+          runs: Number(frontmatter.runs) || 0,
+          failures: Number(frontmatter.failures) || 0,
+          lastFailed: this.frontmatterDate(frontmatter.last_failed) || '',
+          score,
+        });
       }
     }
 
     // Get active decisions
     if (options.includeDecisions !== false) {
-      const decisionsDir = path.join(projectPath, 'decisions');
-      if (fs.existsSync(decisionsDir)) {
-        const decisionFiles = this.walkDir(decisionsDir, '.md')
-          .sort((a, b) => fs.statSync(b).mtime.getTime() - fs.statSync(a).mtime.getTime())
-          .slice(0, 5);
-
-        for (const file of decisionFiles) {
-          try {
-            const { frontmatter, content } = parseFrontmatter(
-              fs.readFileSync(file, 'utf-8')
-            );
-            context.activeDecisions.push({
-              title: frontmatter.title || path.basename(file, '.md'),
-              decision: this.extractFirstParagraph(content),
-            });
-          } catch {
-            // Skip
-          }
-        }
+      const ranked = this.rankContextNotes(this.walkProjectDirs(projectPaths, 'decisions'), ranking, 5,
+        (frontmatter, content) => ({
+          lastActive: this.frontmatterDate(frontmatter.updated) || this.frontmatterDate(frontmatter.created),
+          superseded: frontmatter.status === 'superseded',
+          branches: this.frontmatterBranches(frontmatter),
+          text: `${frontmatter.title || ''}\n${content}`,
+        })
+      );
+
+      for (const { file, frontmatter, content, score } of ranked) {
+        context.activeDecisions.push({
+          title: frontmatter.title || path.basename(file, '.md'),
+          decision: this.extractFirstParagraph(content),
+          score,
+        });
+      }
+    }
+
+    // Get frequently edited files
+    if (options.includeFiles !== 0) {
+      const ranked = this.rankContextNotes(this.walkProjectDirs(projectPaths, 'files'), ranking, options.includeFiles || 5,
+        frontmatter => ({
+          lastActive: this.frontmatterDate(frontmatter.last_edited) || this.frontmatterDate(frontmatter.updated),
+          frequency: Number(frontmatter.edit_count) || 1,
+          branches: this.frontmatterBranches(frontmatter),
+          text: String(frontmatter.file_path || ''),
+        })
+      );
+
+      for (const { file, frontmatter, score } of ranked) {
+        context.relevantFiles.push({
+          path: String(frontmatter.file_path || frontmatter.title || path.basename(file, '.md')),
+          editCount: Number(frontmatter.edit_count) || 1,
+          lastEdited: this.frontmatterDate(frontmatter.last_edited) || '',
+          score,
+        });
       }
     }
 
     // Get patterns from global
     if (options.includePatterns !== false) {
       const patternsDir = path.join(this.getMemPath(), GLOBAL_FOLDER, 'patterns');
-      if (fs.existsSync(patternsDir)) {
-        const patternFiles = this.walkDir(patternsDir, '.md').slice(0, 5);
-        for (const file of patternFiles) {
-          try {
-            const { frontmatter, content } = parseFrontmatter(
-              fs.readFileSync(file, 'utf-8')
-            );
-            context.patterns.push({
-              name: frontmatter.title || path.basename(file, '.md'),
-              description: this.extractFirstParagraph(content),
-            });
-          } catch {
-            // Skip
+      const ranked = this.rankContextNotes(this.walkDir(patternsDir, '.md'), ranking, 5,
+        (frontmatter, content) => ({
+          lastActive: this.frontmatterDate(frontmatter.updated) || this.frontmatterDate(frontmatter.created),
+          superseded: frontmatter.status === 'superseded',
+          text: `${frontmatter.title || ''}\n${content}`,
+        })
+      );
+
+      for (const { file, frontmatter, content, score } of ranked) {
+        context.patterns.push({
+          name: frontmatter.title || path.basename(file, '.md'),
+          description: this.extractFirstParagraph(content),
+          score,
+        });
+      }
+    }
+
+    return context;
+  }
+
+  /**
+   * Get a chronological feed of what happened on a project: sessions, error
+   * first/last-seen and resolution events, decisions, supersessions and knowledge
+   * @returns Events oldest first; when there are more than `limit`, the newest are kept
+   * @throws Error if `from` or `to` is not a valid date
+   */
+  async getTimeline(projectName: string, options: {
+    /** Start of the range (ISO date or timestamp, inclusive) */
+    from?: string;
+    /** End of the range (ISO date or timestamp; a plain date includes the whole day) */
+    to?: string;
+    types?: TimelineNoteType[];
+    limit?: number;
+  } = {}): Promise<TimelineEvent[]> {
+    projectName = this.resolveProjectName(projectName);
+    const projectPath = path.join(this.getMemPath(), PROJECTS_FOLDER, sanitizeProjectName(projectName));
+    if (!fs.existsSync(projectPath)) {
+      return [];
+    }
+
+    const from = options.from ? this.parseTimelineDate(options.from, false) : -Infinity;
+    const to = options.to ? this.parseTimelineDate(options.to, true) : Infinity;
+    const types = new Set<TimelineNoteType>(options.types?.length
+      ? options.types
+      : ['session', 'error', 'decision', 'knowledge']);
+
+    const folders: Array<[string, TimelineNoteType]> = [
+      ['sessions', 'session'],
+      ['errors', 'error'],
+      ['decisions', 'decision'],
+      ['knowledge', 'knowledge'],
+      ['research', 'knowledge'],
+    ];
+
+    const events: TimelineEvent[] = [];
+
+    for (const [folder, noteType] of folders) {
+      if (!types.has(noteType)) continue;
+
+      for (const file of this.walkDir(path.join(projectPath, folder), '.md')) {
+        let frontmatter: NoteFrontmatter;
+        let content: string;
+        try {
+          ({ frontmatter, content } = parseFrontmatter(fs.readFileSync(file, 'utf-8')));
+        } catch {
+          continue;
+        }
+
+        // Skip category indexes (e.g. errors/errors.md)
+        if (frontmatter.tags.includes('index')) continue;
+
+        const base = {
+          noteType,
+          title: frontmatter.title || path.basename(file, '.md'),
+          path: path.relative(this.getMemPath(), file).split(path.sep).join('/'),
+        };
+        const add = (date: string | undefined, event: Pick<TimelineEvent, 'kind' | 'detail'>) => {
+          const time = date ? Date.parse(date) : NaN;
+          if (!Number.isNaN(time) && time >= from && time <= to) {
+            events.push({ ...base, ...event, date: new Date(time).toISOString() });
           }
+        };
+
+        const created = this.frontmatterDate(frontmatter.created);
+        const supersedes = Array.isArray(frontmatter.supersedes) ? frontmatter.supersedes.map(String) : [];
+
+        if (noteType === 'session') {
+          add(this.frontmatterDate(frontmatter.start_time) || created, {
+            kind: 'session',
+            detail: String(frontmatter.summary || this.extractFirstParagraph(content)).substring(0, 150),
+          });
+        } else if (noteType === 'error') {
+          const firstSeen = this.frontmatterDate(frontmatter.first_seen) || created;
+          const lastSeen = this.frontmatterDate(frontmatter.last_seen);
+          add(firstSeen, { kind: 'error_first_seen' });
+          if (lastSeen && lastSeen !== firstSeen) {
+            add(lastSeen, { kind: 'error_last_seen', detail: `${Number(frontmatter.occurrences) || 1} occurrences` });
+          }
+          if (frontmatter.resolved === true) {
+            add(this.frontmatterDate(frontmatter.resolved_at), { kind: 'error_resolved' });
+          }
+        } else if (supersedes.length > 0) {
+          add(created, { kind: 'supersession', detail: `Supersedes ${supersedes.join(', ')}` });
+        } else {
+          add(created, {
+            kind: noteType === 'decision' ? 'decision' : 'knowledge',
+            detail: frontmatter.knowledge_type ? String(frontmatter.knowledge_type) : undefined,
+          });
         }
       }
     }
 
-    return context;
+    events.sort((a, b) => a.date.localeCompare(b.date));
+    return events.slice(-(options.limit || 100));
+  }
+
+  /**
+   * Parse a timeline range bound; a plain date as the end bound covers the whole day
+   */
+  private parseTimelineDate(value: string, endOfDay: boolean): number {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid date: ${value}`);
+    }
+    return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+  }
+
+  /**
+   * Read notes and keep the highest-scoring ones for project context
+   * @param getSignals - ranking signals for a note, or null to skip it
+   */
+  private rankContextNotes(
+    files: string[],
+    ranking: RankingContext,
+    limit: number,
+    getSignals: (frontmatter: NoteFrontmatter, content: string) => NoteSignals | null
+  ): Array<{ file: string; frontmatter: NoteFrontmatter; content: string; score: number }> {
+    const ranked: Array<{ file: string; frontmatter: NoteFrontmatter; content: string; score: number }> = [];
+
+    for (const file of files) {
+      try {
+        const { frontmatter, content } = parseFrontmatter(fs.readFileSync(file, 'utf-8'));
+
+        // Skip category indexes (e.g. errors/errors.md)
+        if (frontmatter.tags.includes('index')) continue;
+
+        const signals = getSignals(frontmatter, content);
+        const score = signals ? scoreRelevance(signals, ranking) : 0;
+        if (score > 0) {
+          ranked.push({ file, frontmatter, content, score });
+        }
+      } catch {
+        // Skip
+      }
+    }
+
+    return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Normalize a frontmatter timestamp (unquoted YAML timestamps parse as Dates)
+   */
+  private frontmatterDate(value: unknown): string | undefined {
+    if (value instanceof Date) return value.toISOString();
+    return value ? String(value) : undefined;
+  }
+
+  /**
+   * Branches recorded on a note: `branch` on sessions, `branches` on error and file notes
+   */
+  private frontmatterBranches(frontmatter: Record<string, unknown>): string[] {
+    const branches = Array.isArray(frontmatter.branches) ? frontmatter.branches.map(b => String(b)) : [];
+    if (frontmatter.branch) branches.push(String(frontmatter.branch));
+    return [...new Set(branches)];
   }
 
   /**
@@ -1076,6 +1867,8 @@ ${keyPointsSection}${sourceSection}
       throw new Error('TechKB integration is not enabled. Enable it in config.json with techkb.enabled: true');
     }
 
+    input = this.redactNoteInput(input);
+
     const config = loadConfig();
     const categoryPath = resolveTechKBPath(input.category);
     if (!categoryPath) {
@@ -1093,44 +1886,48 @@ ${keyPointsSection}${sourceSection}
     const filename = `${date}_${slug}.md`;
     const fullPath = path.join(categoryPath, filename);
 
-    const exists = fs.existsSync(fullPath);
+    const created = await withFileLock(fullPath, () => {
+      const exists = fs.existsSync(fullPath);
 
-    if (exists && input.append) {
-      // Append to existing note
-      const raw = fs.readFileSync(fullPath, 'utf-8');
-      const { frontmatter, content } = parseFrontmatter(raw);
-      const newContent = content + '\n\n' + input.content;
-      frontmatter.updated = new Date().toISOString();
-      if (input.tags) {
-        frontmatter.tags = [...new Set([...(frontmatter.tags || []), ...input.tags])];
+      if (exists && input.append) {
+        // Append to existing note
+        const raw = fs.readFileSync(fullPath, 'utf-8');
+        const { frontmatter, content } = parseFrontmatter(raw);
+        const newContent = content + '\n\n' + input.content;
+        frontmatter.updated = new Date().toISOString();
+        if (input.tags) {
+          frontmatter.tags = [...new Set([...(frontmatter.tags || []), ...input.tags])];
+        }
+        atomicWriteSync(fullPath, stringifyFrontmatter(frontmatter, newContent));
+      } else {
+        // Create new note
+        const baseTags = ['techkb', `techkb/${input.category.split('/')[0]}`];
+        const allTags = [...baseTags, ...(input.tags || [])];
+
+        // Build frontmatter with TechKB defaults
+        const techkbDefaults = config.techkb?.defaultFrontmatter || {};
+        const frontmatter: NoteFrontmatter = {
+          type: 'learning' as NoteType,
+          title: input.title,
+          created: new Date().toISOString(),
+          updated: new Date().toISOString(),
+          tags: allTags,
+          ...techkbDefaults,
+          ...input.metadata,
+          // TechKB-specific fields
+          techkb_category: input.category,
+        };
+
+        const noteContent = `# ${input.title}\n\n${input.content}`;
+        atomicWriteSync(fullPath, stringifyFrontmatter(frontmatter, noteContent));
       }
-      fs.writeFileSync(fullPath, stringifyFrontmatter(frontmatter, newContent));
-    } else {
-      // Create new note
-      const baseTags = ['techkb', `techkb/${input.category.split('/')[0]}`];
-      const allTags = [...baseTags, ...(input.tags || [])];
-
-      // Build frontmatter with TechKB defaults
-      const techkbDefaults = config.techkb?.defaultFrontmatter || {};
-      const frontmatter: NoteFrontmatter = {
-        type: 'learning' as NoteType,
-        title: input.title,
-        created: new Date().toISOString(),
-        updated: new Date().toISOString(),
-        tags: allTags,
-        ...techkbDefaults,
-        ...input.metadata,
-        // TechKB-specific fields
-        techkb_category: input.category,
-      };
-
-      const noteContent = `# ${input.title}\n\n${input.content}`;
-      fs.writeFileSync(fullPath, stringifyFrontmatter(frontmatter, noteContent));
-    }
+
+      return !exists;
+    });
 
     // Return path relative to vault root
     const relativePath = path.relative(this.vaultPath, fullPath);
-    return { path: relativePath, created: !exists };
+    return { path: relativePath, created };
   }
 
   /**
@@ -1296,6 +2093,26 @@ ${keyPointsSection}${sourceSection}
     return slug || `${fallback}-${Date.now()}`;
   }
 
+  /**
+   * Markdown files of one category across several project folders
+   */
+  private walkProjectDirs(projectPaths: string[], category: string): string[] {
+    return projectPaths.flatMap(projectPath => this.walkDir(path.join(projectPath, category), '.md'));
+  }
+
+  /**
+   * A folder and all folders below it
+   */
+  private listDirs(dir: string): string[] {
+    const dirs = [dir];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        dirs.push(...this.listDirs(path.join(dir, entry.name)));
+      }
+    }
+    return dirs;
+  }
+
   private walkDir(dir: string, ext: string): string[] {
     const files: string[] = [];
 
@@ -1358,14 +2175,27 @@ ${keyPointsSection}${sourceSection}
   private extractSnippet(content: string, query: string, maxLength = 200): string {
     const queryLower = query.toLowerCase();
     const contentLower = content.toLowerCase();
-    const index = contentLower.indexOf(queryLower);
+    let index = contentLower.indexOf(queryLower);
+    let matchLength = query.length;
+
+    // Fall back to the first individual query word that appears
+    if (index === -1) {
+      for (const word of queryLower.split(/\s+/).filter(w => w.length > 1)) {
+        const wordIndex = contentLower.indexOf(word);
+        if (wordIndex !== -1) {
+          index = wordIndex;
+          matchLength = word.length;
+          break;
+        }
+      }
+    }
 
     if (index === -1) {
       return content.substring(0, maxLength) + '...';
     }
 
     const start = Math.max(0, index - 50);
-    const end = Math.min(content.length, index + query.length + 150);
+    const end = Math.min(content.length, index + matchLength + 150);
 
     let snippet = content.substring(start, end);
     if (start > 0) snippet = '...' + snippet;
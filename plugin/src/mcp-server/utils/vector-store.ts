@@ -0,0 +1,232 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseFrontmatter } from './frontmatter.js';
+import { cosineSimilarity, type Embedder } from './embeddings.js';
+import { INDEX_FOLDER } from '../../shared/constants.js';
+import { atomicWriteSync, withFileLock } from '../../shared/file-lock.js';
+
+const STORE_VERSION = 1;
+const STORE_FILE = 'vectors.json';
+
+// Keep embedding requests and inputs to a reasonable size for remote models
+const EMBED_BATCH_SIZE = 32;
+const MAX_EMBED_CHARS = 4000;
+
+/**
+ * A note as known to the search index, used to detect stale vectors
+ */
+export interface VectorSource {
+  path: string;
+  mtimeMs: number;
+  size: number;
+}
+
+interface StoredVector {
+  mtimeMs: number;
+  size: number;
+  /** Float32 vector, base64 encoded to keep the file compact */
+  vector: string;
+}
+
+interface StoreFile {
+  version: number;
+  embedder: string;
+  notes: Record<string, StoredVector>;
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  return new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+}
+
+/**
+ * Note embeddings persisted next to the search index in `<memFolder>/.index/`.
+ * Vectors are (re)computed lazily in `sync()` for notes whose mtime/size changed.
+ */
+export class VectorStore {
+  private memPath: string;
+  private embedder: Embedder;
+  private notes: Map<string, StoredVector> | null = null;
+  private decoded = new Map<string, Float32Array>();
+  private dirty = false;
+  /** Notes embedded or dropped since the last save */
+  private changed = new Set<string>();
+
+  constructor(memPath: string, embedder: Embedder) {
+    this.memPath = memPath;
+    this.embedder = embedder;
+  }
+
+  /**
+   * Get the path of the persisted vector file
+   */
+  getStorePath(): string {
+    return path.join(this.memPath, INDEX_FOLDER, STORE_FILE);
+  }
+
+  /**
+   * Embed new or changed notes and drop vectors for notes that no longer exist
+   */
+  async sync(sources: VectorSource[]): Promise<void> {
+    const notes = this.load();
+    const current = new Set(sources.map(s => s.path));
+
+    for (const relPath of [...notes.keys()]) {
+      if (!current.has(relPath)) {
+        notes.delete(relPath);
+        this.decoded.delete(relPath);
+        this.changed.add(relPath);
+        this.dirty = true;
+      }
+    }
+
+    const stale = sources.filter(source => {
+      const stored = notes.get(source.path);
+      return !stored || stored.mtimeMs !== source.mtimeMs || stored.size !== source.size;
+    });
+
+    for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+      const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+      const texts = batch.map(source => this.readText(source.path));
+      const vectors = await this.embedder.embed(texts);
+
+      batch.forEach((source, j) => {
+        notes.set(source.path, {
+          mtimeMs: source.mtimeMs,
+          size: source.size,
+          vector: encodeVector(vectors[j]),
+        });
+        this.decoded.delete(source.path);
+        this.changed.add(source.path);
+      });
+      this.dirty = true;
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Rank stored notes by cosine similarity to the query
+   */
+  async query(
+    text: string,
+    options: {
+      filter?: (relPath: string) => boolean;
+      limit?: number;
+      minScore?: number;
+    } = {}
+  ): Promise<Array<{ path: string; score: number }>> {
+    const notes = this.load();
+    if (notes.size === 0) return [];
+
+    const [queryVector] = await this.embedder.embed([text]);
+    const minScore = options.minScore ?? 0;
+    const results: Array<{ path: string; score: number }> = [];
+
+    for (const [relPath, stored] of notes) {
+      if (options.filter && !options.filter(relPath)) continue;
+
+      let vector = this.decoded.get(relPath);
+      if (!vector) {
+        vector = decodeVector(stored.vector);
+        this.decoded.set(relPath, vector);
+      }
+
+      const score = cosineSimilarity(queryVector, vector);
+      if (score > minScore) {
+        results.push({ path: relPath, score });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+
+  private readText(relPath: string): string {
+    try {
+      const raw = fs.readFileSync(path.join(this.memPath, relPath), 'utf-8');
+      const { frontmatter, content } = parseFrontmatter(raw);
+      const title = typeof frontmatter.title === 'string' ? frontmatter.title : '';
+      return `${title}\n${content}`.substring(0, MAX_EMBED_CHARS);
+    } catch {
+      return '';
+    }
+  }
+
+  private load(): Map<string, StoredVector> {
+    if (this.notes) return this.notes;
+
+    this.notes = new Map();
+    try {
+      const data = JSON.parse(fs.readFileSync(this.getStorePath(), 'utf-8')) as StoreFile;
+      // Vectors from another model or layout are not comparable - start over
+      if (data.version === STORE_VERSION && data.embedder === this.embedder.id) {
+        this.notes = new Map(Object.entries(data.notes));
+      } else {
+        this.dirty = true;
+      }
+    } catch {
+      // Missing or corrupt store - rebuilt by the next sync()
+    }
+
+    return this.notes;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.dirty || !this.notes) return;
+
+    const storePath = this.getStorePath();
+    fs.mkdirSync(path.dirname(storePath), { recursive: true });
+
+    // Every process searching the vault syncs the store: merge this process's
+    // vectors into the saved store under its lock, so none are lost
+    try {
+      await withFileLock(storePath, () => {
+        this.mergeSaved();
+        const data: StoreFile = {
+          version: STORE_VERSION,
+          embedder: this.embedder.id,
+          notes: Object.fromEntries(this.notes!),
+        };
+        atomicWriteSync(storePath, JSON.stringify(data));
+        this.dirty = false;
+        this.changed.clear();
+      });
+    } catch (error) {
+      console.error('Failed to save vector store:', error);
+    }
+  }
+
+  /**
+   * Take what other processes saved since this store was loaded, except for
+   * the notes this process changed itself
+   */
+  private mergeSaved(): void {
+    let saved: StoreFile;
+    try {
+      saved = JSON.parse(fs.readFileSync(this.getStorePath(), 'utf-8')) as StoreFile;
+    } catch {
+      return;
+    }
+    if (saved.version !== STORE_VERSION || saved.embedder !== this.embedder.id) return;
+
+    for (const [relPath, stored] of Object.entries(saved.notes)) {
+      const current = this.notes!.get(relPath);
+      if (this.changed.has(relPath) || (current && current.mtimeMs === stored.mtimeMs && current.size === stored.size)) {
+        continue;
+      }
+      this.notes!.set(relPath, stored);
+      this.decoded.delete(relPath);
+    }
+    for (const relPath of [...this.notes!.keys()]) {
+      if (!this.changed.has(relPath) && !(relPath in saved.notes)) {
+        this.notes!.delete(relPath);
+        this.decoded.delete(relPath);
+      }
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Capture Rules
+ *
+ * Decides which tool calls become observations. Rules from
+ * `capture.rules` are checked in order, then the built-in rules below; the
+ * first rule whose conditions all match decides. Tool calls no rule matches
+ * are not captured. `capture.fileEdits` and `capture.bashCommands` still
+ * switch those tools off entirely.
+ */
+
+import * as path from 'path';
+import { matchesGlob } from '../shared/glob.js';
+import { MemIgnore } from './memignore.js';
+import type { CaptureRule, Config, PostToolUseInput } from '../shared/types.js';
+
+const FILE_EDIT_TOOLS = ['Write', 'Edit', 'MultiEdit'];
+
+/**
+ * Built-in rules: file changes and errors are always captured, trivial shell
+ * commands never are, and build/test/VCS commands are
+ */
+export const DEFAULT_CAPTURE_RULES: CaptureRule[] = [
+  { name: 'errors', action: 'include', tools: [...FILE_EDIT_TOOLS, 'Bash'], isError: true },
+  { name: 'file-edits', action: 'include', tools: FILE_EDIT_TOOLS },
+  { name: 'trivial-commands', action: 'exclude', tools: ['Bash'], command: '^\\s*(ls|pwd|cd|echo|cat|head|tail|wc)(\\s|$)' },
+  {
+    name: 'build-commands',
+    action: 'include',
+    tools: ['Bash'],
+    command: 'npm|yarn|pnpm|bun|git|docker|make|cargo|go |python|pip|test|build|deploy',
+  },
+];
+
+/**
+ * A tool call as seen by the capture rules
+ */
+export interface CaptureCandidate {
+  tool: string;
+  command?: string;
+  /** Edited file (absolute or relative to projectPath) */
+  filePath?: string;
+  project?: string;
+  /** Project directory, used to make file paths relative */
+  projectPath?: string;
+  isError?: boolean;
+}
+
+export interface CaptureDecision {
+  capture: boolean;
+  /** The deciding rule, if one matched */
+  rule?: CaptureRule;
+  /** Where the deciding rule came from */
+  source?: 'config' | 'default';
+  /** Position of the rule in its list */
+  index?: number;
+  reason: string;
+}
+
+/**
+ * Describe a PostToolUse event for rule matching
+ */
+export function toCaptureCandidate(
+  input: PostToolUseInput,
+  session: { project: string; projectPath: string }
+): CaptureCandidate {
+  const filePath = input.tool_input.file_path || input.tool_input.path;
+  return {
+    tool: input.tool_name,
+    command: typeof input.tool_input.command === 'string' ? input.tool_input.command : undefined,
+    filePath: typeof filePath === 'string' ? filePath : undefined,
+    project: session.project,
+    projectPath: input.cwd || session.projectPath,
+    isError: input.tool_response.isError || false,
+  };
+}
+
+/**
+ * Decide whether a tool call should be captured
+ */
+export function evaluateCapture(candidate: CaptureCandidate, capture: Config['capture']): CaptureDecision {
+  if (FILE_EDIT_TOOLS.includes(candidate.tool) && !capture.fileEdits) {
+    return { capture: false, reason: 'File edit capture is disabled (capture.fileEdits)' };
+  }
+  if (candidate.tool === 'Bash' && !capture.bashCommands) {
+    return { capture: false, reason: 'Bash command capture is disabled (capture.bashCommands)' };
+  }
+
+  const lists: Array<[CaptureRule[], 'config' | 'default']> = [
+    [capture.rules || [], 'config'],
+    [DEFAULT_CAPTURE_RULES, 'default'],
+  ];
+
+  for (const [rules, source] of lists) {
+    for (let index = 0; index < rules.length; index++) {
+      const rule = rules[index];
+      if (matchesRule(rule, candidate)) {
+        const label = rule.name ? `"${rule.name}"` : `#${index + 1}`;
+        return {
+          capture: rule.action === 'include',
+          rule,
+          source,
+          index,
+          reason: `${source === 'config' ? 'Configured' : 'Built-in'} rule ${label} (${rule.action})`,
+        };
+      }
+    }
+  }
+
+  return { capture: false, reason: 'No rule matched' };
+}
+
+function matchesRule(rule: CaptureRule, candidate: CaptureCandidate): boolean {
+  if (rule.tools && !rule.tools.some(tool => matchesToolName(tool, candidate.tool))) {
+    return false;
+  }
+
+  if (rule.isError !== undefined && rule.isError !== !!candidate.isError) {
+    return false;
+  }
+
+  if (rule.projects && !(candidate.project && rule.projects.includes(candidate.project))) {
+    return false;
+  }
+
+  if (rule.command !== undefined) {
+    if (candidate.command === undefined || !testRegex(rule.command, candidate.command)) {
+      return false;
+    }
+  }
+
+  if (rule.files) {
+    if (!candidate.filePath) return false;
+    const relative = toProjectRelative(candidate.filePath, candidate.projectPath);
+    if (!rule.files.some(glob => matchesGlob(relative, glob))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function matchesToolName(pattern: string, tool: string): boolean {
+  if (!pattern.includes('*')) return pattern === tool;
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(tool);
+}
+
+function testRegex(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(value);
+  } catch {
+    // An invalid pattern matches nothing
+    return false;
+  }
+}
+
+function toProjectRelative(filePath: string, projectPath?: string): string {
+  if (!projectPath || !path.isAbsolute(filePath)) return filePath;
+  const relative = path.relative(projectPath, filePath);
+  return relative.startsWith('..') ? filePath : relative;
+}
+
+/**
+ * Decide whether a tool call would be recorded the way live capture does:
+ * .memignore first, then the capture rules
+ */
+export function explainCapture(candidate: CaptureCandidate, capture: Config['capture']): CaptureDecision {
+  const ignore = MemIgnore.load(candidate.projectPath);
+  const filePath = candidate.filePath && candidate.projectPath
+    ? path.resolve(candidate.projectPath, candidate.filePath)
+    : candidate.filePath;
+
+  if (candidate.project && ignore.ignoresProject(candidate.project)) {
+    return { capture: false, reason: `Not captured (.memignore): project "${candidate.project}" is ignored` };
+  }
+  if (filePath && ignore.ignoresPath(filePath)) {
+    return { capture: false, reason: 'Not captured (.memignore): the file is ignored' };
+  }
+  if (candidate.command && ignore.mentionsIgnoredPath(candidate.command)) {
+    return { capture: false, reason: 'Not captured (.memignore): the command mentions an ignored path' };
+  }
+  return evaluateCapture(candidate, capture);
+}
@@ -0,0 +1,115 @@
+/**
+ * Job Runner
+ *
+ * Drains the background job queue: claims runnable jobs up to the concurrency
+ * limit, runs them through the handler registered for their type and records
+ * the outcome. A handler that throws has its job retried with backoff.
+ */
+
+import {
+  claimNextJob,
+  completeJob,
+  failJobAttempt,
+  nextPendingJobAt,
+  pruneFinishedJobs,
+  type Job,
+} from '../shared/job-queue.js';
+import type { Config } from '../shared/types.js';
+
+/**
+ * Runs one attempt of a job
+ * @returns Optional outcome stored on the job
+ * @throws To record a failed attempt
+ */
+export type JobHandler = (job: Job) => Promise<string | void>;
+
+// Completed and cancelled jobs are kept this long for mem_jobs
+const FINISHED_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Shortest sleep while waiting for a retry to become due
+const MIN_IDLE_WAIT_MS = 1000;
+
+/**
+ * Run jobs until the queue has nothing left to do
+ * Waits for retries that are due within `maxIdleWaitMs`; later ones are left
+ * for the next runner.
+ * @returns Number of job attempts run
+ */
+export async function drainJobs(
+  handlers: Record<string, JobHandler>,
+  settings: Config['jobs'],
+  options: { maxIdleWaitMs?: number; log?: (message: string) => void } = {}
+): Promise<number> {
+  const maxIdleWaitMs = options.maxIdleWaitMs ?? 15 * 60 * 1000;
+  const log = options.log ?? (() => {});
+  const concurrency = Math.max(1, settings.concurrency);
+
+  pruneFinishedJobs(FINISHED_JOB_TTL_MS);
+
+  const active = new Set<Promise<void>>();
+  let attempts = 0;
+
+  while (true) {
+    while (active.size < concurrency) {
+      const job = await claimNextJob(concurrency);
+      if (!job) break;
+
+      attempts++;
+      const run: Promise<void> = runJob(job, handlers[job.type], settings, log)
+        .catch(error => log(`ERROR recording outcome of job ${job.id}: ${error}`))
+        .finally(() => active.delete(run));
+      active.add(run);
+    }
+
+    if (active.size > 0) {
+      await Promise.race(active);
+      continue;
+    }
+
+    const next = nextPendingJobAt();
+    if (next === null) {
+      return attempts;
+    }
+
+    const wait = next - Date.now();
+    if (wait <= 0) {
+      // Due but not claimable: another runner holds every slot or a job with the
+      // same key, and will pick it up
+      return attempts;
+    }
+    if (wait > maxIdleWaitMs) {
+      return attempts;
+    }
+    await new Promise(resolve => setTimeout(resolve, Math.max(wait, MIN_IDLE_WAIT_MS)));
+  }
+}
+
+/**
+ * Run one attempt of a claimed job and record how it went
+ */
+async function runJob(
+  job: Job,
+  handler: JobHandler | undefined,
+  settings: Config['jobs'],
+  log: (message: string) => void
+): Promise<void> {
+  log(`Running job ${job.id} (${job.type}, attempt ${job.attempts}/${job.maxAttempts})`);
+
+  let result: string | void;
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type: ${job.type}`);
+    }
+    result = await handler(job);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const updated = await failJobAttempt(job.id, message, settings.retryDelaySeconds * 1000);
+    log(updated?.status === 'pending'
+      ? `Job ${job.id} failed, retrying after ${updated.runAfter}: ${message}`
+      : `Job ${job.id} failed: ${message}`);
+    return;
+  }
+
+  await completeJob(job.id, result || undefined);
+  log(`Job ${job.id} completed${result ? `: ${result}` : ''}`);
+}
@@ -1,11 +1,11 @@
 /**
  * Knowledge extraction service
  *
- * Uses Claude Agent SDK to analyze conversations and extract structured knowledge
+ * Uses the configured LLM provider to analyze conversations and extract structured knowledge
  */
 
-import { query } from '@anthropic-ai/claude-agent-sdk';
 import { loadConfig } from '../shared/config.js';
+import { runQuery, extractJson } from './llm-provider.js';
 import type { KnowledgeItem } from './summarizer.js';
 import {
   type ParsedConversation,
@@ -15,53 +15,6 @@ import {
 } from './transcript.js';
 import { summarizeQA, summarizeWebPage, mergeKnowledge } from './summarizer.js';
 
-/**
- * Run a query using Claude Agent SDK
- * Uses Claude Code's existing authentication - no API key needed
- */
-async function runQuery(prompt: string): Promise<string | null> {
-  const config = loadConfig();
-
-  if (!config.summarization.enabled) {
-    return null;
-  }
-
-  try {
-    const result = query({
-      prompt,
-      options: {
-        model: config.summarization.model,
-        maxTurns: 1,
-        tools: [], // Explicitly disable tools - read-only extraction
-      }
-    });
-
-    // Collect the result from the async generator
-    for await (const message of result) {
-      if (message.type === 'result' && message.subtype === 'success') {
-        return message.result;
-      }
-    }
-    return null;
-  } catch (error) {
-    console.error('Agent SDK query failed:', error);
-    return null;
-  }
-}
-
-/**
- * Extract JSON from a response that might contain markdown code blocks
- */
-function extractJson(text: string): string {
-  // Try to extract JSON from markdown code block
-  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (jsonMatch) {
-    return jsonMatch[1].trim();
-  }
-  // Otherwise assume the whole response is JSON
-  return text.trim();
-}
-
 /**
  * Extract all knowledge from a parsed conversation
  */
@@ -0,0 +1,259 @@
+/**
+ * LLM providers for summarization and knowledge extraction
+ *
+ * Every prompt goes through an LLMProvider chosen by `summarization.provider`,
+ * so the same prompts and JSON parsing work with the Claude Agent SDK, the
+ * `claude` CLI, an OpenAI-compatible endpoint (llama.cpp, Ollama, vLLM) or
+ * canned fixture responses.
+ */
+
+import * as fs from 'fs';
+import { spawn } from 'child_process';
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import { loadConfig } from '../shared/config.js';
+import type { Config, SummarizationProvider } from '../shared/types.js';
+
+/**
+ * Answers a single prompt with text
+ */
+export interface LLMProvider {
+  /** Provider and model, for logs */
+  readonly id: string;
+  /** @throws If the backend fails or returns nothing */
+  complete(prompt: string): Promise<string>;
+}
+
+// Requests are abandoned after this long
+const REQUEST_TIMEOUT_MS = 120000;
+
+/**
+ * Claude Agent SDK, using Claude Code's existing authentication - no API key needed.
+ * Not usable from inside a hook process (it would deadlock); use the CLI there.
+ */
+export class AgentSdkProvider implements LLMProvider {
+  readonly id: string;
+
+  constructor(private model: string) {
+    this.id = `agent-sdk:${model}`;
+  }
+
+  async complete(prompt: string): Promise<string> {
+    const result = query({
+      prompt,
+      options: {
+        model: this.model,
+        maxTurns: 1,
+        tools: [], // Explicitly disable tools - read-only summarization
+      }
+    });
+
+    // Collect the result from the async generator
+    for await (const message of result) {
+      if (message.type === 'result' && message.subtype === 'success') {
+        return message.result;
+      }
+    }
+    throw new Error('Agent SDK query returned no result');
+  }
+}
+
+/**
+ * `claude -p` CLI, for detached background processes
+ */
+export class ClaudeCliProvider implements LLMProvider {
+  readonly id: string;
+
+  constructor(private model: string, private timeoutMs: number = REQUEST_TIMEOUT_MS) {
+    this.id = `claude-cli:${model}`;
+  }
+
+  complete(prompt: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn('claude', [
+        '-p',
+        '--model', this.model,
+        '--output-format', 'text',
+      ], {
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      // Send prompt via stdin to avoid shell escaping issues (cross-platform)
+      proc.stdin.write(prompt);
+      proc.stdin.end();
+
+      let stdout = '';
+      let stderr = '';
+
+      proc.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      proc.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      const timer = setTimeout(() => {
+        proc.kill();
+        reject(new Error(`claude -p timed out after ${Math.round(this.timeoutMs / 1000)} seconds`));
+      }, this.timeoutMs);
+
+      proc.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(`claude -p exited with code ${code}: ${(stderr || stdout).trim().substring(0, 500) || '(no output)'}`));
+          return;
+        }
+        resolve(stdout);
+      });
+
+      proc.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to spawn claude -p: ${error.message}`));
+      });
+    });
+  }
+}
+
+/**
+ * Any OpenAI-compatible /chat/completions endpoint
+ * (OpenAI, llama.cpp server, Ollama, LM Studio, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.id = `openai-compatible:${this.baseUrl}:${this.model}`;
+  }
+
+  async complete(prompt: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Completion request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('Completion response has no message content');
+    }
+    return content;
+  }
+}
+
+/**
+ * Canned responses for tests and offline runs, picked by the first `match`
+ * substring found in the prompt
+ */
+export interface LLMFixtures {
+  responses: Array<{ match: string; response: unknown }>;
+  /** Used when no response matches; without it an unmatched prompt fails */
+  default?: unknown;
+}
+
+/**
+ * Deterministic provider that answers from fixtures.
+ * Non-string responses are returned as JSON.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly id = 'fixture';
+
+  constructor(private fixtures: LLMFixtures) {}
+
+  async complete(prompt: string): Promise<string> {
+    const fixture = this.fixtures.responses.find(r => prompt.includes(r.match));
+    const response = fixture ? fixture.response : this.fixtures.default;
+    if (response === undefined) {
+      throw new Error('No fixture response matches the prompt');
+    }
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+}
+
+/**
+ * Create the provider selected in config
+ * @param fallback - Provider to use when `summarization.provider` isn't set
+ */
+export function createLLMProvider(
+  settings: Config['summarization'],
+  fallback: SummarizationProvider = 'agent-sdk'
+): LLMProvider {
+  const provider = settings.provider || fallback;
+
+  switch (provider) {
+    case 'claude-cli':
+      return new ClaudeCliProvider(settings.model || 'haiku');
+
+    case 'openai-compatible':
+      if (!settings.baseUrl || !settings.model) {
+        throw new Error('summarization requires baseUrl and model for the openai-compatible provider');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: settings.baseUrl,
+        model: settings.model,
+        apiKey: settings.apiKey || process.env.OPENAI_API_KEY,
+      });
+
+    case 'fixture':
+      if (!settings.fixturePath) {
+        throw new Error('summarization requires fixturePath for the fixture provider');
+      }
+      return new FixtureProvider(JSON.parse(fs.readFileSync(settings.fixturePath, 'utf-8')) as LLMFixtures);
+
+    case 'agent-sdk':
+      return new AgentSdkProvider(settings.model);
+
+    default:
+      throw new Error(`Unknown summarization provider: ${provider}`);
+  }
+}
+
+/**
+ * Extract JSON from a response that might contain markdown code blocks
+ */
+export function extractJson(text: string): string {
+  // Try to extract JSON from markdown code block
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    return jsonMatch[1].trim();
+  }
+  // Otherwise assume the whole response is JSON
+  return text.trim();
+}
+
+/**
+ * Run a prompt with the configured provider
+ * @returns The response, or null if summarization is disabled or the provider failed
+ */
+export async function runQuery(prompt: string): Promise<string | null> {
+  const config = loadConfig();
+
+  if (!config.summarization.enabled) {
+    return null;
+  }
+
+  try {
+    return await createLLMProvider(config.summarization).complete(prompt);
+  } catch (error) {
+    console.error('Summarization query failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Memory Ignore Rules
+ *
+ * `.memignore` files use gitignore syntax to keep paths out of memory: a
+ * global file in the config directory and one at the repository root. Lines
+ * of the form `project:<name>` (name may use `*`) ignore whole projects.
+ * Ignored files produce no observations or file notes, ignored projects
+ * record nothing, and lines mentioning ignored paths are scrubbed from
+ * transcript text before summarization.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDir } from '../shared/config.js';
+import { globToRegExp, matchesGlob } from '../shared/glob.js';
+import { findGitRoot } from '../../hooks/scripts/utils/helpers.js';
+
+export const MEMIGNORE_FILE = '.memignore';
+
+const SCRUBBED_LINE = '[line removed: mentions an ignored path]';
+
+/** Path-like tokens: "src/a.ts", "/abs/dir/", "id_rsa.pub", ".env" */
+const PATH_TOKEN = /[\w@~.-]*(?:\/[\w@.-]+)+\/?|\.?[\w-]+\.[A-Za-z0-9]+|\.[\w-]+/g;
+
+interface IgnoreRule {
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+export class MemIgnore {
+  private rules: IgnoreRule[] = [];
+  private projects: string[] = [];
+
+  /**
+   * @param root - Directory that relative paths and anchored patterns refer to
+   */
+  constructor(private root: string | undefined, contents: string[]) {
+    for (const content of contents) {
+      this.parse(content);
+    }
+  }
+
+  /**
+   * Load the global .memignore and the one for the repository containing projectPath
+   */
+  static load(projectPath?: string): MemIgnore {
+    const root = projectPath ? findGitRoot(projectPath) || projectPath : undefined;
+    const files = [path.join(getConfigDir(), MEMIGNORE_FILE)];
+    if (root) {
+      files.push(path.join(root, MEMIGNORE_FILE));
+    }
+
+    const contents: string[] = [];
+    for (const file of files) {
+      try {
+        contents.push(fs.readFileSync(file, 'utf-8'));
+      } catch {
+        // Missing or unreadable - nothing to ignore
+      }
+    }
+
+    return new MemIgnore(root, contents);
+  }
+
+  /**
+   * Whether nothing at all should be recorded for a project
+   */
+  ignoresProject(project: string): boolean {
+    return this.projects.some(pattern => globToRegExp(pattern).test(project));
+  }
+
+  /**
+   * Whether a file (absolute, or relative to the repository root) is ignored.
+   * Like git, a file inside an ignored directory can't be re-included.
+   */
+  ignoresPath(filePath: string): boolean {
+    if (this.rules.length === 0) return false;
+
+    const segments = this.toRelative(filePath).split('/').filter(Boolean);
+    for (let i = 1; i < segments.length; i++) {
+      if (this.matches(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+    return segments.length > 0 && this.matches(segments.join('/'), filePath.endsWith('/'));
+  }
+
+  /**
+   * Whether a text (e.g. a shell command) mentions an ignored path
+   */
+  mentionsIgnoredPath(text: string): boolean {
+    if (this.rules.length === 0) return false;
+    return (text.match(PATH_TOKEN) || []).some(token => this.ignoresPath(token));
+  }
+
+  /**
+   * Replace every line that mentions an ignored path
+   */
+  scrubText(text: string): string {
+    if (this.rules.length === 0) return text;
+    return text
+      .split('\n')
+      .map(line => (this.mentionsIgnoredPath(line) ? SCRUBBED_LINE : line))
+      .join('\n');
+  }
+
+  private parse(content: string): void {
+    for (const raw of content.split('\n')) {
+      const line = raw.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      if (line.startsWith('project:')) {
+        const name = line.substring('project:'.length).trim();
+        if (name) this.projects.push(name);
+        continue;
+      }
+
+      const negate = line.startsWith('!');
+      let pattern = negate ? line.substring(1) : line;
+      const dirOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+
+      // As in gitignore, a slash anywhere but the end anchors the pattern to the root
+      if (pattern.includes('/') && !pattern.startsWith('/') && !pattern.startsWith('**/')) {
+        pattern = `/${pattern}`;
+      }
+
+      if (pattern) {
+        this.rules.push({ pattern, negate, dirOnly });
+      }
+    }
+  }
+
+  /**
+   * Last matching rule wins, so `!keep.pem` can re-include a file ignored by `*.pem`
+   */
+  private matches(relPath: string, isDir: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (matchesGlob(relPath, rule.pattern)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  private toRelative(filePath: string): string {
+    const normalized = filePath.replace(/\\/g, '/');
+    if (this.root && path.isAbsolute(filePath)) {
+      const relative = path.relative(this.root, filePath).replace(/\\/g, '/');
+      if (!relative.startsWith('..')) return relative;
+    }
+    // Outside the repository only unanchored patterns can match
+    return normalized.replace(/^(\.\/|\/)+/, '');
+  }
+}
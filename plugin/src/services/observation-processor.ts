@@ -0,0 +1,832 @@
+/**
+ * Observation Processor
+ *
+ * Turns PostToolUse events into session observations and keeps the
+ * per-project error and file notes in the vault up to date. Used by the
+ * worker service and, when the worker is not running, directly by the hook.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { sanitizeProjectName } from '../shared/config.js';
+import { atomicWriteSync, withFileLock } from '../shared/file-lock.js';
+import { addObservation, readSession } from '../shared/session-store.js';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import { extractToolKnowledge } from './knowledge-extractor.js';
+import { redactObservation } from '../shared/redaction.js';
+import { evaluateCapture, toCaptureCandidate } from './capture-rules.js';
+import { MemIgnore } from './memignore.js';
+import { fingerprintError } from '../shared/error-parsers.js';
+import { parseTestRun } from '../shared/test-runs.js';
+import { recordTestRun } from './test-tracker.js';
+import { findWorkspace, subProjectName } from './workspaces.js';
+import {
+  generateObservationId,
+  extractFileInfo,
+  extractCommandInfo,
+  extractErrorInfo,
+  getGitRef,
+} from '../../hooks/scripts/utils/helpers.js';
+import type {
+  Config,
+  PostToolUseInput,
+  Observation,
+  Session,
+  ErrorData,
+  CommandData,
+  FileEditData,
+  TestRunData,
+  GitRef,
+} from '../shared/types.js';
+
+// Commands whose success says the code works: builds, type checks, linters and tests
+const VERIFY_COMMAND = /\b(test|tests|build|compile|tsc|typecheck|lint|check|pytest|jest|vitest|make|mvn|gradle)\b/;
+
+/**
+ * Record a tool use in its session and update the related vault notes
+ */
+export async function processToolUse(
+  input: PostToolUseInput,
+  config: Config,
+  vault: VaultManager
+): Promise<void> {
+  // Validate session_id from input
+  if (!input.session_id) {
+    return;
+  }
+
+  // Check if we have an active session for this session_id
+  const session = readSession(input.session_id);
+  if (!session || session.status !== 'active') {
+    return;
+  }
+
+  // Ignored projects and files (.memignore) leave no trace
+  const candidate = toCaptureCandidate(input, session);
+  const ignore = MemIgnore.load(input.cwd || session.projectPath);
+  if (
+    ignore.ignoresProject(session.project) ||
+    (candidate.filePath && ignore.ignoresPath(candidate.filePath)) ||
+    (candidate.command && ignore.mentionsIgnoredPath(candidate.command))
+  ) {
+    return;
+  }
+
+  // Branch and commit at the time of the tool use (may differ from session start)
+  const git = getGitRef(input.cwd || session.projectPath);
+
+  // Handle knowledge-producing tools FIRST (before the capture rules)
+  // These tools don't need to pass the observation filters
+  if (isKnowledgeTool(input.tool_name)) {
+    // Check if tool failed - still record as error
+    if (input.tool_response.isError) {
+      const errorObservation = redactObservation(buildErrorObservation(input), config.redaction);
+      addObservation(input.session_id, errorObservation);
+      await processError(errorObservation, session.project, session.projectPath, session.id, git, config, vault);
+    } else {
+      // Only extract knowledge from successful responses
+      await processKnowledgeTool(input, session.project, session.id, config, vault);
+    }
+    return;
+  }
+
+  // Apply capture rules (configured rules first, then the built-in ones)
+  if (!evaluateCapture(candidate, config.capture).capture) {
+    return;
+  }
+
+  // Build observation based on tool type, with secrets redacted before anything is stored
+  const observation = redactObservation(buildObservation(input, config), config.redaction);
+
+  // In a monorepo, notes go to the package the observation belongs to
+  const project = attributeToWorkspace(observation, input, session);
+  if (project !== session.project) {
+    await vault.ensureSubProject(session.project, project);
+  }
+
+  // Add to session file using the session_id from input
+  addObservation(input.session_id, observation);
+
+  // Handle errors specially - create/update error notes in vault
+  const errorObservation = asErrorObservation(observation);
+  if (errorObservation) {
+    await processError(errorObservation, project, session.projectPath, session.id, git, config, vault);
+  }
+
+  // Handle test runs - update per-test failure history
+  if (observation.type === 'test_run') {
+    await recordTestRun(observation, session, config, vault);
+  }
+
+  // Handle file edits - update file knowledge
+  if (observation.type === 'file_edit') {
+    await processFileEdit(observation, project, session.id, git, config, vault);
+  }
+
+  // A successful command, test run or edit may show that an earlier error is fixed
+  if (!observation.isError && ['command', 'test_run', 'file_edit'].includes(observation.type)) {
+    await resolveFixedErrors(observation, session, config, vault);
+  }
+}
+
+/**
+ * Attribute an observation to the workspace package containing its file
+ * (or the command's working directory)
+ * @returns The project its notes belong to
+ */
+function attributeToWorkspace(observation: Observation, input: PostToolUseInput, session: Session): string {
+  if (!session.workspaces?.length) return session.project;
+
+  const data = observation.data as Partial<FileEditData & ErrorData>;
+  const target = observation.type === 'file_edit' ? data.path : data.file || input.cwd;
+  const workspace = findWorkspace(session.workspaces, target || '');
+  if (!workspace) return session.project;
+
+  observation.project = subProjectName(session.project, workspace);
+  return observation.project;
+}
+
+/**
+ * Check if a tool produces knowledge worth extracting
+ */
+function isKnowledgeTool(toolName: string): boolean {
+  return (
+    toolName === 'WebFetch' ||
+    toolName === 'WebSearch' ||
+    (toolName.includes('context7') && toolName.includes('query-docs'))
+  );
+}
+
+/**
+ * Process a knowledge-producing tool and extract/store knowledge
+ */
+async function processKnowledgeTool(
+  input: PostToolUseInput,
+  project: string,
+  sessionId: string,
+  config: Config,
+  vault: VaultManager
+): Promise<void> {
+  // Skip if summarization is disabled
+  if (!config.summarization.enabled) return;
+
+  // Extract tool output text
+  const outputText = input.tool_response.content
+    .filter(c => c.type === 'text' && c.text)
+    .map(c => c.text)
+    .join('\n');
+
+  if (!outputText || outputText.length < 100) return;
+
+  try {
+    // Extract knowledge from tool output
+    const knowledge = await extractToolKnowledge(
+      input.tool_name,
+      input.tool_input,
+      outputText,
+      sessionId
+    );
+
+    if (knowledge) {
+      // Store knowledge in vault
+      await vault.writeKnowledge(knowledge, project);
+    }
+  } catch (error) {
+    console.error('Failed to extract knowledge from tool:', error);
+  }
+}
+
+function buildObservation(input: PostToolUseInput, config: Config): Observation {
+  const baseObservation: Observation = {
+    id: generateObservationId(),
+    timestamp: new Date().toISOString(),
+    tool: input.tool_name,
+    type: 'other',
+    isError: input.tool_response.isError || false,
+    data: {},
+  };
+
+  switch (input.tool_name) {
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+      return {
+        ...baseObservation,
+        type: 'file_edit',
+        data: extractFileInfo(input.tool_input, input.tool_response),
+      };
+
+    case 'Bash':
+      const cmdInfo = extractCommandInfo(
+        input.tool_input,
+        input.tool_response,
+        config.capture.bashOutput
+      );
+      const testRun = parseTestRun(cmdInfo.command, getResponseText(input.tool_response));
+      if (testRun) {
+        const failed = cmdInfo.isError || testRun.failed > 0;
+        const data: TestRunData = { ...cmdInfo, ...testRun };
+        if (failed) {
+          data.error = extractErrorInfo(input.tool_name, input.tool_input, input.tool_response, input.cwd);
+        }
+        return {
+          ...baseObservation,
+          type: 'test_run',
+          isError: failed,
+          data,
+        };
+      }
+      if (cmdInfo.isError) {
+        return {
+          ...baseObservation,
+          type: 'error',
+          isError: true,
+          data: extractErrorInfo(input.tool_name, input.tool_input, input.tool_response, input.cwd),
+        };
+      }
+      return {
+        ...baseObservation,
+        type: 'command',
+        data: cmdInfo,
+      };
+
+    default:
+      return {
+        ...baseObservation,
+        type: 'other',
+        data: {
+          input: input.tool_input,
+          output: input.tool_response,
+        },
+      };
+  }
+}
+
+/**
+ * Text content of a tool response
+ */
+function getResponseText(response: PostToolUseInput['tool_response']): string {
+  return response.content
+    .filter(c => c.type === 'text')
+    .map(c => c.text)
+    .join('\n');
+}
+
+/**
+ * The error an observation carries, as an error observation
+ * @returns null for failed test runs without error details and for successful observations
+ */
+function asErrorObservation(observation: Observation): Observation | null {
+  if (observation.type === 'test_run') {
+    const error = (observation.data as TestRunData).error;
+    return observation.isError && error ? { ...observation, type: 'error', data: error } : null;
+  }
+  return observation.type === 'error' || observation.isError ? observation : null;
+}
+
+/**
+ * Build an error observation for failed knowledge tools
+ */
+function buildErrorObservation(input: PostToolUseInput): Observation {
+  return {
+    id: generateObservationId(),
+    timestamp: new Date().toISOString(),
+    tool: input.tool_name,
+    type: 'error',
+    isError: true,
+    data: extractErrorInfo(input.tool_name, input.tool_input, input.tool_response, input.cwd),
+  };
+}
+
+/**
+ * Process an error observation - create/update error notes
+ */
+async function processError(
+  observation: Observation,
+  project: string,
+  projectDir: string,
+  sessionId: string,
+  git: GitRef,
+  config: Config,
+  vault: VaultManager
+): Promise<void> {
+  if (!config.capture.errors) return;
+
+  const errorData = observation.data as ErrorData;
+  const errorHash = fingerprintError(errorData, projectDir);
+
+  const projectPath = path.join(
+    vault.getMemPath(),
+    'projects',
+    sanitizeProjectName(project),
+    'errors'
+  );
+
+  // Ensure directory exists
+  if (!fs.existsSync(projectPath)) {
+    fs.mkdirSync(projectPath, { recursive: true });
+  }
+
+  const errorFilePath = path.join(projectPath, `${errorHash}.md`);
+
+  // Parallel tool calls can hit the same error at once
+  await withFileLock(errorFilePath, async () => {
+    if (fs.existsSync(errorFilePath)) {
+      // Update existing error note - add new occurrence row
+      await updateErrorNote(errorFilePath, observation, sessionId, git);
+    } else {
+      // Create new error note
+      await createErrorNote(errorFilePath, observation, project, sessionId, git, config);
+    }
+  });
+
+  vault.indexNotes([errorFilePath]);
+}
+
+/**
+ * Create a new error note
+ */
+async function createErrorNote(
+  filePath: string,
+  observation: Observation,
+  project: string,
+  sessionId: string,
+  git: GitRef,
+  config: Config
+): Promise<void> {
+  const errorData = observation.data as ErrorData;
+  const errorType = categorizeError(errorData);
+
+  // Parent link to errors category index (errors/errors.md)
+  const parentLink = `[[${config.vault.memFolder}/projects/${sanitizeProjectName(project)}/errors/errors]]`;
+
+  const frontmatter = `---
+type: error
+title: "Error: ${(errorData.type || 'Unknown').replace(/"/g, '\\"')}"
+project: ${project}
+created: ${new Date().toISOString()}
+updated: ${new Date().toISOString()}
+tags:
+  - error
+  - error/${errorType}
+  - project/${sanitizeProjectName(project)}
+parent: "${parentLink}"
+error_type: ${errorData.type || 'unknown'}
+error_hash: ${path.basename(filePath, '.md')}
+${errorData.code ? `error_code: "${errorData.code.replace(/"/g, '\\"')}"\n` : ''}first_seen: ${observation.timestamp}
+last_seen: ${observation.timestamp}
+occurrences: 1
+resolved: false
+sessions:
+  - ${sessionId}
+---
+
+`;
+
+  const content = `# Error: ${errorData.type || 'Unknown'}
+
+## Summary
+
+> [!danger] Error Pattern
+> ${errorData.message || 'No message'}
+
+## Context
+
+**File**: \`${errorData.file || 'unknown'}\`
+**Line**: ${errorData.line || 'unknown'}
+
+## Error Message
+
+\`\`\`
+${errorData.message || 'No error message'}
+\`\`\`
+
+${errorData.stack ? `## Stack Trace
+
+\`\`\`
+${errorData.stack}
+\`\`\`` : ''}
+
+## Resolution
+
+> [!success] Solution
+> _Not yet resolved_
+
+## Occurrences
+
+| Date | Session | Context |
+|------|---------|---------|
+| ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | First occurrence |
+`;
+
+  atomicWriteSync(filePath, recordGitRef(frontmatter + content, git));
+}
+
+/**
+ * Update an existing error note with new occurrence
+ */
+async function updateErrorNote(
+  filePath: string,
+  observation: Observation,
+  sessionId: string,
+  git: GitRef
+): Promise<void> {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const errorData = observation.data as ErrorData;
+
+  // Update frontmatter fields
+  let updated = raw;
+
+  // Update last_seen
+  updated = updated.replace(
+    /last_seen: .+/,
+    `last_seen: ${observation.timestamp}`
+  );
+
+  // Increment occurrences
+  const occurrencesMatch = updated.match(/occurrences: (\d+)/);
+  if (occurrencesMatch) {
+    const count = parseInt(occurrencesMatch[1], 10) + 1;
+    updated = updated.replace(/occurrences: \d+/, `occurrences: ${count}`);
+  }
+
+  // Update updated timestamp
+  updated = updated.replace(
+    /updated: .+/,
+    `updated: ${new Date().toISOString()}`
+  );
+
+  // A resolved error that shows up again is open again
+  const recurred = /^resolved: true$/m.test(updated);
+  if (recurred) {
+    updated = updated.replace(/^resolved: true$/m, 'resolved: false');
+  }
+
+  // Add session to sessions list if not already there
+  if (!updated.includes(`  - ${sessionId}`)) {
+    updated = updated.replace(
+      /(sessions:\n(?:  - .+\n)*)/,
+      `$1  - ${sessionId}\n`
+    );
+  }
+
+  // Add new row to occurrences table
+  const rowContext = recurred ? `Recurred after resolution${errorData.context ? ` - ${errorData.context}` : ''}` : errorData.context || 'Recurring';
+  const newRow = `| ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | ${rowContext} |`;
+
+  const occurrencesHeader = '## Occurrences';
+  const headerIndex = updated.indexOf(occurrencesHeader);
+
+  if (headerIndex !== -1) {
+    const afterHeader = updated.substring(headerIndex);
+    const separatorMatch = afterHeader.match(/\|[-|\s]+\|\n/);
+
+    if (separatorMatch) {
+      const separatorEnd = headerIndex + (separatorMatch.index || 0) + separatorMatch[0].length;
+      updated = updated.substring(0, separatorEnd) + newRow + '\n' + updated.substring(separatorEnd);
+    }
+  }
+
+  atomicWriteSync(filePath, recordGitRef(updated, git));
+}
+
+/**
+ * Process a file edit observation
+ */
+async function processFileEdit(
+  observation: Observation,
+  project: string,
+  sessionId: string,
+  git: GitRef,
+  config: Config,
+  vault: VaultManager
+): Promise<void> {
+  const fileData = observation.data as { path: string; language?: string; changeType?: string };
+  const fileHash = hashFilePath(fileData.path);
+
+  const projectPath = path.join(
+    vault.getMemPath(),
+    'projects',
+    sanitizeProjectName(project),
+    'files'
+  );
+
+  // Ensure directory exists
+  if (!fs.existsSync(projectPath)) {
+    fs.mkdirSync(projectPath, { recursive: true });
+  }
+
+  const knowledgeFilePath = path.join(projectPath, `${fileHash}.md`);
+
+  await withFileLock(knowledgeFilePath, async () => {
+    if (fs.existsSync(knowledgeFilePath)) {
+      await updateFileKnowledge(knowledgeFilePath, observation, sessionId, git);
+    } else {
+      await createFileKnowledge(knowledgeFilePath, observation, project, sessionId, git, config);
+    }
+  });
+
+  vault.indexNotes([knowledgeFilePath]);
+}
+
+/**
+ * Create a new file knowledge note
+ */
+async function createFileKnowledge(
+  filePath: string,
+  observation: Observation,
+  project: string,
+  sessionId: string,
+  git: GitRef,
+  config: Config
+): Promise<void> {
+  const fileData = observation.data as FileEditData;
+
+  // Parent link to files category index (files/files.md)
+  const parentLink = `[[${config.vault.memFolder}/projects/${sanitizeProjectName(project)}/files/files]]`;
+
+  const frontmatter = `---
+type: file
+title: "${path.basename(fileData.path).replace(/"/g, '\\"')}"
+project: ${project}
+created: ${new Date().toISOString()}
+updated: ${new Date().toISOString()}
+tags:
+  - file
+  - lang/${fileData.language || 'unknown'}
+  - project/${sanitizeProjectName(project)}
+parent: "${parentLink}"
+file_path: ${fileData.path}
+file_hash: ${path.basename(filePath, '.md')}
+language: ${fileData.language || 'unknown'}
+edit_count: 1
+last_edited: ${observation.timestamp}
+---
+
+`;
+
+  const content = `# File: ${fileData.path}
+
+## Purpose
+
+_File purpose not yet documented_
+
+## Edit History
+
+| Date | Session | Change Summary |
+|------|---------|----------------|
+| ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | ${formatHistoryCell(fileData)} |
+
+## Notes
+
+_No notes yet_
+`;
+
+  atomicWriteSync(filePath, recordGitRef(frontmatter + content, git));
+}
+
+/**
+ * Update existing file knowledge
+ */
+async function updateFileKnowledge(
+  filePath: string,
+  observation: Observation,
+  sessionId: string,
+  git: GitRef
+): Promise<void> {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const fileData = observation.data as FileEditData;
+
+  let updated = raw;
+
+  // Update edit_count
+  const editCountMatch = updated.match(/edit_count: (\d+)/);
+  if (editCountMatch) {
+    const count = parseInt(editCountMatch[1], 10) + 1;
+    updated = updated.replace(/edit_count: \d+/, `edit_count: ${count}`);
+  }
+
+  // Update last_edited
+  updated = updated.replace(
+    /last_edited: .+/,
+    `last_edited: ${observation.timestamp}`
+  );
+
+  // Update updated timestamp
+  updated = updated.replace(
+    /updated: .+/,
+    `updated: ${new Date().toISOString()}`
+  );
+
+  // Add new row to edit history
+  const newRow = `| ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | ${formatHistoryCell(fileData)} |`;
+
+  const tableMatch = updated.match(/(\| Date \| Session \| Change Summary \|\n\|[-|\s]+\|)/);
+  if (tableMatch) {
+    const insertPos = updated.indexOf(tableMatch[0]) + tableMatch[0].length;
+    updated = updated.substring(0, insertPos) + '\n' + newRow + updated.substring(insertPos);
+  }
+
+  atomicWriteSync(filePath, recordGitRef(updated, git));
+}
+
+/**
+ * Change summary for a file note's edit history table
+ */
+function formatHistoryCell(fileData: FileEditData): string {
+  return (fileData.summary || fileData.changeType || 'Modified').replace(/\|/g, '\\|');
+}
+
+/**
+ * Record a branch and commit in a note's frontmatter: the branch is added
+ * to `branches` (where the error was seen / the file was edited) and
+ * `last_commit` is set to the commit
+ */
+function recordGitRef(raw: string, git: GitRef): string {
+  const end = raw.indexOf('\n---', 3);
+  if (end === -1) return raw;
+
+  let frontmatter = raw.substring(0, end + 1);
+  const rest = raw.substring(end + 1);
+
+  if (git.branch) {
+    const listMatch = frontmatter.match(/^branches:\n((?:  - .+\n)*)/m);
+    const item = `  - ${JSON.stringify(git.branch)}\n`;
+    if (!listMatch) {
+      frontmatter += `branches:\n${item}`;
+    } else {
+      const branches = listMatch[1]
+        .split('\n')
+        .map(line => line.replace(/^  - /, '').trim().replace(/^["']|["']$/g, ''));
+      if (!branches.includes(git.branch)) {
+        frontmatter = frontmatter.replace(listMatch[0], listMatch[0] + item);
+      }
+    }
+  }
+
+  if (git.commit) {
+    frontmatter = /^last_commit: .*$/m.test(frontmatter)
+      ? frontmatter.replace(/^last_commit: .*$/m, `last_commit: ${git.commit}`)
+      : frontmatter + `last_commit: ${git.commit}\n`;
+  }
+
+  return frontmatter + rest;
+}
+
+/**
+ * Resolve error notes from this session that a successful tool use shows
+ * to be fixed: the failing command (or edit) now succeeds, or the failing
+ * file was edited and the same kind of command (or, when no command failed,
+ * a build or test) now passes
+ */
+async function resolveFixedErrors(
+  observation: Observation,
+  session: Session,
+  config: Config,
+  vault: VaultManager
+): Promise<void> {
+  if (!config.capture.errors) return;
+
+  const errorsDir = (project: string) => path.join(
+    vault.getMemPath(),
+    'projects',
+    sanitizeProjectName(project),
+    'errors'
+  );
+  const edits = session.observations.filter(o => o.type === 'file_edit' && !o.isError);
+  const handled = new Set<string>();
+
+  // Latest occurrence first - only it decides whether the error is fixed
+  for (const earlier of [...session.observations].reverse()) {
+    if (!['error', 'test_run', 'file_edit'].includes(earlier.type)) continue;
+    const previous = asErrorObservation(earlier);
+    if (!previous) continue;
+
+    const errorFilePath = path.join(errorsDir(earlier.project || session.project), `${fingerprintError(previous.data as ErrorData, session.projectPath)}.md`);
+    if (handled.has(errorFilePath) || !fs.existsSync(errorFilePath)) continue;
+    handled.add(errorFilePath);
+
+    const editsSince = edits.filter(e => e.timestamp >= previous.timestamp);
+    const resolution = describeResolution(previous, observation, editsSince);
+    if (!resolution) continue;
+
+    try {
+      await vault.resolveError(errorFilePath, {
+        resolution,
+        sessionId: session.id,
+        fixSummary: summarizeEdits(editsSince),
+        method: 'auto',
+      });
+    } catch (error) {
+      console.error(`Failed to resolve error note: ${errorFilePath}`, error);
+    }
+  }
+}
+
+/**
+ * Explain why a successful observation resolves an earlier error
+ * @returns null if it doesn't
+ */
+function describeResolution(
+  error: Observation,
+  success: Observation,
+  editsSince: Observation[]
+): string | null {
+  const errorData = error.data as ErrorData;
+  // A failed edit keeps its file details rather than parsed error output
+  const errorFile = error.type === 'file_edit' ? (error.data as FileEditData).path : errorData.file;
+
+  if (success.type === 'file_edit') {
+    // The same edit tool now succeeds on the same file
+    const file = (success.data as FileEditData).path;
+    if (error.tool === success.tool && errorFile === file) {
+      return `\`${success.tool}\` on \`${file}\` succeeded after failing.`;
+    }
+    return null;
+  }
+
+  const command = (success.data as CommandData).command.trim();
+  const failedCommand = error.tool === 'Bash' && errorData.context?.startsWith('Command: ')
+    ? errorData.context.substring('Command: '.length).trim()
+    : null;
+
+  // The failing command now succeeds
+  if (failedCommand && failedCommand === command.substring(0, 100).trim()) {
+    return `\`${command}\` succeeded after failing.`;
+  }
+
+  // The failing file was edited and the same kind of command now passes;
+  // without a failed command to compare, only a build or test run counts
+  const sameKind = failedCommand
+    ? commandKind(failedCommand) === commandKind(command)
+    : success.type === 'test_run' || VERIFY_COMMAND.test(command);
+  if (
+    errorFile &&
+    sameKind &&
+    editsSince.some(e => (e.data as FileEditData).path === errorFile)
+  ) {
+    return `\`${errorFile}\` was edited and \`${command}\` then passed.`;
+  }
+
+  return null;
+}
+
+/**
+ * Program and subcommand of a shell command (e.g. "npm test")
+ */
+function commandKind(command: string): string {
+  return command.trim().split(/\s+/).slice(0, 2).join(' ');
+}
+
+/**
+ * Summarize file edits as a markdown list for an error's fix
+ */
+function summarizeEdits(edits: Observation[]): string | undefined {
+  const byPath = new Map<string, FileEditData>();
+  for (const edit of edits) {
+    const data = edit.data as FileEditData;
+    const existing = byPath.get(data.path);
+    byPath.set(data.path, {
+      ...data,
+      linesAdded: (existing?.linesAdded || 0) + (data.linesAdded || 0),
+      linesRemoved: (existing?.linesRemoved || 0) + (data.linesRemoved || 0),
+    });
+  }
+
+  if (byPath.size === 0) return undefined;
+
+  return [...byPath.values()]
+    .slice(0, 10)
+    .map(data => {
+      const lines = data.linesAdded || data.linesRemoved ? `, +${data.linesAdded}/-${data.linesRemoved}` : '';
+      return `- \`${data.path}\` (${data.changeType || 'modify'}${lines})`;
+    })
+    .join('\n');
+}
+
+/**
+ * Hash a file path for note naming
+ */
+export function hashFilePath(filePath: string): string {
+  return crypto.createHash('md5').update(filePath).digest('hex').substring(0, 12);
+}
+
+/**
+ * Categorize an error type
+ */
+function categorizeError(error: ErrorData): string {
+  const type = (error.type || '').toLowerCase();
+  const message = (error.message || '').toLowerCase();
+
+  if (type.includes('test')) return 'test';
+  if (type.includes('eslint')) return 'lint';
+  if (type.includes('syntax') || message.includes('syntax')) return 'syntax';
+  if (type.includes('type') || message.includes('type')) return 'type';
+  if (type.includes('reference') || message.includes('undefined')) return 'reference';
+  if (type.includes('network') || message.includes('fetch') || message.includes('connection')) return 'network';
+  if (type.includes('permission') || message.includes('access denied')) return 'permission';
+  if (message.includes('not found') || message.includes('enoent')) return 'not-found';
+
+  return 'general';
+}
@@ -0,0 +1,251 @@
+/**
+ * Prompt Context
+ *
+ * Builds the "relevant memory" block injected on UserPromptSubmit. A prompt
+ * often touches several things at once ("why does api.ts throw TS2345 again,
+ * and didn't we drop Redis?"), so it is split into sub-queries - sentences,
+ * error names/codes, quoted or backticked fragments and file mentions - whose
+ * result lists are merged with reciprocal rank fusion.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import { tokenize } from '../mcp-server/utils/search-index.js';
+import { sanitizeProjectName } from '../shared/config.js';
+import { PROJECTS_FOLDER } from '../shared/constants.js';
+import { estimateTokens } from '../shared/token-budget.js';
+import { hashFilePath } from './observation-processor.js';
+import type { Config, SearchResult, Session } from '../shared/types.js';
+
+/** Note types worth surfacing for a prompt (sessions are covered at SessionStart) */
+const RELEVANT_TYPES = new Set(['error', 'decision', 'pattern', 'file', 'learning']);
+/** Reciprocal rank fusion constant */
+const RRF_K = 60;
+const MAX_QUERY_LENGTH = 1000;
+const MAX_SENTENCE_QUERIES = 3;
+const MAX_TERMS = 5;
+const MAX_FILES = 5;
+const RESULTS_PER_QUERY = 8;
+const SNIPPET_LENGTH = 200;
+
+export interface PromptQueries {
+  /** Natural-language sub-queries, ranked semantically */
+  queries: string[];
+  /** Exact fragments (error names/codes, quoted text), ranked by keyword */
+  terms: string[];
+  /** File paths mentioned in the prompt, as written */
+  files: string[];
+}
+
+/**
+ * Split a prompt into the sub-queries used for context lookup
+ */
+export function extractPromptQueries(prompt: string): PromptQueries {
+  const text = prompt.substring(0, MAX_QUERY_LENGTH * 5);
+
+  // File mentions: path-like tokens with an extension
+  const files: string[] = [];
+  const filePattern = /(?:^|[\s`'"([])((?:\.{1,2}\/|\/|~\/)?(?:[\w@.-]+\/)*[\w@-][\w@.-]+\.[A-Za-z][A-Za-z0-9]{0,7})(?=$|[\s`'"),:;\]!?]|\.(?:\s|$))/g;
+  for (const match of text.matchAll(filePattern)) {
+    addUnique(files, match[1]);
+  }
+
+  // Exact fragments: quoted/backticked text, error names and error codes
+  const terms: string[] = [];
+  const termPatterns = [
+    /`([^`\n]{3,100})`/g,
+    /"([^"\n]{3,100})"/g,
+    /\b([A-Z]\w*(?:Error|Exception))\b/g,
+    /\b(E[A-Z]{3,}|TS\d{4}|E\d{3,4})\b/g,
+  ];
+  for (const pattern of termPatterns) {
+    for (const match of text.matchAll(pattern)) {
+      const term = match[1].trim();
+      if (!files.includes(term) && tokenize(term).length > 0) {
+        addUnique(terms, term);
+      }
+    }
+  }
+
+  // Natural-language queries: the whole prompt plus its longer sentences
+  const queries: string[] = [];
+  const whole = text.substring(0, MAX_QUERY_LENGTH).trim();
+  if (tokenize(whole).length > 0) {
+    queries.push(whole);
+  }
+
+  const sentences = text
+    .split(/(?<=[.?!])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => tokenize(s).length >= 2)
+    .sort((a, b) => tokenize(b).length - tokenize(a).length);
+  if (sentences.length > 1) {
+    for (const sentence of sentences.slice(0, MAX_SENTENCE_QUERIES)) {
+      addUnique(queries, sentence.substring(0, MAX_QUERY_LENGTH));
+    }
+  }
+
+  return {
+    queries,
+    terms: terms.slice(0, MAX_TERMS),
+    files: files.slice(0, MAX_FILES),
+  };
+}
+
+/**
+ * Build the relevant-memory block for a prompt
+ * @param exclude - Note paths already injected earlier in the session
+ * @returns The formatted block (or null if nothing relevant) and the note paths it contains
+ */
+export async function buildPromptContext(
+  prompt: string,
+  session: Session,
+  config: Config,
+  vault: VaultManager,
+  exclude: string[] = []
+): Promise<{ context: string | null; notePaths: string[] }> {
+  const settings = config.contextInjection.promptContext;
+  const { queries, terms, files } = extractPromptQueries(prompt);
+  const project = session.project;
+  const excluded = new Set(exclude);
+  const fused = new Map<string, { result: SearchResult; score: number }>();
+
+  const addResults = (results: SearchResult[], boost = 0) => {
+    let rank = 0;
+    for (const result of results) {
+      if (!isRelevant(result) || excluded.has(result.path)) continue;
+      const entry = fused.get(result.path) || { result, score: 0 };
+      entry.score += boost + 1 / (RRF_K + ++rank);
+      fused.set(result.path, entry);
+    }
+  };
+
+  // Notes for mentioned files rank first - the prompt names them directly
+  for (const file of files) {
+    addResults(await findFileNotes(file, session, config, vault), 1);
+  }
+
+  for (const query of queries) {
+    const options = { project, limit: RESULTS_PER_QUERY, mode: 'semantic' as const };
+    const results = [
+      ...(await vault.searchNotes(query, options)),
+      ...(await vault.searchKnowledge(query, options)),
+    ]
+      .filter(r => r.score >= settings.minScore)
+      .sort((a, b) => b.score - a.score);
+    addResults(results);
+  }
+
+  for (const term of terms) {
+    const options = { project, limit: RESULTS_PER_QUERY, mode: 'keyword' as const };
+    addResults([
+      ...(await vault.searchNotes(term, options)),
+      ...(await vault.searchKnowledge(term, options)),
+    ]);
+  }
+
+  const ranked = [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, settings.maxResults)
+    .map(entry => entry.result);
+
+  return formatPromptContext(ranked, settings.maxTokens);
+}
+
+/**
+ * Find file knowledge notes for a file mentioned in a prompt
+ */
+async function findFileNotes(
+  mention: string,
+  session: Session,
+  config: Config,
+  vault: VaultManager
+): Promise<SearchResult[]> {
+  // File notes are named after a hash of the absolute path the edit tool reported
+  const absolute = path.resolve(session.projectPath, mention);
+  const notePath = path.posix.join(
+    PROJECTS_FOLDER,
+    sanitizeProjectName(session.project),
+    'files',
+    `${hashFilePath(absolute)}.md`
+  );
+
+  if (fs.existsSync(path.join(vault.getMemPath(), notePath))) {
+    const { frontmatter, title } = await vault.readNote(notePath);
+    const lastEdited = frontmatter.last_edited instanceof Date
+      ? frontmatter.last_edited.toISOString()
+      : String(frontmatter.last_edited || '');
+    return [{
+      id: path.basename(notePath, '.md'),
+      title,
+      type: 'file',
+      path: path.posix.join(config.vault.memFolder, notePath),
+      snippet: `${frontmatter.file_path} - edited ${frontmatter.edit_count || 1} time(s), last ${lastEdited.split('T')[0]}`,
+      score: 1,
+      metadata: { project: session.project, tags: frontmatter.tags },
+    }];
+  }
+
+  // Fall back to notes titled with the file name (the prompt used a partial path)
+  const basename = path.basename(mention);
+  const results = await vault.searchNotes(basename, {
+    project: session.project,
+    type: 'file',
+    mode: 'keyword',
+    limit: 3,
+  });
+  return results.filter(r => r.title === basename);
+}
+
+/**
+ * Whether a search result is worth injecting
+ */
+function isRelevant(result: SearchResult): boolean {
+  // Skip category index notes (errors/errors.md etc.)
+  if (result.metadata.tags?.includes('index')) return false;
+  return result.type.startsWith('knowledge/') || RELEVANT_TYPES.has(result.type);
+}
+
+/**
+ * Format ranked results as a compact block within a token budget
+ */
+function formatPromptContext(
+  results: SearchResult[],
+  maxTokens: number
+): { context: string | null; notePaths: string[] } {
+  const lines = ['<!-- Relevant memory for this prompt -->', '## Relevant Memory'];
+  let used = estimateTokens(lines.join('\n'));
+  const notePaths: string[] = [];
+
+  for (const result of results) {
+    const date = result.metadata.date ? ` (${result.metadata.date.split('T')[0]})` : '';
+    const snippet = result.snippet.replace(/\s+/g, ' ').trim();
+    const entry = [
+      `- **[${result.type}] ${result.title}**${date} - \`${result.path}\``,
+      snippet ? `  ${truncate(snippet, SNIPPET_LENGTH)}` : '',
+    ].filter(Boolean).join('\n');
+
+    const cost = estimateTokens(entry) + 1;
+    if (used + cost > maxTokens) break;
+    lines.push(entry);
+    used += cost;
+    notePaths.push(result.path);
+  }
+
+  if (notePaths.length === 0) {
+    return { context: null, notePaths };
+  }
+
+  return { context: lines.join('\n'), notePaths };
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength - 3) + '...' : text;
+}
+
+function addUnique(list: string[], value: string): void {
+  if (!list.some(v => v.toLowerCase() === value.toLowerCase())) {
+    list.push(value);
+  }
+}
@@ -0,0 +1,655 @@
+/**
+ * Session Lifecycle
+ *
+ * Session start/end handling shared by the hooks and the worker service:
+ * starting sessions and building the injected context, recording prompts
+ * and finding relevant memory for them, persisting finished sessions to the
+ * vault and queueing background summarization.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { sanitizeProjectName } from '../shared/config.js';
+import { atomicWriteSync, withFileLock } from '../shared/file-lock.js';
+import { enqueueJob, nextPendingJobAt } from '../shared/job-queue.js';
+import {
+  startSession,
+  readSession,
+  addObservation,
+  endSession,
+  clearSessionFile,
+  getPreCompactKnowledge,
+  markBackgroundJobStarted,
+} from '../shared/session-store.js';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import { buildPromptContext } from './prompt-context.js';
+import { redactObservation } from '../shared/redaction.js';
+import { MemIgnore } from './memignore.js';
+import { estimateTokens, fitSections, type BudgetSection } from '../shared/token-budget.js';
+import {
+  getProjectInfo,
+  getRecentlyModifiedFiles,
+  getCommitsBetween,
+  generateObservationId,
+} from '../../hooks/scripts/utils/helpers.js';
+import type {
+  Config,
+  Observation,
+  PreCompactInput,
+  ProjectContext,
+  ProjectInfo,
+  Session,
+  SessionEndInput,
+  SessionStartInput,
+  TestRunData,
+  UserPromptSubmitInput,
+} from '../shared/types.js';
+
+const BACKGROUND_SCRIPT = path.join(__dirname, '../../hooks/scripts/background-summarize.ts');
+
+/**
+ * Start a session and build the memory context to inject for it
+ */
+export async function beginSession(
+  input: SessionStartInput,
+  config: Config,
+  vault: VaultManager
+): Promise<{ project: ProjectInfo; context: string | null }> {
+  // Get project info from git or directory
+  const project = await getProjectInfo(input.cwd, { workspaces: config.monorepo.enabled });
+
+  // A project merged into another (renamed repo, fork) continues under the canonical name
+  project.name = vault.resolveProjectName(project.name);
+
+  // Projects ignored in .memignore get no session, so nothing is recorded
+  if (MemIgnore.load(input.cwd).ignoresProject(project.name)) {
+    return { project, context: null };
+  }
+
+  // Initialize session in file store
+  startSession(input.session_id, project.name, input.cwd, {
+    branch: project.gitBranch,
+    commit: project.gitCommit,
+  }, project.workspaces);
+
+  // Ensure vault structure exists for this project
+  await vault.ensureProjectStructure(project.name);
+
+  // Resume jobs left pending by a runner that died (crash, sleep, reboot)
+  if (nextPendingJobAt() !== null) {
+    spawnJobRunner();
+  }
+
+  // If context injection is enabled, get relevant context from vault
+  let context: string | null = null;
+  if (config.contextInjection.enabled) {
+    try {
+      const projectContext = await vault.getProjectContext(project.name, {
+        includeRecentSessions: config.contextInjection.includeRecentSessions,
+        includeErrors: config.contextInjection.includeRelatedErrors,
+        includeDecisions: true,
+        includePatterns: config.contextInjection.includeProjectPatterns,
+        branch: project.gitBranch,
+        recentFiles: getRecentlyModifiedFiles(input.cwd),
+      });
+
+      // Only return context if there's anything useful
+      context = formatProjectContext(projectContext, config.contextInjection) || null;
+    } catch {
+      // Silently skip context injection on error
+    }
+  }
+
+  return { project, context };
+}
+
+/**
+ * Handle a submitted prompt: build the relevant-memory block for it and
+ * record the prompt as an observation
+ * @returns Whether the prompt was recorded, and the context to inject (if any)
+ */
+export async function submitUserPrompt(
+  input: UserPromptSubmitInput,
+  config: Config,
+  vault: VaultManager
+): Promise<{ recorded: boolean; context: string | null }> {
+  const session = getPromptSession(input);
+  if (!session) {
+    return { recorded: false, context: null };
+  }
+
+  const ignore = MemIgnore.load(input.cwd || session.projectPath);
+  if (ignore.ignoresProject(session.project)) {
+    return { recorded: false, context: null };
+  }
+
+  let context: string | null = null;
+  let notePaths: string[] = [];
+  if (config.contextInjection.enabled && config.contextInjection.promptContext.enabled) {
+    try {
+      // Don't repeat notes already injected for earlier prompts in this session
+      const alreadyInjected = session.observations.flatMap(obs =>
+        obs.tool === 'UserPrompt' ? ((obs.data as { injectedNotes?: string[] }).injectedNotes || []) : []
+      );
+      ({ context, notePaths } = await buildPromptContext(input.prompt, session, config, vault, alreadyInjected));
+    } catch {
+      // Silently skip context injection on error
+    }
+  }
+
+  // Lines mentioning ignored paths are not stored
+  const recorded = recordUserPrompt({ ...input, prompt: ignore.scrubText(input.prompt) }, config, notePaths);
+  return { recorded, context };
+}
+
+/**
+ * Record a user prompt as an observation
+ * @param injectedNotes - Notes injected as context for this prompt
+ * @returns false if the prompt was skipped
+ */
+function recordUserPrompt(input: UserPromptSubmitInput, config: Config, injectedNotes: string[] = []): boolean {
+  if (!getPromptSession(input)) {
+    return false;
+  }
+
+  // Create observation for the user prompt
+  const observation: Observation = {
+    id: generateObservationId(),
+    timestamp: new Date().toISOString(),
+    tool: 'UserPrompt',
+    type: 'other',
+    isError: false,
+    data: {
+      prompt: input.prompt.substring(0, 5000), // Truncate very long prompts
+      promptLength: input.prompt.length,
+      ...(injectedNotes.length > 0 ? { injectedNotes } : {}),
+    },
+  };
+
+  // Add to session observations
+  return addObservation(input.session_id, redactObservation(observation, config.redaction));
+}
+
+/**
+ * Get the active session a prompt belongs to
+ * @returns null if the prompt should be ignored
+ */
+function getPromptSession(input: UserPromptSubmitInput): Session | null {
+  // Validate session
+  if (!input.session_id || !input.prompt) {
+    return null;
+  }
+
+  const session = readSession(input.session_id);
+  if (!session || session.status !== 'active') {
+    return null;
+  }
+
+  // Skip very short prompts (likely just commands or acknowledgments)
+  if (input.prompt.trim().length < 20) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Queue background knowledge extraction before a compaction
+ * @returns false if summarization was skipped
+ */
+export function requestSummarization(input: PreCompactInput, config: Config): boolean {
+  // Skip if summarization is disabled
+  if (!config.summarization.enabled) {
+    return false;
+  }
+
+  // Validate session and transcript path
+  if (!input.session_id || !input.transcript_path) {
+    return false;
+  }
+
+  const session = readSession(input.session_id);
+  if (!session) {
+    return false;
+  }
+
+  // Mark that a background job is starting (so session-end knows to wait)
+  markBackgroundJobStarted(input.session_id);
+
+  enqueueSummarization({
+    transcript_path: input.transcript_path,
+    session_id: input.session_id,
+    project: session.project,
+    project_path: session.projectPath,
+    trigger: 'pre-compact',
+    mem_folder: config.vault.memFolder,
+  }, config);
+
+  return true;
+}
+
+/**
+ * End a session, persist it to the vault and queue background summarization
+ * @returns Path of the session note relative to the memory folder, or null if there was no session
+ */
+export async function finalizeSession(
+  input: SessionEndInput,
+  endType: 'stop' | 'end',
+  config: Config,
+  vault: VaultManager
+): Promise<string | null> {
+  // Validate session_id from input
+  if (!input.session_id) {
+    console.error('No session_id provided');
+    return null;
+  }
+
+  // Verify session exists and belongs to this session_id
+  const existingSession = readSession(input.session_id);
+  if (!existingSession) {
+    console.error(`Session not found: ${input.session_id}`);
+    return null;
+  }
+
+  // End the specific session by ID
+  const session = endSession(input.session_id, endType);
+  if (!session) {
+    return null;
+  }
+
+  // Commits made while the session was running
+  session.commits = getCommitsBetween(
+    session.projectPath,
+    session.startTime,
+    session.endTime || new Date().toISOString()
+  );
+
+  // Get pre-compact knowledge paths (captured before any compaction)
+  const preCompactPaths = getPreCompactKnowledge(input.session_id);
+
+  // Generate simple summary without AI (fast, synchronous)
+  session.summary = generateSimpleSummary(session, preCompactPaths.length);
+
+  // Persist session to vault immediately (no waiting for AI)
+  const sessionPath = await persistSession(session, config, vault, preCompactPaths);
+
+  // Link session to pre-compact knowledge items
+  if (preCompactPaths.length > 0 && sessionPath) {
+    try {
+      await vault.linkSessionToKnowledge(sessionPath, preCompactPaths);
+    } catch (error) {
+      console.error('Failed to link session to knowledge:', error);
+    }
+  }
+
+  // Queue AI summarization (if enabled and transcript available)
+  if (config.summarization.enabled && input.transcript_path) {
+    enqueueSummarization({
+      transcript_path: input.transcript_path,
+      session_id: input.session_id,
+      project: session.project,
+      project_path: session.projectPath,
+      session_path: sessionPath,
+      trigger: 'session-end',
+      mem_folder: config.vault.memFolder,
+    }, config);
+  }
+
+  // Clear the session file after successful persistence
+  clearSessionFile(input.session_id);
+
+  return sessionPath;
+}
+
+/**
+ * Persist a session that ended without the hooks (e.g. rebuilt from a transcript)
+ * @returns Path of the session note relative to the memory folder
+ */
+export async function persistEndedSession(session: Session, config: Config, vault: VaultManager): Promise<string> {
+  session.commits = getCommitsBetween(
+    session.projectPath,
+    session.startTime,
+    session.endTime || session.startTime
+  );
+  session.summary = generateSimpleSummary(session, 0);
+  return persistSession(session, config, vault);
+}
+
+/**
+ * Queue a summarization job and make sure a runner picks it up
+ */
+function enqueueSummarization(payload: { session_id: string } & Record<string, unknown>, config: Config): void {
+  // One session's jobs run one at a time, so each picks up where the last left off
+  enqueueJob('summarize', payload, config.jobs.maxAttempts, payload.session_id);
+  spawnJobRunner();
+}
+
+/**
+ * Spawn the background job runner (fire and forget)
+ */
+export function spawnJobRunner(): void {
+  spawn('bun', ['run', BACKGROUND_SCRIPT], {
+    detached: true,      // Run independently of parent
+    stdio: 'ignore',     // Don't block on I/O
+    cwd: path.dirname(BACKGROUND_SCRIPT),
+  }).unref();            // Allow caller to exit without waiting
+}
+
+/**
+ * Format project context for output
+ * Each section gets its share of the token budget (contextInjection.sectionBudgets)
+ * and keeps its highest-ranked entries that fit; nothing is cut mid-line.
+ */
+function formatProjectContext(
+  context: ProjectContext,
+  settings: Config['contextInjection']
+): string {
+  const header = `<!-- Memory context for ${context.project} -->`;
+  const budgets = settings.sectionBudgets;
+
+  const sections: BudgetSection[] = [
+    {
+      heading: '## Recent Sessions',
+      share: budgets.sessions,
+      entries: context.recentSessions.map(session =>
+        `- **${session.date.split('T')[0]}**: ${session.summary || 'No summary'}`
+      ),
+    },
+    {
+      heading: '## Known Issues',
+      share: budgets.errors,
+      entries: [
+        ...context.unresolvedErrors.map(error =>
+          `- **${error.type}**: ${error.message}` +
+          (error.occurrences && error.occurrences > 1 ? ` (seen ${error.occurrences}x)` : '')
+        ),
+        ...context.flakyTests.map(test =>
+          `- **Flaky test**: \`${test.name}\` (failed ${test.failures} of ${test.runs} runs)`
+        ),
+      ],
+    },
+    {
+      heading: '## Active Decisions',
+      share: budgets.decisions,
+      entries: context.activeDecisions.map(decision => `- **${decision.title}**: ${decision.decision}`),
+    },
+    {
+      heading: '## Frequently Edited Files',
+      share: budgets.files,
+      entries: context.relevantFiles.map(file => `- \`${file.path}\` (${file.editCount} edits)`),
+    },
+    {
+      heading: '## Patterns',
+      share: budgets.patterns,
+      entries: context.patterns.map(pattern => `- **${pattern.name}**: ${pattern.description}`),
+    },
+  ];
+
+  const kept = fitSections(sections, settings.maxTokens - estimateTokens(header));
+
+  const lines = [header];
+  sections.forEach((section, index) => {
+    if (kept[index].length > 0) {
+      lines.push(`\n${section.heading}`);
+      lines.push(...kept[index]);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate a simple summary without AI
+ */
+function generateSimpleSummary(session: Session, knowledgeCount: number): string {
+  const parts: string[] = [];
+
+  // Duration
+  if (session.durationMinutes && session.durationMinutes > 0) {
+    parts.push(`${session.durationMinutes} minute session`);
+  }
+
+  // Files
+  if (session.filesModified.length > 0) {
+    parts.push(`modified ${session.filesModified.length} files`);
+  }
+
+  // Commands
+  if (session.commandsRun > 0) {
+    parts.push(`ran ${session.commandsRun} commands`);
+  }
+
+  // Errors
+  if (session.errorsEncountered > 0) {
+    parts.push(`encountered ${session.errorsEncountered} errors`);
+  }
+
+  // Knowledge
+  if (knowledgeCount > 0) {
+    parts.push(`captured ${knowledgeCount} knowledge items`);
+  }
+
+  if (parts.length === 0) {
+    return 'Session completed.';
+  }
+
+  // Capitalize first part
+  parts[0] = parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
+
+  return parts.join(', ') + '.';
+}
+
+/**
+ * Persist session to vault as markdown
+ */
+async function persistSession(
+  session: Session,
+  config: Config,
+  vault: VaultManager,
+  knowledgePaths: string[] = []
+): Promise<string> {
+  const projectPath = path.join(
+    vault.getMemPath(),
+    'projects',
+    sanitizeProjectName(session.project),
+    'sessions'
+  );
+
+  if (!fs.existsSync(projectPath)) {
+    fs.mkdirSync(projectPath, { recursive: true });
+  }
+
+  const fileName = `${session.startTime.split('T')[0]}_${session.id.substring(0, 8)}.md`;
+  const filePath = path.join(projectPath, fileName);
+  const relativePath = `projects/${sanitizeProjectName(session.project)}/sessions/${fileName}`;
+
+  // Parent link to sessions category index (sessions/sessions.md)
+  const parentLink = `[[${config.vault.memFolder}/projects/${sanitizeProjectName(session.project)}/sessions/sessions]]`;
+
+  const knowledgeCount = knowledgePaths.length;
+  const redactedCount = session.observations.filter(obs => obs.redacted?.length).length;
+  const frontmatter = `---
+type: session
+title: "Session ${session.startTime.split('T')[0]}"
+project: ${session.project}
+created: ${session.startTime}
+updated: ${new Date().toISOString()}
+tags:
+  - session
+  - project/${sanitizeProjectName(session.project)}
+parent: "${parentLink}"
+session_id: ${session.id}
+${session.branch ? `branch: ${JSON.stringify(session.branch)}\n` : ''}${session.commit ? `commit: ${session.commit}\n` : ''}start_time: ${session.startTime}
+end_time: ${session.endTime || new Date().toISOString()}
+duration_minutes: ${session.durationMinutes || 0}
+status: ${session.status}
+observations_count: ${session.observations.length}
+files_modified: ${session.filesModified.length}
+commands_run: ${session.commandsRun}
+errors_encountered: ${session.errorsEncountered}
+knowledge_captured: ${knowledgeCount}
+${redactedCount > 0 ? `redacted_observations: ${redactedCount}\n` : ''}${formatCommitsFrontmatter(session)}---
+
+`;
+
+  const content = generateSessionContent(session);
+
+  // Background knowledge extraction may be linking into the same note
+  await withFileLock(filePath, () => atomicWriteSync(filePath, frontmatter + content));
+  vault.indexNotes([filePath]);
+
+  return relativePath;
+}
+
+/**
+ * Generate session note content
+ */
+function generateSessionContent(session: Session): string {
+  const lines: string[] = [];
+
+  lines.push(`# Session: ${session.startTime.split('T')[0]}`);
+  lines.push('');
+
+  // Summary section
+  lines.push('## Summary');
+  lines.push('');
+  if (session.summary) {
+    lines.push(session.summary);
+  } else {
+    lines.push('> [!note] Session completed');
+    lines.push(`> Duration: ${session.durationMinutes || 0} minutes`);
+    lines.push(`> Files modified: ${session.filesModified.length}`);
+    lines.push(`> Commands run: ${session.commandsRun}`);
+    lines.push(`> Errors: ${session.errorsEncountered}`);
+  }
+  lines.push('');
+
+  // User prompts section - what the user asked
+  const userPrompts = session.observations.filter(obs => obs.tool === 'UserPrompt');
+  if (userPrompts.length > 0) {
+    lines.push('## User Requests');
+    lines.push('');
+    for (const prompt of userPrompts.slice(0, 10)) {
+      const data = prompt.data as { prompt?: string };
+      const promptText = data.prompt || '';
+      const preview = promptText.length > 200 ? promptText.substring(0, 200) + '...' : promptText;
+      const time = prompt.timestamp.split('T')[1]?.substring(0, 5) || '';
+      lines.push(`### ${time}`);
+      lines.push('');
+      lines.push(`> ${preview.replace(/\n/g, '\n> ')}`);
+      lines.push('');
+    }
+    if (userPrompts.length > 10) {
+      lines.push(`_... and ${userPrompts.length - 10} more requests_`);
+      lines.push('');
+    }
+  }
+
+  // Key actions (excluding user prompts)
+  const toolActions = session.observations.filter(obs => obs.tool !== 'UserPrompt');
+  if (toolActions.length > 0) {
+    lines.push('## Actions Taken');
+    lines.push('');
+
+    // Group by type
+    const fileEdits = toolActions.filter(obs => obs.type === 'file_edit');
+    const commands = toolActions.filter(obs => obs.type === 'command');
+    const testRuns = toolActions.filter(obs => obs.type === 'test_run');
+    const errors = toolActions.filter(obs => obs.type === 'error' || obs.isError);
+    const other = toolActions.filter(obs =>
+      !['file_edit', 'command', 'test_run', 'error'].includes(obs.type) && !obs.isError
+    );
+
+    if (fileEdits.length > 0) {
+      lines.push(`**File Edits**: ${fileEdits.length}`);
+      for (const edit of fileEdits.slice(0, 5)) {
+        const data = edit.data as { path?: string; changeType?: string };
+        lines.push(`- \`${data.path}\` (${data.changeType || 'modified'})`);
+      }
+      if (fileEdits.length > 5) {
+        lines.push(`- _... and ${fileEdits.length - 5} more edits_`);
+      }
+      lines.push('');
+    }
+
+    if (commands.length > 0) {
+      lines.push(`**Commands Run**: ${commands.length}`);
+      for (const cmd of commands.slice(0, 5)) {
+        const data = cmd.data as { command?: string };
+        const cmdText = (data.command || '').substring(0, 60);
+        lines.push(`- \`${cmdText}${(data.command || '').length > 60 ? '...' : ''}\``);
+      }
+      if (commands.length > 5) {
+        lines.push(`- _... and ${commands.length - 5} more commands_`);
+      }
+      lines.push('');
+    }
+
+    if (testRuns.length > 0) {
+      lines.push(`**Test Runs**: ${testRuns.length}`);
+      for (const run of testRuns.slice(-5)) {
+        const data = run.data as TestRunData;
+        const skipped = data.skipped ? `, ${data.skipped} skipped` : '';
+        const failing = data.failedTests.length > 0 ? ` - failing: ${data.failedTests.slice(0, 3).join(', ')}` : '';
+        lines.push(`- \`${data.command.substring(0, 60)}\`: ${data.passed} passed, ${data.failed} failed${skipped}${failing}`);
+      }
+      lines.push('');
+    }
+
+    if (errors.length > 0) {
+      lines.push(`**Errors Encountered**: ${errors.length}`);
+      for (const err of errors.slice(0, 3)) {
+        const data = err.data as { message?: string; type?: string };
+        lines.push(`- ${data.type || 'Error'}: ${(data.message || '').substring(0, 100)}`);
+      }
+      if (errors.length > 3) {
+        lines.push(`- _... and ${errors.length - 3} more errors_`);
+      }
+      lines.push('');
+    }
+
+    if (other.length > 0) {
+      lines.push(`**Other Actions**: ${other.length}`);
+      for (const action of other.slice(0, 3)) {
+        lines.push(`- ${action.tool}`);
+      }
+      lines.push('');
+    }
+  }
+
+  // Files modified (full list)
+  if (session.filesModified.length > 0) {
+    lines.push('## Files Modified');
+    lines.push('');
+    for (const file of session.filesModified.slice(0, 20)) {
+      lines.push(`- \`${file}\``);
+    }
+    if (session.filesModified.length > 20) {
+      lines.push(`- _... and ${session.filesModified.length - 20} more files_`);
+    }
+    lines.push('');
+  }
+
+  // Commits made during the session
+  if (session.commits && session.commits.length > 0) {
+    lines.push('## Commits');
+    lines.push('');
+    for (const commit of session.commits) {
+      lines.push(`- \`${commit.hash.substring(0, 7)}\` ${commit.message}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Frontmatter lines listing the full hashes of the session's commits
+ */
+function formatCommitsFrontmatter(session: Session): string {
+  if (!session.commits || session.commits.length === 0) {
+    return '';
+  }
+  return `commits:\n${session.commits.map(c => `  - "${c.hash}"\n`).join('')}`;
+}
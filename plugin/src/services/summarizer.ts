@@ -2,11 +2,11 @@
  * Summarization service for knowledge capture
  *
  * Key principle: Never store raw content, always summarize and extract key points
- * Uses Claude Agent SDK to leverage Claude Code's existing subscription
+ * Prompts run through the configured LLM provider (see llm-provider.ts)
  */
 
-import { query } from '@anthropic-ai/claude-agent-sdk';
 import { loadConfig } from '../shared/config.js';
+import { runQuery, extractJson } from './llm-provider.js';
 
 export interface SummarizedContent {
   title: string;
@@ -26,53 +26,6 @@ export interface KnowledgeItem {
   sourceSession?: string;
 }
 
-/**
- * Run a query using Claude Agent SDK
- * Uses Claude Code's existing authentication - no API key needed
- */
-async function runQuery(prompt: string): Promise<string | null> {
-  const config = loadConfig();
-
-  if (!config.summarization.enabled) {
-    return null;
-  }
-
-  try {
-    const result = query({
-      prompt,
-      options: {
-        model: config.summarization.model,
-        maxTurns: 1,
-        tools: [], // Explicitly disable tools - read-only summarization
-      }
-    });
-
-    // Collect the result from the async generator
-    for await (const message of result) {
-      if (message.type === 'result' && message.subtype === 'success') {
-        return message.result;
-      }
-    }
-    return null;
-  } catch (error) {
-    console.error('Agent SDK query failed:', error);
-    return null;
-  }
-}
-
-/**
- * Extract JSON from a response that might contain markdown code blocks
- */
-function extractJson(text: string): string {
-  // Try to extract JSON from markdown code block
-  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (jsonMatch) {
-    return jsonMatch[1].trim();
-  }
-  // Otherwise assume the whole response is JSON
-  return text.trim();
-}
-
 /**
  * Summarize general content
  */
@@ -0,0 +1,197 @@
+/**
+ * Test Tracker
+ *
+ * Keeps a note per failing test under `projects/<project>/tests/` with the
+ * test's recent results. A test is only known after it fails once; from then
+ * on, each run of a command it failed under records a pass or a failure. A
+ * test whose results keep flipping between pass and fail across sessions is
+ * flagged `flaky` and shown with the project's known issues.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { sanitizeProjectName } from '../shared/config.js';
+import { atomicWriteSync, withFileLock } from '../shared/file-lock.js';
+import { parseFrontmatter, stringifyFrontmatter } from '../mcp-server/utils/frontmatter.js';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import type { Config, NoteFrontmatter, Observation, Session, TestRunData } from '../shared/types.js';
+
+/** Results kept per test */
+const MAX_HISTORY = 20;
+
+/** Recent results considered when deciding whether a test is flaky */
+const FLAKY_WINDOW = 10;
+
+/** Pass/fail flips within the window that make a test flaky */
+const FLAKY_MIN_FLIPS = 2;
+
+interface TestResult {
+  date: string;
+  session: string;
+  result: 'pass' | 'fail';
+}
+
+/**
+ * Record the outcome of a test run on the project's test notes
+ */
+export async function recordTestRun(
+  observation: Observation,
+  session: Session,
+  config: Config,
+  vault: VaultManager
+): Promise<void> {
+  const data = observation.data as TestRunData;
+  const command = data.command.trim();
+  const project = observation.project || session.project;
+  const testsDir = path.join(vault.getMemPath(), 'projects', sanitizeProjectName(project), 'tests');
+
+  if (!fs.existsSync(testsDir)) {
+    fs.mkdirSync(testsDir, { recursive: true });
+  }
+
+  const written: string[] = [];
+  const failed = new Set(data.failedTests);
+
+  for (const name of failed) {
+    const filePath = path.join(testsDir, `${hashTestName(data.runner, name)}.md`);
+    await withFileLock(filePath, () => {
+      const { frontmatter, history } = fs.existsSync(filePath)
+        ? readTestNote(filePath)
+        : { frontmatter: newTestFrontmatter(name, data.runner, project, config), history: [] };
+
+      writeTestNote(filePath, frontmatter, history, {
+        date: observation.timestamp,
+        session: session.id,
+        result: 'fail',
+      }, command);
+    });
+    written.push(filePath);
+  }
+
+  // Known tests that this command runs and that didn't fail this time passed
+  // (only if tests actually ran - a build failure says nothing about them)
+  if (data.passed > 0) {
+    for (const file of fs.readdirSync(testsDir)) {
+      const filePath = path.join(testsDir, file);
+      if (!file.endsWith('.md') || written.includes(filePath)) continue;
+
+      try {
+        const passed = await withFileLock(filePath, () => {
+          const { frontmatter, history } = readTestNote(filePath);
+          if (frontmatter.tags.includes('index') || !toList(frontmatter.commands).includes(command)) return false;
+
+          writeTestNote(filePath, frontmatter, history, {
+            date: observation.timestamp,
+            session: session.id,
+            result: 'pass',
+          }, command);
+          return true;
+        });
+        if (passed) written.push(filePath);
+      } catch (error) {
+        console.error(`Failed to update test note: ${filePath}`, error);
+      }
+    }
+  }
+
+  vault.indexNotes(written);
+}
+
+/**
+ * Whether recent results flip between pass and fail often enough, across
+ * more than one session, to call the test flaky
+ */
+export function isFlaky(history: TestResult[]): boolean {
+  const recent = history.slice(-FLAKY_WINDOW);
+  let flips = 0;
+  for (let i = 1; i < recent.length; i++) {
+    if (recent[i].result !== recent[i - 1].result) flips++;
+  }
+  return flips >= FLAKY_MIN_FLIPS && new Set(recent.map(r => r.session)).size > 1;
+}
+
+function newTestFrontmatter(name: string, runner: string, project: string, config: Config): NoteFrontmatter {
+  const now = new Date().toISOString();
+  const sanitized = sanitizeProjectName(project);
+  return {
+    type: 'test',
+    title: `Test: ${name}`,
+    project,
+    created: now,
+    updated: now,
+    tags: ['test', `project/${sanitized}`],
+    parent: `[[${config.vault.memFolder}/projects/${sanitized}/tests/tests]]`,
+    test_name: name,
+    runner,
+    commands: [],
+  };
+}
+
+function readTestNote(filePath: string): { frontmatter: NoteFrontmatter; history: TestResult[] } {
+  const { frontmatter } = parseFrontmatter(fs.readFileSync(filePath, 'utf-8'));
+  const history = Array.isArray(frontmatter.history)
+    ? (frontmatter.history as TestResult[]).map(entry => ({
+      ...entry,
+      // Unquoted YAML timestamps come back as Dates
+      date: (entry.date as unknown) instanceof Date ? (entry.date as unknown as Date).toISOString() : String(entry.date),
+    }))
+    : [];
+  return { frontmatter, history };
+}
+
+function writeTestNote(
+  filePath: string,
+  frontmatter: NoteFrontmatter,
+  history: TestResult[],
+  result: TestResult,
+  command: string
+): void {
+  const updated = [...history, result].slice(-MAX_HISTORY);
+  const failures = updated.filter(r => r.result === 'fail');
+  const commands = toList(frontmatter.commands);
+
+  const next: NoteFrontmatter = {
+    ...frontmatter,
+    commands: commands.includes(command) ? commands : [...commands, command],
+    runs: Number(frontmatter.runs || 0) + 1,
+    failures: Number(frontmatter.failures || 0) + (result.result === 'fail' ? 1 : 0),
+    last_failed: result.result === 'fail' ? result.date : frontmatter.last_failed,
+    last_passed: result.result === 'pass' ? result.date : frontmatter.last_passed,
+    flaky: isFlaky(updated),
+    history: updated,
+  };
+
+  const rows = [...updated]
+    .reverse()
+    .map(r => `| ${r.date.split('T')[0]} | ${r.session.substring(0, 8)} | ${r.result === 'fail' ? 'Failed' : 'Passed'} |`);
+
+  const content = `# ${next.title}
+
+${next.flaky ? '> [!warning] Flaky\n> Recent results alternate between passing and failing.\n\n' : ''}**Runner**: ${next.runner}
+**Failed**: ${failures.length} of the last ${updated.length} runs
+
+## Commands
+
+${(next.commands as string[]).map(c => `- \`${c}\``).join('\n')}
+
+## Recent Results
+
+| Date | Session | Result |
+|------|---------|--------|
+${rows.join('\n')}
+`;
+
+  atomicWriteSync(filePath, stringifyFrontmatter(next, content));
+}
+
+/**
+ * Hash a test's runner and name for note naming
+ */
+function hashTestName(runner: string, name: string): string {
+  return crypto.createHash('md5').update(`${runner}:${name}`).digest('hex').substring(0, 12);
+}
+
+function toList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
@@ -0,0 +1,288 @@
+/**
+ * Transcript Import
+ *
+ * Backfills session notes from Claude Code transcripts recorded before the
+ * plugin was installed (~/.claude/projects/{project}/{session}.jsonl). Each
+ * transcript is rebuilt into a Session - project from its working directory,
+ * start/end from message timestamps, file edits and commands from tool_use
+ * blocks - and persisted like a session that ended normally. Sessions that
+ * already have a note are skipped, so imports can be re-run.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readSession } from '../shared/session-store.js';
+import { enqueueJob } from '../shared/job-queue.js';
+import { redactObservation } from '../shared/redaction.js';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import { parseTranscript, type ParsedConversation } from './transcript.js';
+import { persistEndedSession, spawnJobRunner } from './session-lifecycle.js';
+import { MemIgnore } from './memignore.js';
+import { evaluateCapture, toCaptureCandidate } from './capture-rules.js';
+import {
+  getProjectInfo,
+  generateObservationId,
+  extractFileInfo,
+  extractCommandInfo,
+} from '../../hooks/scripts/utils/helpers.js';
+import type { Config, Observation, Session } from '../shared/types.js';
+
+export interface TranscriptImport {
+  transcriptPath: string;
+  sessionId: string;
+  project?: string;
+  startTime?: string;
+  /** Whether a session note was (or, in a dry run, would be) written */
+  imported: boolean;
+  /** Why the transcript was skipped */
+  reason?: string;
+  /** Session note, relative to the memory folder */
+  sessionPath?: string;
+  /** Knowledge extraction was queued for the session */
+  queued?: boolean;
+}
+
+/**
+ * Where Claude Code keeps its transcripts
+ */
+export function getDefaultTranscriptsDir(): string {
+  return path.join(os.homedir(), '.claude', 'projects');
+}
+
+/**
+ * Find session transcripts under a directory (or a single .jsonl file),
+ * leaving out subagent transcripts
+ */
+export function findTranscripts(root: string): string[] {
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+  if (fs.statSync(root).isFile()) {
+    return root.endsWith('.jsonl') ? [root] : [];
+  }
+
+  const found: string[] = [];
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    const entryPath = path.join(root, entry.name);
+    if (entry.isDirectory() && entry.name !== 'subagents') {
+      found.push(...findTranscripts(entryPath));
+    } else if (entry.isFile() && entry.name.endsWith('.jsonl') && !entry.name.startsWith('agent-')) {
+      found.push(entryPath);
+    }
+  }
+  return found.sort();
+}
+
+/**
+ * Import transcripts as session notes
+ * @param options.extract - Also queue background knowledge extraction for imported sessions
+ */
+export async function importTranscripts(
+  transcriptPaths: string[],
+  config: Config,
+  vault: VaultManager,
+  options: { dryRun?: boolean; extract?: boolean } = {}
+): Promise<TranscriptImport[]> {
+  const results: TranscriptImport[] = [];
+  let queued = false;
+
+  for (const transcriptPath of transcriptPaths) {
+    const result = await importTranscript(transcriptPath, config, vault, options);
+    queued ||= result.queued === true;
+    results.push(result);
+  }
+
+  if (queued) {
+    spawnJobRunner();
+  }
+  return results;
+}
+
+async function importTranscript(
+  transcriptPath: string,
+  config: Config,
+  vault: VaultManager,
+  options: { dryRun?: boolean; extract?: boolean }
+): Promise<TranscriptImport> {
+  const conversation = parseTranscript(transcriptPath);
+  const sessionId = conversation.sessionId || path.basename(transcriptPath, '.jsonl');
+  const result: TranscriptImport = { transcriptPath, sessionId, imported: false };
+
+  if (conversation.turns.length === 0) {
+    return { ...result, reason: 'no conversation turns' };
+  }
+  if (!conversation.cwd) {
+    return { ...result, reason: 'no working directory recorded' };
+  }
+  if (readSession(sessionId)) {
+    return { ...result, reason: 'session is still being recorded' };
+  }
+
+  const project = vault.resolveProjectName((await getProjectInfo(conversation.cwd)).name);
+  result.project = project;
+
+  const ignore = MemIgnore.load(conversation.cwd);
+  if (ignore.ignoresProject(project)) {
+    return { ...result, reason: 'project is ignored in .memignore' };
+  }
+
+  const existing = findSessionNote(vault, sessionId);
+  if (existing) {
+    return { ...result, reason: 'already imported', sessionPath: existing };
+  }
+
+  const session = buildSession(conversation, sessionId, project, transcriptPath, config, ignore);
+  result.startTime = session.startTime;
+
+  if (options.dryRun) {
+    return { ...result, imported: true };
+  }
+
+  await vault.ensureProjectStructure(project);
+  const sessionPath = await persistEndedSession(session, config, vault);
+
+  if (options.extract && config.summarization.enabled) {
+    enqueueJob('summarize', {
+      transcript_path: transcriptPath,
+      session_id: sessionId,
+      project,
+      project_path: conversation.cwd,
+      session_path: sessionPath,
+      trigger: 'session-end',
+      mem_folder: config.vault.memFolder,
+    }, config.jobs.maxAttempts, sessionId);
+    result.queued = true;
+  }
+
+  return { ...result, imported: true, sessionPath };
+}
+
+/**
+ * Rebuild a session from a parsed transcript, keeping only what live
+ * capture would have recorded (.memignore, capture rules)
+ */
+function buildSession(
+  conversation: ParsedConversation,
+  sessionId: string,
+  project: string,
+  transcriptPath: string,
+  config: Config,
+  ignore: MemIgnore
+): Session {
+  const projectPath = conversation.cwd || path.dirname(transcriptPath);
+
+  const timestamps = conversation.turns
+    .map(turn => turn.timestamp)
+    .filter((t): t is string => !!t && !isNaN(Date.parse(t)))
+    .sort();
+  const startTime = timestamps[0] || fs.statSync(transcriptPath).mtime.toISOString();
+  const endTime = timestamps[timestamps.length - 1] || startTime;
+
+  const observations: Observation[] = [];
+  for (const turn of conversation.turns) {
+    const base = {
+      timestamp: turn.timestamp || startTime,
+      type: 'other' as Observation['type'],
+      isError: false,
+      data: {},
+    };
+
+    // Prompts the user typed (not command output or system reminders)
+    if (turn.role === 'user' && turn.text && !turn.text.startsWith('<')) {
+      const prompt = ignore.scrubText(turn.text);
+      observations.push({
+        ...base,
+        id: generateObservationId(),
+        tool: 'UserPrompt',
+        data: { prompt: prompt.substring(0, 5000), promptLength: prompt.length },
+      });
+    }
+
+    for (const call of turn.toolCalls || []) {
+      const response = { content: [{ type: 'text', text: call.output || '' }], isError: call.isError };
+
+      // The same filters as processToolUse
+      const candidate = toCaptureCandidate(
+        { session_id: sessionId, cwd: projectPath, tool_name: call.name, tool_input: call.input, tool_response: response },
+        { project, projectPath }
+      );
+      if (
+        (candidate.filePath && ignore.ignoresPath(candidate.filePath)) ||
+        (candidate.command && ignore.mentionsIgnoredPath(candidate.command)) ||
+        !evaluateCapture(candidate, config.capture).capture
+      ) {
+        continue;
+      }
+
+      if (call.name === 'Write' || call.name === 'Edit' || call.name === 'MultiEdit') {
+        observations.push({
+          ...base,
+          id: generateObservationId(),
+          tool: call.name,
+          type: 'file_edit',
+          isError: call.isError || false,
+          data: extractFileInfo(call.input, response),
+        });
+      } else if (call.name === 'Bash') {
+        const { isError, ...data } = extractCommandInfo(call.input, response, config.capture.bashOutput);
+        observations.push({
+          ...base,
+          id: generateObservationId(),
+          tool: call.name,
+          type: 'command',
+          isError,
+          data,
+        });
+      }
+    }
+  }
+
+  const redacted = observations.map(obs => redactObservation(obs, config.redaction));
+  const filesModified = new Set<string>();
+  for (const obs of redacted) {
+    if (obs.type === 'file_edit') filesModified.add((obs.data as { path: string }).path);
+  }
+
+  return {
+    id: sessionId,
+    project,
+    projectPath,
+    startTime,
+    endTime,
+    durationMinutes: Math.round((Date.parse(endTime) - Date.parse(startTime)) / 60000),
+    status: 'completed',
+    branch: conversation.gitBranch,
+    observations: redacted,
+    filesModified: Array.from(filesModified),
+    commandsRun: redacted.filter(obs => obs.type === 'command').length,
+    errorsEncountered: redacted.filter(obs => obs.isError).length,
+  };
+}
+
+/**
+ * Find the note of a session in any project
+ * @returns Path relative to the memory folder, or null if there is none
+ */
+function findSessionNote(vault: VaultManager, sessionId: string): string | null {
+  const projectsDir = path.join(vault.getMemPath(), 'projects');
+  if (!fs.existsSync(projectsDir)) {
+    return null;
+  }
+
+  // Session notes are named {date}_{first 8 chars of the id}.md
+  const suffix = `_${sessionId.substring(0, 8)}.md`;
+  for (const project of fs.readdirSync(projectsDir)) {
+    const sessionsDir = path.join(projectsDir, project, 'sessions');
+    if (!fs.existsSync(sessionsDir)) continue;
+
+    for (const file of fs.readdirSync(sessionsDir)) {
+      if (!file.endsWith(suffix)) continue;
+      const content = fs.readFileSync(path.join(sessionsDir, file), 'utf-8');
+      if (content.includes(`\nsession_id: ${sessionId}\n`)) {
+        return `projects/${project}/sessions/${file}`;
+      }
+    }
+  }
+  return null;
+}
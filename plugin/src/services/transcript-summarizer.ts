@@ -0,0 +1,262 @@
+/**
+ * Transcript Summarizer
+ *
+ * Extracts knowledge notes from a session transcript with the configured LLM
+ * provider (`claude -p` unless `summarization.provider` says otherwise). Runs
+ * as a "summarize" job of the background job queue, covering only the part of
+ * the transcript added since the session's last successful run.
+ */
+
+import * as fs from 'fs';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import {
+  parseTranscript,
+  extractQAPairs,
+  extractWebResearch,
+  readTranscriptCursor,
+  writeTranscriptCursor,
+} from './transcript.js';
+import { updatePreCompactKnowledge } from '../shared/session-store.js';
+import { MemIgnore } from './memignore.js';
+import { redactText } from '../shared/redaction.js';
+import { createLLMProvider, extractJson, type LLMProvider } from './llm-provider.js';
+import type { Config } from '../shared/types.js';
+
+export interface SummarizeInput {
+  transcript_path: string;
+  session_id: string;
+  project: string;
+  project_path?: string; // Project directory (for .memignore)
+  trigger: 'pre-compact' | 'session-end';
+  mem_folder: string;
+  session_path?: string; // Path to session note (for session-end trigger)
+}
+
+interface KnowledgeResult {
+  type: 'qa' | 'explanation' | 'decision' | 'research' | 'learning';
+  title: string;
+  context: string;
+  summary: string;
+  keyPoints: string[];
+  topics: string[];
+}
+
+/**
+ * Summarize a transcript into knowledge notes
+ * @returns What was done (or why nothing was)
+ * @throws When the transcript is missing, the provider fails or a note can't be written, so the job is retried
+ */
+export async function summarizeTranscript(
+  input: SummarizeInput,
+  config: Config,
+  vault: VaultManager,
+  log: (message: string) => void = () => {}
+): Promise<string> {
+  const ignore = MemIgnore.load(input.project_path);
+  if (ignore.ignoresProject(input.project)) {
+    return `Project ${input.project} is ignored in .memignore, skipping`;
+  }
+
+  // Check if transcript exists
+  if (!fs.existsSync(input.transcript_path)) {
+    throw new Error(`Transcript not found: ${input.transcript_path}`);
+  }
+
+  // Parse only what was added since the last successful run (earlier compactions)
+  const from = readTranscriptCursor(input.session_id) || undefined;
+  const conversation = parseTranscript(input.transcript_path, from);
+  const advanceCursor = () => {
+    if (conversation.cursor) writeTranscriptCursor(input.session_id, conversation.cursor);
+  };
+
+  if (conversation.turns.length === 0) {
+    advanceCursor();
+    return from ? 'No new conversation turns since the last run' : 'No conversation turns found';
+  }
+
+  log(`Parsed ${conversation.turns.length} ${from ? 'new ' : ''}conversation turns`);
+
+  // Build context for AI summarization
+  const qaPairs = extractQAPairs(conversation);
+  const research = extractWebResearch(conversation);
+
+  log(`Found ${qaPairs.length} Q&A pairs, ${research.length} research items`);
+
+  // Build context - will use conversation fallback if no Q&A or research
+  // Lines mentioning paths ignored in .memignore never reach the summarizer, and neither do secrets
+  const { text: contextText, redacted } = redactText(
+    ignore.scrubText(buildContextForSummarization(qaPairs, research, conversation)),
+    config.redaction
+  );
+  if (redacted.length > 0) {
+    log(`Redacted secrets before summarization: ${redacted.join(', ')}`);
+  }
+
+  // Skip if context is too short for meaningful summarization
+  // (the cursor stays put, so these turns are included in the next run)
+  if (contextText.length < 500) {
+    return 'Context too short for meaningful summarization, skipping';
+  }
+
+  // The Agent SDK would deadlock in a process started from a hook, so the CLI is the default here
+  const provider = createLLMProvider(config.summarization, 'claude-cli');
+  log(`Calling ${provider.id} for AI summarization...`);
+  const knowledgeItems = await extractKnowledgeItems(contextText, input.project, provider);
+
+  if (knowledgeItems.length === 0) {
+    advanceCursor();
+    return 'Nothing worth remembering was found';
+  }
+
+  log(`AI extracted ${knowledgeItems.length} knowledge items`);
+
+  const knowledgePaths: string[] = [];
+  let folded = 0;
+  let failed = 0;
+  for (const item of knowledgeItems) {
+    try {
+      // Use writeKnowledge() which properly routes to project folders
+      const result = await vault.writeKnowledge(
+        {
+          type: item.type,
+          title: item.title,
+          context: item.context,
+          content: item.summary,
+          keyPoints: item.keyPoints,
+          topics: item.topics,
+          sourceSession: input.session_id,
+        },
+        input.project
+      );
+      knowledgePaths.push(result.path);
+      if (result.action === 'created') {
+        log(`Written knowledge note: ${result.path}`);
+      } else if (result.action === 'superseded') {
+        log(`Written knowledge note: ${result.path} (supersedes ${result.similarTo!.path})`);
+      } else {
+        folded++;
+        log(`Knowledge ${result.action} into similar note: ${result.path} (similarity ${result.similarTo!.score.toFixed(2)})`);
+      }
+    } catch (error) {
+      failed++;
+      log(`ERROR writing knowledge note: ${error}`);
+    }
+  }
+
+  // Retry the whole run: the cursor stays put, and notes already written are
+  // matched by deduplication instead of being written twice
+  if (failed > 0) {
+    throw new Error(`Failed to write ${failed} of ${knowledgeItems.length} knowledge notes`);
+  }
+
+  // Store paths or update session note depending on trigger
+  if (knowledgePaths.length > 0) {
+    if (input.trigger === 'pre-compact') {
+      // For pre-compact: store paths in session file for session-end to link later
+      updatePreCompactKnowledge(input.session_id, knowledgePaths);
+      log(`Stored ${knowledgePaths.length} knowledge paths in session`);
+    } else if (input.trigger === 'session-end' && input.session_path) {
+      // For session-end: update the session note directly with knowledge links
+      try {
+        await vault.linkSessionToKnowledge(input.session_path, knowledgePaths);
+        log(`Linked ${knowledgePaths.length} knowledge items to session note`);
+      } catch (error) {
+        log(`ERROR linking knowledge to session: ${error}`);
+      }
+    }
+  }
+
+  advanceCursor();
+  return `${knowledgePaths.length} knowledge notes written` +
+    (folded > 0 ? `, ${folded} of them into similar existing notes` : '');
+}
+
+/**
+ * Build context text for AI summarization
+ */
+function buildContextForSummarization(
+  qaPairs: Array<{ question: string; answer: string }>,
+  research: Array<{ tool: string; query?: string; url?: string; content: string }>,
+  conversation: { turns: Array<{ role: string; text: string }> }
+): string {
+  const sections: string[] = [];
+
+  // Add Q&A pairs
+  if (qaPairs.length > 0) {
+    sections.push('## Q&A Exchanges\n');
+    for (const qa of qaPairs.slice(0, 10)) {
+      sections.push(`Q: ${qa.question.substring(0, 500)}`);
+      sections.push(`A: ${qa.answer.substring(0, 1000)}\n`);
+    }
+  }
+
+  // Add research
+  if (research.length > 0) {
+    sections.push('## Web Research\n');
+    for (const r of research.slice(0, 5)) {
+      sections.push(`Source: ${r.url || r.tool}`);
+      sections.push(`Query: ${r.query || 'N/A'}`);
+      sections.push(`Content: ${r.content.substring(0, 500)}\n`);
+    }
+  }
+
+  // Add conversation summary if no structured content
+  if (sections.length === 0) {
+    sections.push('## Conversation\n');
+    for (const turn of conversation.turns.slice(0, 20)) {
+      const prefix = turn.role === 'user' ? 'User' : 'Assistant';
+      sections.push(`${prefix}: ${turn.text.substring(0, 500)}\n`);
+    }
+  }
+
+  return sections.join('\n').substring(0, 25000);
+}
+
+/**
+ * Ask the provider for knowledge items
+ * @throws If the provider fails or returns something other than a JSON array
+ */
+async function extractKnowledgeItems(
+  contextText: string,
+  project: string,
+  provider: LLMProvider
+): Promise<KnowledgeResult[]> {
+  const prompt = `You are analyzing a coding session conversation to extract valuable knowledge for future reference.
+
+Project: ${project}
+
+${contextText}
+
+Extract knowledge items from this conversation. Focus on:
+1. **qa** - Questions asked and answers provided
+2. **explanation** - Concepts or approaches explained
+3. **decision** - Technical choices made with rationale
+4. **research** - Information gathered from web/docs
+5. **learning** - Tips, patterns, gotchas discovered
+
+For each item, provide:
+- type: one of qa, explanation, decision, research, learning
+- title: concise title (5-10 words)
+- context: when this knowledge is useful (1 sentence)
+- summary: key information (max 100 words)
+- keyPoints: array of actionable points (2-5 items)
+- topics: array of relevant topic tags (2-5 items)
+
+Return a JSON array. Only include genuinely useful items worth remembering.
+If nothing significant to extract, return an empty array [].
+
+Respond with ONLY valid JSON, no markdown code blocks, no explanation.`;
+
+  const response = await provider.complete(prompt);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(response));
+  } catch (error) {
+    throw new Error(`Failed to parse ${provider.id} output: ${error}\nOutput: ${response.substring(0, 500)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Unexpected response format: ${typeof parsed}`);
+  }
+  return parsed as KnowledgeResult[];
+}
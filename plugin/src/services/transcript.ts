@@ -1,10 +1,20 @@
 /**
  * Transcript parser service
  *
- * Parses Claude Code JSONL transcript files to extract conversation content
+ * Parses Claude Code JSONL transcript files to extract conversation content.
+ * Cursors stored per session (transcript-cursors/ in the config directory)
+ * let background summarization parse only what was added since its last run.
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDir } from '../shared/config.js';
+import { atomicWriteSync } from '../shared/file-lock.js';
+
+const CURSORS_DIR = 'transcript-cursors';
+
+// Cursors of sessions not summarized for this long are removed
+const CURSOR_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
 /**
  * Message content block types
@@ -47,6 +57,8 @@ interface TranscriptMessage {
   timestamp?: string;
   uuid?: string;
   sessionId?: string;
+  cwd?: string;
+  gitBranch?: string;
 }
 
 interface TranscriptSummary {
@@ -78,21 +90,40 @@ export interface ConversationTurn {
 export interface ParsedConversation {
   turns: ConversationTurn[];
   summary?: string;
+  /** Where the next incremental parse should start */
+  cursor?: TranscriptCursor;
+  /** Session details recorded on the first message that has them */
+  sessionId?: string;
+  cwd?: string;
+  gitBranch?: string;
+}
+
+/**
+ * Position in a transcript after the last processed entry
+ */
+export interface TranscriptCursor {
+  /** Byte offset just past the last processed line */
+  offset: number;
+  /** uuid of the last processed message, to find the position again if the file was rewritten */
+  lastUuid?: string;
 }
 
 /**
  * Read and parse a transcript file
+ * @param from - Only parse entries after this cursor (incremental processing).
+ *   The returned `cursor` points past the last complete entry, so a line still
+ *   being written is picked up by the next call.
  */
-export function parseTranscript(transcriptPath: string): ParsedConversation {
+export function parseTranscript(transcriptPath: string, from?: TranscriptCursor): ParsedConversation {
   if (!fs.existsSync(transcriptPath)) {
-    return { turns: [] };
+    return { turns: [], cursor: from || { offset: 0 } };
   }
 
-  const content = fs.readFileSync(transcriptPath, 'utf-8');
-  const lines = content.split('\n').filter(line => line.trim());
+  const { lines, cursor } = readTranscriptLines(transcriptPath, from);
 
   const turns: ConversationTurn[] = [];
   let summary: string | undefined;
+  const details: Pick<ParsedConversation, 'sessionId' | 'cwd' | 'gitBranch'> = {};
 
   // Map to store tool results by tool_use_id
   const toolResults = new Map<string, { content: string; isError: boolean }>();
@@ -149,6 +180,10 @@ export function parseTranscript(transcriptPath: string): ParsedConversation {
       }
 
       const msg = entry as TranscriptMessage;
+      details.sessionId ??= msg.sessionId;
+      details.cwd ??= msg.cwd;
+      details.gitBranch ??= msg.gitBranch || undefined;
+
       const contentArray = Array.isArray(msg.message.content)
         ? msg.message.content
         : typeof msg.message.content === 'string'
@@ -194,7 +229,117 @@ export function parseTranscript(transcriptPath: string): ParsedConversation {
     }
   }
 
-  return { turns, summary };
+  return { turns, summary, cursor, ...details };
+}
+
+/**
+ * Read the complete lines after a cursor
+ * Falls back to the cursor's uuid when the file is shorter than its offset
+ * (rewritten or replaced), and to the whole file when the uuid isn't found.
+ */
+function readTranscriptLines(
+  transcriptPath: string,
+  from?: TranscriptCursor
+): { lines: string[]; cursor: TranscriptCursor } {
+  const size = fs.statSync(transcriptPath).size;
+  const start = from && from.offset <= size ? from.offset : 0;
+
+  const buffer = Buffer.alloc(size - start);
+  const fd = fs.openSync(transcriptPath, 'r');
+  try {
+    fs.readSync(fd, buffer, 0, buffer.length, start);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  // Stop after the last newline unless the trailing line is already complete JSON
+  let end = buffer.lastIndexOf(0x0a) + 1;
+  const tail = buffer.subarray(end).toString('utf-8');
+  if (tail.trim() && isJson(tail)) {
+    end = buffer.length;
+  }
+
+  let lines = buffer.subarray(0, end).toString('utf-8').split('\n').filter(line => line.trim());
+
+  if (from && start === 0 && from.offset > 0 && from.lastUuid) {
+    const index = lines.findIndex(line => entryUuid(line) === from.lastUuid);
+    lines = lines.slice(index + 1);
+  }
+
+  let lastUuid = from?.lastUuid;
+  for (const line of lines) {
+    lastUuid = entryUuid(line) || lastUuid;
+  }
+
+  return { lines, cursor: { offset: start + end, lastUuid } };
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function entryUuid(line: string): string | undefined {
+  try {
+    const uuid = (JSON.parse(line) as { uuid?: unknown }).uuid;
+    return typeof uuid === 'string' ? uuid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getCursorPath(sessionId: string): string {
+  if (!/^[\w-]+$/.test(sessionId)) {
+    throw new Error(`Invalid session id: ${sessionId}`);
+  }
+  return path.join(getConfigDir(), CURSORS_DIR, `${sessionId}.json`);
+}
+
+/**
+ * Get the position up to which a session's transcript has been summarized
+ * @returns null if nothing was summarized yet
+ */
+export function readTranscriptCursor(sessionId: string): TranscriptCursor | null {
+  try {
+    return JSON.parse(fs.readFileSync(getCursorPath(sessionId), 'utf-8')) as TranscriptCursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the position up to which a session's transcript has been summarized
+ */
+export function writeTranscriptCursor(sessionId: string, cursor: TranscriptCursor): void {
+  atomicWriteSync(getCursorPath(sessionId), JSON.stringify(cursor), { mode: 0o600 });
+}
+
+/**
+ * Delete cursors of sessions that haven't been summarized for a long time
+ */
+export function pruneTranscriptCursors(maxAgeMs: number = CURSOR_TTL_MS): number {
+  const dir = path.join(getConfigDir(), CURSORS_DIR);
+  if (!fs.existsSync(dir)) {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const file of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, file);
+    try {
+      if (Date.now() - fs.statSync(filePath).mtimeMs > maxAgeMs) {
+        fs.unlinkSync(filePath);
+        removed++;
+      }
+    } catch {
+      // Removed concurrently
+    }
+  }
+  return removed;
 }
 
 /**
@@ -0,0 +1,246 @@
+/**
+ * Monorepo Workspaces
+ *
+ * Detects the packages of a monorepo from package.json `workspaces`,
+ * pnpm-workspace.yaml, a Cargo `[workspace]` and go.work, so observations
+ * and notes can be attributed to the package a file belongs to. Each package
+ * becomes sub-project `<project>/<package>`, linked to its parent project.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from '../shared/glob.js';
+import type { Workspace } from '../shared/types.js';
+
+/** Packages tracked per repository */
+const MAX_WORKSPACES = 200;
+
+/** How deep `**` in a workspace pattern descends */
+const MAX_GLOB_DEPTH = 4;
+
+const SKIPPED_DIRS = new Set(['node_modules', '.git', 'target', 'dist', 'build', 'vendor']);
+
+/**
+ * Find the workspace packages declared at a repository root
+ * @returns Packages sorted by path; empty if the directory isn't a monorepo
+ */
+export function detectWorkspaces(root: string): Workspace[] {
+  const found = new Map<string, Workspace>();
+  const add = (dir: string, name: string | null) => {
+    if (dir !== root && !found.has(dir)) {
+      found.set(dir, { name: name || path.basename(dir), path: dir });
+    }
+  };
+
+  try {
+    for (const dir of expandPatterns(root, readNpmWorkspaces(root), 'package.json')) {
+      add(dir, readJsonName(path.join(dir, 'package.json')));
+    }
+
+    for (const dir of expandPatterns(root, readCargoMembers(root), 'Cargo.toml')) {
+      add(dir, readCargoName(path.join(dir, 'Cargo.toml')));
+    }
+
+    for (const dir of readGoWorkUses(root)) {
+      if (fs.existsSync(path.join(dir, 'go.mod'))) {
+        add(dir, readGoModuleName(path.join(dir, 'go.mod')));
+      }
+    }
+  } catch {
+    // Unreadable manifests - treat as a single project
+  }
+
+  return [...found.values()]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .slice(0, MAX_WORKSPACES);
+}
+
+/**
+ * Sub-project name for a workspace package
+ */
+export function subProjectName(project: string, workspace: Workspace): string {
+  return `${project}/${workspace.name}`;
+}
+
+/**
+ * The package containing a file or directory (the most deeply nested one)
+ */
+export function findWorkspace(workspaces: Workspace[] | undefined, target: string): Workspace | null {
+  if (!workspaces || !target) return null;
+
+  let best: Workspace | null = null;
+  for (const workspace of workspaces) {
+    const relative = path.relative(workspace.path, target);
+    const inside = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    if (inside && (!best || workspace.path.length > best.path.length)) {
+      best = workspace;
+    }
+  }
+  return best;
+}
+
+/**
+ * package.json `workspaces` (array or `{ packages }`) and pnpm-workspace.yaml `packages`
+ */
+function readNpmWorkspaces(root: string): string[] {
+  const patterns: string[] = [];
+
+  const pkg = readJson(path.join(root, 'package.json'));
+  const workspaces = pkg?.workspaces as string[] | { packages?: string[] } | undefined;
+  if (Array.isArray(workspaces)) {
+    patterns.push(...workspaces);
+  } else if (workspaces && Array.isArray(workspaces.packages)) {
+    patterns.push(...workspaces.packages);
+  }
+
+  const pnpmPath = path.join(root, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmPath)) {
+    let inPackages = false;
+    for (const line of fs.readFileSync(pnpmPath, 'utf-8').split('\n')) {
+      if (/^packages:\s*$/.test(line)) {
+        inPackages = true;
+      } else if (inPackages && /^\s*-\s*/.test(line)) {
+        patterns.push(unquote(line.replace(/^\s*-\s*/, '').replace(/\s+#.*$/, '')));
+      } else if (inPackages && /^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  }
+
+  return patterns.filter(Boolean);
+}
+
+/**
+ * Cargo.toml `[workspace] members = [...]`
+ */
+function readCargoMembers(root: string): string[] {
+  const cargoPath = path.join(root, 'Cargo.toml');
+  if (!fs.existsSync(cargoPath)) return [];
+
+  const workspace = fs.readFileSync(cargoPath, 'utf-8').match(/^\[workspace\]([\s\S]*?)(?=^\[|(?![\s\S]))/m);
+  const members = workspace?.[1].match(/^members\s*=\s*\[([\s\S]*?)\]/m);
+  const excluded = workspace?.[1].match(/^exclude\s*=\s*\[([\s\S]*?)\]/m);
+
+  return [
+    ...quotedStrings(members?.[1] || ''),
+    ...quotedStrings(excluded?.[1] || '').map(pattern => `!${pattern}`),
+  ];
+}
+
+/**
+ * go.work `use ./dir` and `use ( ./a ./b )`
+ */
+function readGoWorkUses(root: string): string[] {
+  const goWorkPath = path.join(root, 'go.work');
+  if (!fs.existsSync(goWorkPath)) return [];
+
+  const content = fs.readFileSync(goWorkPath, 'utf-8').replace(/\/\/.*$/gm, '');
+  const dirs: string[] = [];
+  for (const block of content.matchAll(/^use\s*\(([\s\S]*?)\)/gm)) {
+    dirs.push(...block[1].split('\n').map(line => line.trim()).filter(Boolean));
+  }
+  for (const single of content.matchAll(/^use\s+([^\s(]+)\s*$/gm)) {
+    dirs.push(single[1]);
+  }
+
+  return dirs.map(dir => path.resolve(root, unquote(dir)));
+}
+
+/**
+ * Expand workspace patterns (`packages/*`, `apps/**`, `!packages/legacy`)
+ * to the directories that contain the given manifest
+ */
+function expandPatterns(root: string, patterns: string[], manifest: string): string[] {
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+
+  for (const raw of patterns) {
+    const negate = raw.startsWith('!');
+    const pattern = (negate ? raw.substring(1) : raw).replace(/^\.\//, '').replace(/\/+$/, '');
+    const target = negate ? excluded : included;
+    for (const dir of expandPattern(root, pattern.split('/'), 0)) {
+      target.add(dir);
+    }
+  }
+
+  return [...included].filter(dir => !excluded.has(dir) && fs.existsSync(path.join(dir, manifest)));
+}
+
+function expandPattern(dir: string, segments: string[], depth: number): string[] {
+  if (segments.length === 0) return [dir];
+
+  const [segment, ...rest] = segments;
+
+  if (segment === '**') {
+    if (depth >= MAX_GLOB_DEPTH) return expandPattern(dir, rest, depth);
+    return [
+      ...expandPattern(dir, rest, depth),
+      ...listDirs(dir).flatMap(sub => expandPattern(sub, segments, depth + 1)),
+    ];
+  }
+
+  if (/[*?]/.test(segment)) {
+    const regex = globToRegExp(segment);
+    return listDirs(dir)
+      .filter(sub => regex.test(path.basename(sub)))
+      .flatMap(sub => expandPattern(sub, rest, depth + 1));
+  }
+
+  const next = path.join(dir, segment);
+  return fs.existsSync(next) ? expandPattern(next, rest, depth + 1) : [];
+}
+
+function listDirs(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !SKIPPED_DIRS.has(entry.name) && !entry.name.startsWith('.'))
+      .map(entry => path.join(dir, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+function readJson(filePath: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Package name without its npm scope ("@acme/web" -> "web")
+ */
+function readJsonName(filePath: string): string | null {
+  const name = readJson(filePath)?.name;
+  return typeof name === 'string' && name ? name.replace(/^@[^/]+\//, '') : null;
+}
+
+function readCargoName(filePath: string): string | null {
+  try {
+    const pkg = fs.readFileSync(filePath, 'utf-8').match(/^\[package\]([\s\S]*?)(?=^\[|(?![\s\S]))/m);
+    return pkg?.[1].match(/^name\s*=\s*"([^"]+)"/m)?.[1] || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Last element of the module path ("github.com/acme/api" -> "api")
+ */
+function readGoModuleName(filePath: string): string | null {
+  try {
+    const modulePath = fs.readFileSync(filePath, 'utf-8').match(/^module\s+(\S+)/m)?.[1];
+    return modulePath ? modulePath.split('/').pop() || null : null;
+  } catch {
+    return null;
+  }
+}
+
+function quotedStrings(text: string): string[] {
+  return [...text.matchAll(/["']([^"']+)["']/g)].map(match => match[1]);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, '');
+}
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import type { Config, TechKBConfig, TechKBCategory } from './types.js';
+import { DEFAULT_WORKER_PORT } from './constants.js';
 
 /**
  * Default TechKB category mappings
@@ -105,6 +106,7 @@ const DEFAULT_CONFIG: Config = {
     },
     errors: true,
     decisions: true,
+    rules: [],
   },
   summarization: {
     enabled: true,
@@ -118,6 +120,53 @@ const DEFAULT_CONFIG: Config = {
     includeRecentSessions: 3,
     includeRelatedErrors: true,
     includeProjectPatterns: true,
+    sectionBudgets: {
+      sessions: 0.3,
+      errors: 0.3,
+      decisions: 0.2,
+      files: 0.1,
+      patterns: 0.1,
+    },
+    promptContext: {
+      enabled: true,
+      maxTokens: 800,
+      maxResults: 5,
+      minScore: 0.2,
+    },
+  },
+  search: {
+    defaultMode: 'keyword',
+    hybridWeight: 0.5,
+    embedder: {
+      provider: 'hashed',
+      dimensions: 512,
+    },
+  },
+  monorepo: {
+    enabled: false,
+  },
+  redaction: {
+    enabled: true,
+    patterns: [],
+  },
+  worker: {
+    enabled: true,
+    port: DEFAULT_WORKER_PORT,
+    autoStart: true,
+    idleTimeoutMinutes: 60,
+  },
+  jobs: {
+    concurrency: 1,
+    maxAttempts: 3,
+    retryDelaySeconds: 60,
+  },
+  knowledge: {
+    dedup: {
+      enabled: true,
+      duplicateThreshold: 0.85,
+      mergeThreshold: 0.55,
+      supersedeTypes: ['decision'],
+    },
   },
   // TechKB is disabled by default - users opt-in
   techkb: undefined,
@@ -139,6 +188,8 @@ export const DEFAULT_TECHKB_CONFIG: TechKBConfig = {
 };
 
 let cachedConfig: Config | null = null;
+// Config file version (mtime and size) the cached config was read from
+let cachedConfigVersion: string | null = null;
 
 /**
  * Get the path to the config file
@@ -154,15 +205,30 @@ export function getConfigDir(): string {
   return path.dirname(getConfigPath());
 }
 
+/**
+ * Version of the config file, changing whenever it is edited
+ */
+function getConfigVersion(configPath: string): string {
+  try {
+    const stat = fs.statSync(configPath);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return 'missing';
+  }
+}
+
 /**
  * Load configuration from file, merging with defaults
+ * The result is cached until the file changes, so long-running processes
+ * (worker, MCP servers) pick up edits without a restart
  */
 export function loadConfig(): Config {
-  if (cachedConfig) {
+  const configPath = getConfigPath();
+  const version = getConfigVersion(configPath);
+  if (cachedConfig && cachedConfigVersion === version) {
     return cachedConfig;
   }
-
-  const configPath = getConfigPath();
+  cachedConfigVersion = version;
 
   if (!fs.existsSync(configPath)) {
     // Return defaults if no config file exists
@@ -198,6 +264,7 @@ export function saveConfig(config: Config): void {
 
   fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
   cachedConfig = config;
+  cachedConfigVersion = getConfigVersion(configPath);
 }
 
 /**
@@ -247,7 +314,46 @@ function deepMerge(target: Config, source: Partial<Config>): Config {
     result.summarization = { ...result.summarization, ...source.summarization };
   }
   if (source.contextInjection) {
-    result.contextInjection = { ...result.contextInjection, ...source.contextInjection };
+    result.contextInjection = {
+      ...result.contextInjection,
+      ...source.contextInjection,
+      sectionBudgets: source.contextInjection.sectionBudgets
+        ? { ...result.contextInjection.sectionBudgets, ...source.contextInjection.sectionBudgets }
+        : result.contextInjection.sectionBudgets,
+      promptContext: source.contextInjection.promptContext
+        ? { ...result.contextInjection.promptContext, ...source.contextInjection.promptContext }
+        : result.contextInjection.promptContext,
+    };
+  }
+  if (source.search) {
+    result.search = {
+      ...result.search,
+      ...source.search,
+      embedder: source.search.embedder
+        ? { ...result.search.embedder, ...source.search.embedder }
+        : result.search.embedder,
+    };
+  }
+  if (source.monorepo) {
+    result.monorepo = { ...result.monorepo, ...source.monorepo };
+  }
+  if (source.redaction) {
+    result.redaction = { ...result.redaction, ...source.redaction };
+  }
+  if (source.worker) {
+    result.worker = { ...result.worker, ...source.worker };
+  }
+  if (source.jobs) {
+    result.jobs = { ...result.jobs, ...source.jobs };
+  }
+  if (source.knowledge) {
+    result.knowledge = {
+      ...result.knowledge,
+      ...source.knowledge,
+      dedup: source.knowledge.dedup
+        ? { ...result.knowledge.dedup, ...source.knowledge.dedup }
+        : result.knowledge.dedup,
+    };
   }
   if (source.techkb) {
     // Merge TechKB config with defaults if user has enabled it
@@ -273,6 +379,7 @@ function deepMerge(target: Config, source: Partial<Config>): Config {
  */
 export function clearConfigCache(): void {
   cachedConfig = null;
+  cachedConfigVersion = null;
 }
 
 /**
@@ -11,6 +11,7 @@ export const MEM_FOLDER_NAME = '_claude-mem';
 export const TEMPLATES_FOLDER = 'templates';
 export const PROJECTS_FOLDER = 'projects';
 export const GLOBAL_FOLDER = 'global';
+export const INDEX_FOLDER = '.index';
 
 /**
  * Note types
@@ -112,6 +113,7 @@ export const WORKER_ENDPOINTS = {
   sessionCurrent: '/session/current',
   sessionSummarize: '/session/summarize',
   observationCapture: '/observation/capture',
+  promptCapture: '/observation/prompt',
   contextProject: '/context/project',
   searchSemantic: '/search/semantic',
 } as const;
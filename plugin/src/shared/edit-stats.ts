@@ -0,0 +1,216 @@
+/**
+ * Edit Statistics
+ *
+ * Line counts and touched symbols for Write/Edit/MultiEdit tool calls,
+ * computed from the tool input (old_string/new_string, the edits array or
+ * the full content). Symbols are the functions, classes and types declared
+ * in the changed text plus the declaration enclosing the edit in the file.
+ */
+
+import * as fs from 'fs';
+
+export interface EditStats {
+  linesAdded: number;
+  /** Undefined when a file is overwritten - its previous content isn't known */
+  linesRemoved?: number;
+  symbols: string[];
+}
+
+/** Above this many line pairs the diff falls back to counting whole blocks */
+const MAX_DIFF_CELLS = 250_000;
+
+/** Files larger than this aren't read to find the enclosing symbol */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+const MAX_SYMBOLS = 5;
+
+const JS_PATTERNS = [
+  /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*(\w+)/,
+  /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)/,
+  /^\s*(?:export\s+)?(?:declare\s+)?(?:interface|type|enum)\s+(\w+)/,
+  /^\s*(?:export\s+)?(?:const|let|var)\s+(\w+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|\w+\s*=>)/,
+  /^\s*(?:(?:public|private|protected|static|readonly|async|override|get|set)\s+)*(\w+)\s*(?:<[^>]*>)?\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$/,
+];
+
+const C_FAMILY_PATTERNS = [
+  /^\s*(?:(?:public|private|protected|internal|static|final|abstract|override|virtual|async|sealed)\s+)*(?:class|interface|enum|struct|record)\s+(\w+)/,
+  /^\s*(?:(?:public|private|protected|internal|static|final|abstract|override|virtual|async|synchronized)\s+)+[\w<>[\],\s]+?\s(\w+)\s*\([^)]*\)\s*(?:throws\s+[\w.,\s]+)?\{?\s*$/,
+];
+
+const DECLARATION_PATTERNS: Record<string, RegExp[]> = {
+  typescript: JS_PATTERNS,
+  javascript: JS_PATTERNS,
+  vue: JS_PATTERNS,
+  svelte: JS_PATTERNS,
+  python: [/^\s*(?:async\s+)?def\s+(\w+)/, /^\s*class\s+(\w+)/],
+  ruby: [/^\s*def\s+(?:self\.)?(\w+[?!]?)/, /^\s*(?:class|module)\s+(\w+)/],
+  go: [/^func\s+(?:\([^)]*\)\s*)?(\w+)/, /^type\s+(\w+)/],
+  rust: [
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(\w+)/,
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait)\s+(\w+)/,
+    /^\s*impl(?:<[^>]*>)?\s+(?:\w+\s+for\s+)?(\w+)/,
+  ],
+  java: C_FAMILY_PATTERNS,
+  csharp: C_FAMILY_PATTERNS,
+  kotlin: [/^\s*(?:\w+\s+)*fun\s+(?:<[^>]*>\s*)?(?:\w+\.)?(\w+)/, /^\s*(?:\w+\s+)*(?:class|interface|object)\s+(\w+)/],
+  swift: [/^\s*(?:\w+\s+)*func\s+(\w+)/, /^\s*(?:\w+\s+)*(?:class|struct|enum|protocol|extension)\s+(\w+)/],
+  php: [/^\s*(?:\w+\s+)*function\s+(\w+)/, /^\s*(?:\w+\s+)*(?:class|interface|trait)\s+(\w+)/],
+  bash: [/^\s*(?:function\s+)?(\w+)\s*\(\)\s*\{?/],
+};
+
+/** Words that look like method names to the patterns above */
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'else', 'do', 'try', 'with', 'new']);
+
+/**
+ * Compute line stats and touched symbols for a file-edit tool call
+ * @param input - Tool input (file_path plus old_string/new_string, edits or content)
+ * @param language - Language of the file (see LANGUAGE_MAP)
+ * @param created - Whether the tool created the file
+ */
+export function computeEditStats(input: Record<string, unknown>, language: string, created: boolean): EditStats {
+  const filePath = typeof input.file_path === 'string' ? input.file_path : undefined;
+  const patterns = DECLARATION_PATTERNS[language] || [];
+
+  // Write: the full new content
+  if (typeof input.content === 'string') {
+    const lines = splitLines(input.content).length;
+    return {
+      linesAdded: lines,
+      linesRemoved: created ? 0 : undefined,
+      symbols: findDeclarations(input.content, patterns).slice(0, MAX_SYMBOLS),
+    };
+  }
+
+  // Edit: one replacement; MultiEdit: several
+  const edits = Array.isArray(input.edits) ? input.edits as Array<Record<string, unknown>> : [input];
+  const fileContent = filePath ? readSmallFile(filePath) : null;
+
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  const symbols: string[] = [];
+
+  for (const edit of edits) {
+    const before = typeof edit.old_string === 'string' ? edit.old_string : '';
+    const after = typeof edit.new_string === 'string' ? edit.new_string : '';
+    const changes = countLineChanges(before, after);
+    linesAdded += changes.added;
+    linesRemoved += changes.removed;
+
+    const enclosing = fileContent !== null && after ? findEnclosingSymbol(fileContent, after, patterns) : null;
+    if (enclosing) symbols.push(enclosing);
+    symbols.push(...findDeclarations(after, patterns), ...findDeclarations(before, patterns));
+  }
+
+  return { linesAdded, linesRemoved, symbols: [...new Set(symbols)].slice(0, MAX_SYMBOLS) };
+}
+
+/**
+ * Count added and removed lines between two texts (line-based LCS)
+ */
+export function countLineChanges(before: string, after: string): { added: number; removed: number } {
+  let a = splitLines(before);
+  let b = splitLines(after);
+
+  // Trim the common prefix and suffix - most edits change a few lines in the middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  a = a.slice(start, a.length - end);
+  b = b.slice(start, b.length - end);
+
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_DIFF_CELLS) {
+    return { added: b.length, removed: a.length };
+  }
+
+  const common = longestCommonSubsequence(a, b);
+  return { added: b.length - common, removed: a.length - common };
+}
+
+/**
+ * One-line description of an edit for a file note's edit history
+ */
+export function formatEditSummary(changeType: string, stats: EditStats): string {
+  const lines = stats.linesRemoved === undefined
+    ? `rewrite, ${stats.linesAdded} lines`
+    : `${changeType} +${stats.linesAdded}/-${stats.linesRemoved}`;
+  const symbols = stats.symbols.length > 0 ? `: ${stats.symbols.map(s => `\`${s}\``).join(', ')}` : '';
+  return lines + symbols;
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  let previous = new Uint32Array(b.length + 1);
+  let current = new Uint32Array(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+function findDeclarations(text: string, patterns: RegExp[]): string[] {
+  const names: string[] = [];
+  for (const line of text.split('\n')) {
+    const name = matchDeclaration(line, patterns);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * The nearest declaration above the edit that is indented less than it
+ */
+function findEnclosingSymbol(content: string, newText: string, patterns: RegExp[]): string | null {
+  if (patterns.length === 0) return null;
+
+  const index = content.indexOf(newText);
+  if (index === -1) return null;
+
+  const lines = content.split('\n');
+  const editLine = content.substring(0, index).split('\n').length - 1;
+
+  // Indentation of the first non-blank line of the edit
+  const firstLine = lines.slice(editLine).find(line => line.trim()) || '';
+  const editIndent = indentation(firstLine);
+  if (editIndent === 0) return null;
+
+  for (let i = editLine; i >= 0; i--) {
+    const line = lines[i];
+    if (!line.trim() || indentation(line) >= editIndent) continue;
+    const name = matchDeclaration(line, patterns);
+    if (name) return name;
+  }
+  return null;
+}
+
+function matchDeclaration(line: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const name = line.match(pattern)?.[1];
+    if (name && !KEYWORDS.has(name)) return name;
+  }
+  return null;
+}
+
+function indentation(line: string): number {
+  return (line.match(/^[ \t]*/) || [''])[0].replace(/\t/g, '  ').length;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+function readSmallFile(filePath: string): string | null {
+  try {
+    if (fs.statSync(filePath).size > MAX_FILE_SIZE) return null;
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
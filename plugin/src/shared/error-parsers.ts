@@ -0,0 +1,327 @@
+/**
+ * Error Parsers
+ *
+ * Turns raw tool output into a structured error. Each parser recognizes one
+ * tool's output format (tsc, eslint, bun/jest, pytest, cargo, go, Node stack
+ * traces); the first that matches wins and generic patterns are the fallback.
+ * `fingerprintError` hashes the parts that identify an error, with line
+ * numbers, absolute paths, hex addresses and timestamps normalized away, so
+ * recurrences land on the same error note.
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { ErrorData } from './types.js';
+
+/**
+ * An error extracted from tool output
+ */
+export interface ParsedError {
+  type: string;
+  message: string;
+  /** Error code, lint rule or failing test (TS2322, E0308, no-unused-vars, test_login) */
+  code?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+  /** Name of the parser that produced it */
+  parser: string;
+}
+
+export interface ErrorParser {
+  name: string;
+  /** @returns null if the output isn't in this parser's format */
+  parse(output: string): Omit<ParsedError, 'parser'> | null;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_STACK_FRAMES = 10;
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const STACK_FRAME = /^\s+at\s+(?:.+?\s+\()?(.+?):(\d+):(\d+)\)?\s*$/;
+
+/**
+ * TypeScript compiler: "src/a.ts(12,5): error TS2322: ..." or "src/a.ts:12:5 - error TS2322: ..."
+ */
+const tscParser: ErrorParser = {
+  name: 'tsc',
+  parse(output) {
+    const match = output.match(/^(.+?)(?:\((\d+),(\d+)\)|:(\d+):(\d+))\s*[:-]\s*error\s+(TS\d+):\s*(.+)$/m);
+    if (!match) return null;
+    return {
+      type: 'TypeScriptError',
+      code: match[6],
+      message: match[7],
+      file: match[1].trim(),
+      line: parseInt(match[2] || match[4], 10),
+      column: parseInt(match[3] || match[5], 10),
+    };
+  },
+};
+
+/**
+ * Cargo / rustc: "error[E0308]: mismatched types" followed by " --> src/main.rs:4:18"
+ */
+const cargoParser: ErrorParser = {
+  name: 'cargo',
+  parse(output) {
+    const match = output.match(/^error(?:\[(E\d+)\])?:\s*(.+)\n\s*-->\s*(.+?):(\d+):(\d+)/m);
+    if (!match) return null;
+    return {
+      type: 'RustError',
+      code: match[1],
+      message: match[2],
+      file: match[3],
+      line: parseInt(match[4], 10),
+      column: parseInt(match[5], 10),
+    };
+  },
+};
+
+/**
+ * ESLint stylish output: a file path line, then "  12:5  error  message  rule"
+ */
+const eslintParser: ErrorParser = {
+  name: 'eslint',
+  parse(output) {
+    let file: string | undefined;
+    for (const line of output.split('\n')) {
+      if (/^\S.*\.[cm]?[jt]sx?$/.test(line)) {
+        file = line.trim();
+        continue;
+      }
+      const match = line.match(/^\s+(\d+):(\d+)\s+error\s+(.+?)\s{2,}(\S+)\s*$/);
+      if (match && file) {
+        return {
+          type: 'ESLintError',
+          code: match[4],
+          message: match[3],
+          file,
+          line: parseInt(match[1], 10),
+          column: parseInt(match[2], 10),
+        };
+      }
+    }
+    return null;
+  },
+};
+
+/**
+ * pytest summary: "FAILED tests/test_api.py::test_login - AssertionError: assert 401 == 200"
+ */
+const pytestParser: ErrorParser = {
+  name: 'pytest',
+  parse(output) {
+    const match = output.match(/^(?:FAILED|ERROR)\s+(\S+\.py)(?:::(\S+))?(?:\s+-\s+(.+))?$/m);
+    if (!match) return null;
+
+    const [, file, test, summary] = match;
+    const exception = (summary || output.match(/^E\s+(.+)$/m)?.[1] || '').match(/^([\w.]*(?:Error|Exception)):\s*(.*)$/);
+    const lineMatch = output.match(new RegExp(`^${escapeRegExp(file)}:(\\d+):`, 'm'));
+
+    return {
+      type: exception ? exception[1] : 'TestFailure',
+      code: test,
+      message: exception ? exception[2] : summary || `${test || file} failed`,
+      file,
+      line: lineMatch ? parseInt(lineMatch[1], 10) : undefined,
+    };
+  },
+};
+
+/**
+ * go test ("--- FAIL: TestLogin" then "    login_test.go:25: ...") and go build ("./main.go:12:5: ...")
+ */
+const goParser: ErrorParser = {
+  name: 'go',
+  parse(output) {
+    const testMatch = output.match(/^--- FAIL:\s+(\S+)/m);
+    if (testMatch) {
+      const detail = output.match(/^\s+(\S+_test\.go):(\d+):\s*(.+)$/m);
+      return {
+        type: 'GoTestFailure',
+        code: testMatch[1],
+        message: detail ? detail[3] : `${testMatch[1]} failed`,
+        file: detail?.[1],
+        line: detail ? parseInt(detail[2], 10) : undefined,
+      };
+    }
+
+    const buildMatch = output.match(/^(?:\.\/)?(\S+\.go):(\d+):(\d+):\s*(.+)$/m);
+    if (!buildMatch) return null;
+    return {
+      type: 'GoBuildError',
+      message: buildMatch[4],
+      file: buildMatch[1],
+      line: parseInt(buildMatch[2], 10),
+      column: parseInt(buildMatch[3], 10),
+    };
+  },
+};
+
+/**
+ * bun test ("(fail) Suite > test") and jest ("● Suite › test") failures
+ */
+const testRunnerParser: ErrorParser = {
+  name: 'bun-jest',
+  parse(output) {
+    const test = output.match(/^\(fail\)\s+(.+?)(?:\s+\[[\d.]+m?s\])?\s*$/m)?.[1] || output.match(/^\s*●\s+(.+?)\s*$/m)?.[1];
+    if (!test) return null;
+
+    const expectation = output.match(/^\s*(?:error:\s*)?(expect\(.+?)(?:\s+\/\/.*)?$/m);
+    const thrown = output.match(/^\s*(?:error:\s*)?(\w*Error):\s*(.+)$/m);
+    const frame = findStackFrames(output)[0];
+
+    return {
+      type: thrown && !expectation ? thrown[1] : 'TestFailure',
+      code: test,
+      message: expectation ? expectation[1] : thrown ? thrown[2] : `${test} failed`,
+      file: frame?.file,
+      line: frame?.line,
+      column: frame?.column,
+    };
+  },
+};
+
+/**
+ * Node.js uncaught errors: "TypeError: ..." followed by "    at fn (/app/src/x.js:10:15)"
+ */
+const nodeParser: ErrorParser = {
+  name: 'node',
+  parse(output) {
+    const header = output.match(/^(?:Uncaught\s+)?([\w.]*(?:Error|Exception)):\s*(.+)$/m);
+    if (!header) return null;
+
+    const frames = findStackFrames(output.substring(header.index || 0));
+    if (frames.length === 0) return null;
+
+    const frame = frames.find(f => !f.file.startsWith('node:') && !f.file.includes('node_modules')) || frames[0];
+    return {
+      type: header[1],
+      message: header[2],
+      file: frame.file,
+      line: frame.line,
+      column: frame.column,
+      stack: frames.slice(0, MAX_STACK_FRAMES).map(f => f.raw).join('\n'),
+    };
+  },
+};
+
+/**
+ * Built-in parsers, most specific first
+ */
+export const ERROR_PARSERS: ErrorParser[] = [
+  tscParser,
+  cargoParser,
+  eslintParser,
+  pytestParser,
+  goParser,
+  testRunnerParser,
+  nodeParser,
+];
+
+/**
+ * Extract a structured error from tool output
+ */
+export function parseErrorOutput(output: string, parsers: ErrorParser[] = ERROR_PARSERS): ParsedError {
+  const clean = output.replace(ANSI_PATTERN, '');
+
+  for (const parser of parsers) {
+    try {
+      const parsed = parser.parse(clean);
+      if (parsed) {
+        return { ...parsed, message: parsed.message.trim().substring(0, MAX_MESSAGE_LENGTH), parser: parser.name };
+      }
+    } catch {
+      // A broken parser shouldn't stop the others
+    }
+  }
+
+  return { ...parseGeneric(clean), parser: 'generic' };
+}
+
+/**
+ * Stable identity of an error: type, code, message and file with volatile
+ * details (line numbers, absolute paths, addresses, timestamps) normalized
+ *
+ * @param projectPath - Project directory; files inside it are hashed relative to it
+ */
+export function fingerprintError(error: ErrorData, projectPath?: string): string {
+  let file = error.file || '';
+  if (file && projectPath && path.isAbsolute(file)) {
+    const relative = path.relative(projectPath, file);
+    if (!relative.startsWith('..')) file = relative;
+  }
+
+  const key = [
+    error.type || '',
+    error.code || '',
+    normalizeErrorText(error.message || ''),
+    normalizeErrorText(file.replace(/\\/g, '/')),
+  ].join(':');
+
+  return crypto.createHash('md5').update(key).digest('hex').substring(0, 12);
+}
+
+/**
+ * Remove details that change between occurrences of the same error
+ */
+export function normalizeErrorText(text: string): string {
+  return text
+    .replace(ANSI_PATTERN, '')
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<time>')
+    .replace(/\b\d{2}:\d{2}:\d{2}(?:\.\d+)?\b/g, '<time>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    // Absolute paths keep only their last segment (temp dirs, home dirs, checkouts differ)
+    .replace(/(?<![\w.~-])(?:[A-Za-z]:)?(?:[\\/][\w.@~+-]+)+/g, match => match.split(/[\\/]/).pop() || match)
+    .replace(/\(\d+,\d+\)/g, '(<n>)')
+    .replace(/:\d+(?::\d+)?\b/g, ':<n>')
+    .replace(/\bline \d+/gi, 'line <n>')
+    .replace(/\b\d+(?:\.\d+)?\s?m?s\b/g, '<duration>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Fallback for output no parser recognizes
+ */
+function parseGeneric(output: string): Omit<ParsedError, 'parser'> {
+  const patterns = [
+    /(\w+Error):\s*(.+)/,
+    /error\[E\d+\]:\s*(.+)/i,
+    /error:\s*(.+)/i,
+    /failed:\s*(.+)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = output.match(pattern);
+    if (match) {
+      return match[2] ? { type: match[1], message: match[2] } : { type: 'UnknownError', message: match[1] };
+    }
+  }
+
+  return { type: 'UnknownError', message: output.substring(0, MAX_MESSAGE_LENGTH) };
+}
+
+interface StackFrame {
+  file: string;
+  line: number;
+  column: number;
+  raw: string;
+}
+
+function findStackFrames(output: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(STACK_FRAME);
+    if (match) {
+      frames.push({ file: match[1], line: parseInt(match[2], 10), column: parseInt(match[3], 10), raw: line.trim() });
+    }
+  }
+  return frames;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
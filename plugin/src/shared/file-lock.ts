@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Lock files and atomic writes shared by the session store and vault writers
+ *
+ * A lock is a `<file>.lock` file created with O_EXCL that holds the owner's
+ * pid, acquisition time and hostname. Locks left behind by a crashed process
+ * are recovered once they are older than the stale timeout, or immediately
+ * when the owner ran on this host and no longer exists. A pid from another
+ * host (e.g. the Docker HTTP server sharing the vault) says nothing here, so
+ * those locks only expire by age.
+ */
+
+export const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Atomic write to file using temp file + rename
+ */
+export function atomicWriteSync(filePath: string, data: string, options: { mode?: number } = {}): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, data, options.mode !== undefined ? { mode: options.mode } : undefined);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    try {
+      fs.unlinkSync(tempPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+    throw error;
+  }
+}
+
+/**
+ * Try to take a lock, recovering it first if it is stale
+ * @returns true if the lock was taken, false if another owner holds it
+ */
+function tryLock(lockPath: string, timeoutMs: number): boolean {
+  if (createLockFile(lockPath)) {
+    return true;
+  }
+
+  const stale = readStaleLock(lockPath, timeoutMs);
+  if (stale !== null && removeStaleLock(lockPath, stale)) {
+    return createLockFile(lockPath);
+  }
+  return false;
+}
+
+/**
+ * Remove a stale lock unless another waiter already replaced it. The lock is
+ * renamed aside first (only one waiter can), then checked: if it is no longer
+ * the lock judged stale, it is a fresh one and goes back in place.
+ * @returns true if the stale lock is gone
+ */
+function removeStaleLock(lockPath: string, staleContent: string): boolean {
+  const asidePath = `${lockPath}.${crypto.randomBytes(6).toString('hex')}.stale`;
+  try {
+    fs.renameSync(lockPath, asidePath);
+  } catch {
+    // Another waiter recovered it first
+    return false;
+  }
+
+  try {
+    if (fs.readFileSync(asidePath, 'utf-8') === staleContent) {
+      return true;
+    }
+    try {
+      // Put the fresh lock back; fails if yet another owner took the path meanwhile
+      fs.linkSync(asidePath, lockPath);
+    } catch {
+      // Nothing to restore into
+    }
+    return false;
+  } finally {
+    try {
+      fs.unlinkSync(asidePath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+/**
+ * Create the lock file with exclusive creation
+ * @returns false if it already exists
+ */
+function createLockFile(lockPath: string): boolean {
+  try {
+    // O_CREAT | O_EXCL - fails if file exists
+    const fd = fs.openSync(lockPath, fs.constants.O_CREAT | fs.constants.O_EXCL | fs.constants.O_WRONLY);
+    fs.writeSync(fd, `${process.pid}\n${Date.now()}\n${os.hostname()}`);
+    fs.closeSync(fd);
+    return true;
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * A lock is stale when it outlived the timeout, or its owner ran on this
+ * host and has exited
+ * @returns The stale lock's contents, or null if it is live
+ */
+function readStaleLock(lockPath: string, timeoutMs: number): string | null {
+  try {
+    const mtimeMs = fs.statSync(lockPath).mtimeMs;
+    const content = fs.readFileSync(lockPath, 'utf-8');
+    if (Date.now() - mtimeMs > timeoutMs) {
+      return content;
+    }
+    // Locks without a hostname predate it - their pid may be from any host
+    const [pidLine, , host] = content.split('\n');
+    const pid = parseInt(pidLine, 10);
+    const ownerGone = host === os.hostname() && pid > 0 && pid !== process.pid && !isProcessAlive(pid);
+    return ownerGone ? content : null;
+  } catch {
+    // Lock file disappeared - let the caller retry
+    return null;
+  }
+}
+
+/**
+ * Whether a process with this pid exists on this machine
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: unknown) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Acquire a lock file, blocking the thread between retries
+ * (for synchronous callers such as the session store)
+ */
+export function acquireLockSync(lockPath: string, timeoutMs: number = LOCK_TIMEOUT_MS): boolean {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < timeoutMs) {
+    if (tryLock(lockPath, timeoutMs)) {
+      return true;
+    }
+    // Busy wait (sync sleep) with jitter so waiting processes don't retry in lockstep
+    const end = Date.now() + LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS;
+    while (Date.now() < end) {
+      // Busy wait
+    }
+  }
+  return false;
+}
+
+/**
+ * Acquire a lock file, yielding to the event loop between retries
+ */
+export async function acquireLock(lockPath: string, timeoutMs: number = LOCK_TIMEOUT_MS): Promise<boolean> {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < timeoutMs) {
+    if (tryLock(lockPath, timeoutMs)) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS));
+  }
+  return false;
+}
+
+/**
+ * Release a lock file
+ */
+export function releaseLock(lockPath: string): void {
+  try {
+    fs.unlinkSync(lockPath);
+  } catch {
+    // Ignore errors - lock may have been cleaned up
+  }
+}
+
+/**
+ * Run a read-modify-write of a file while holding its `<file>.lock`.
+ * Not re-entrant: `fn` must not lock the same file again.
+ * @throws If the lock can't be acquired within the timeout
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  if (!(await acquireLock(lockPath))) {
+    throw new Error(`Timed out waiting for lock on ${filePath}`);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Minimal glob matching for file rules
+ *
+ * Supports `*` (any characters except `/`), `**` (any characters including
+ * `/`) and `?` (one character). A pattern without a `/` matches the file's
+ * basename anywhere in the tree, like a .gitignore entry.
+ */
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob to an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let cached = cache.get(glob);
+  if (cached) return cached;
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  cached = new RegExp(`^${source}$`);
+  cache.set(glob, cached);
+  return cached;
+}
+
+/**
+ * Check whether a path matches a glob. Paths use forward slashes; a leading
+ * `/` in the glob anchors it to the start of the path.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/');
+  const pattern = glob.replace(/\\/g, '/').replace(/\/$/, '/**');
+
+  if (!pattern.includes('/')) {
+    const basename = normalized.split('/').pop() || normalized;
+    return globToRegExp(pattern).test(basename);
+  }
+
+  if (pattern.startsWith('/')) {
+    return globToRegExp(pattern.substring(1)).test(normalized.replace(/^\//, ''));
+  }
+
+  // Unanchored patterns with a directory part may match at any depth
+  return globToRegExp(pattern).test(normalized) || globToRegExp(`**/${pattern}`).test(normalized);
+}
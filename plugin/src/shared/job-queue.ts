@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import { getConfigDir } from './config.js';
+import { atomicWriteSync, isProcessAlive, withFileLock } from './file-lock.js';
+
+/**
+ * Durable background job queue
+ *
+ * Each job is a JSON record in jobs/{id}.json under the config directory, so
+ * work survives crashes, timeouts and machine sleep. Runners claim jobs under
+ * a queue-wide lock (which also enforces the concurrency limit across runner
+ * processes); failed attempts are retried with exponential backoff until
+ * `maxAttempts` is reached.
+ */
+
+const JOBS_DIR = 'jobs';
+
+// Longest delay between two attempts
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// A running attempt older than this is considered lost: well past the LLM
+// provider timeout (2 minutes) plus the time to write the notes
+const STALE_RUNNING_MS = 15 * 60 * 1000;
+
+// Boot times read at different moments drift by a few ms; a reboot moves them by far more
+const BOOT_TIME_TOLERANCE_MS = 60 * 1000;
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  /** Handler that runs the job, e.g. "summarize" */
+  type: string;
+  /** Jobs with the same key never run at the same time (e.g. one session's summarizations) */
+  key?: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Earliest time the next attempt may start */
+  runAfter: string;
+  startedAt?: string;
+  finishedAt?: string;
+  lastError?: string;
+  /** Outcome reported by the handler */
+  result?: string;
+  /** pid of the runner process executing the job */
+  runnerPid?: number;
+  /** Host the runner runs on; its pid means nothing elsewhere */
+  runnerHost?: string;
+  /** Boot time (epoch ms) of the runner's host, so a pid reused after a reboot isn't mistaken for it */
+  runnerBootTime?: number;
+}
+
+/**
+ * Get the jobs directory path
+ */
+export function getJobsDir(): string {
+  return path.join(getConfigDir(), JOBS_DIR);
+}
+
+function getJobPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid job id: ${id}`);
+  }
+  return path.join(getJobsDir(), `${id}.json`);
+}
+
+function writeJob(job: Job): void {
+  atomicWriteSync(getJobPath(job.id), JSON.stringify(job, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Read a job by ID
+ * @returns null if it doesn't exist
+ */
+export function readJob(id: string): Job | null {
+  try {
+    return JSON.parse(fs.readFileSync(getJobPath(id), 'utf-8')) as Job;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add a job to the queue
+ */
+export function enqueueJob(
+  type: string,
+  payload: Record<string, unknown>,
+  maxAttempts: number,
+  key?: string
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: `${now.replace(/[-:.TZ]/g, '').substring(0, 14)}-${crypto.randomBytes(4).toString('hex')}`,
+    type,
+    key,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    maxAttempts: Math.max(1, maxAttempts),
+    createdAt: now,
+    updatedAt: now,
+    runAfter: now,
+  };
+  writeJob(job);
+  return job;
+}
+
+/**
+ * List jobs, newest first
+ */
+export function listJobs(status?: JobStatus): Job[] {
+  const dir = getJobsDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readJob(file.slice(0, -'.json'.length)))
+    .filter((job): job is Job => job !== null && (!status || job.status === status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Read-modify-write a job under its lock
+ * @param mutate - returns the updated job, or null to leave it unchanged
+ */
+async function updateJob(id: string, mutate: (job: Job) => Job | null): Promise<Job | null> {
+  const jobPath = getJobPath(id);
+  return withFileLock(jobPath, () => {
+    const job = readJob(id);
+    if (!job) return null;
+
+    const updated = mutate(job);
+    if (!updated) return job;
+
+    updated.updatedAt = new Date().toISOString();
+    writeJob(updated);
+    return updated;
+  });
+}
+
+/**
+ * Claim the oldest runnable job, unless `concurrency` jobs are already running
+ * @returns The job (now running and owned by this process), or null
+ */
+export async function claimNextJob(concurrency: number): Promise<Job | null> {
+  fs.mkdirSync(getJobsDir(), { recursive: true });
+
+  return withFileLock(path.join(getJobsDir(), 'queue'), async () => {
+    await recoverInterruptedJobs();
+
+    const jobs = listJobs();
+    const running = jobs.filter(job => job.status === 'running');
+    if (running.length >= concurrency) {
+      return null;
+    }
+
+    const busyKeys = new Set(running.map(job => job.key).filter(Boolean));
+    const now = new Date().toISOString();
+    const next = jobs
+      .filter(job => job.status === 'pending' && job.runAfter <= now && !(job.key && busyKeys.has(job.key)))
+      .sort((a, b) => a.runAfter.localeCompare(b.runAfter))[0];
+    if (!next) return null;
+
+    return updateJob(next.id, job => job.status !== 'pending' ? null : {
+      ...job,
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: now,
+      runnerPid: process.pid,
+      runnerHost: os.hostname(),
+      runnerBootTime: getBootTime(),
+    });
+  });
+}
+
+/**
+ * Record a successful run
+ */
+export async function completeJob(id: string, result?: string): Promise<Job | null> {
+  return updateJob(id, job => job.status !== 'running' ? null : {
+    ...job,
+    status: 'completed',
+    result,
+    finishedAt: new Date().toISOString(),
+    runnerPid: undefined,
+  });
+}
+
+/**
+ * Record a failed attempt: schedule a retry with exponential backoff, or
+ * mark the job failed once it has used all its attempts
+ */
+export async function failJobAttempt(id: string, error: string, retryDelayMs: number): Promise<Job | null> {
+  return updateJob(id, job => {
+    if (job.status !== 'running') return null;
+
+    const now = new Date();
+    if (job.attempts >= job.maxAttempts) {
+      return { ...job, status: 'failed', lastError: error, finishedAt: now.toISOString(), runnerPid: undefined };
+    }
+
+    const delay = Math.min(retryDelayMs * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+    return {
+      ...job,
+      status: 'pending',
+      lastError: error,
+      runAfter: new Date(now.getTime() + delay).toISOString(),
+      runnerPid: undefined,
+    };
+  });
+}
+
+/**
+ * Queue a failed or cancelled job again with a fresh set of attempts
+ * @throws If the job doesn't exist or is pending, running or completed
+ */
+export async function retryJob(id: string): Promise<Job> {
+  let rejected: JobStatus | null = null;
+  const job = await updateJob(id, current => {
+    if (current.status !== 'failed' && current.status !== 'cancelled') {
+      rejected = current.status;
+      return null;
+    }
+    const now = new Date().toISOString();
+    return { ...current, status: 'pending', attempts: 0, runAfter: now, finishedAt: undefined };
+  });
+
+  if (!job) throw new Error(`Job not found: ${id}`);
+  if (rejected) throw new Error(`Cannot retry a ${rejected} job`);
+  return job;
+}
+
+/**
+ * Cancel a job. A running job finishes its current attempt, and notes that
+ * attempt writes stay in the vault; only its result is not recorded and no
+ * further attempts are made.
+ * @throws If the job doesn't exist or already finished
+ */
+export async function cancelJob(id: string): Promise<Job> {
+  let rejected: JobStatus | null = null;
+  const job = await updateJob(id, current => {
+    if (current.status === 'completed' || current.status === 'cancelled') {
+      rejected = current.status;
+      return null;
+    }
+    return { ...current, status: 'cancelled', finishedAt: new Date().toISOString(), runnerPid: undefined };
+  });
+
+  if (!job) throw new Error(`Job not found: ${id}`);
+  if (rejected) throw new Error(`Cannot cancel a ${rejected} job`);
+  return job;
+}
+
+/**
+ * When the next pending job becomes runnable (epoch ms), or null if there is none
+ */
+export function nextPendingJobAt(): number | null {
+  const times = listJobs('pending').map(job => Date.parse(job.runAfter));
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * Delete completed and cancelled jobs older than `maxAgeMs`
+ * (failed jobs are kept until retried or cancelled)
+ */
+export function pruneFinishedJobs(maxAgeMs: number): number {
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  let removed = 0;
+  for (const job of listJobs()) {
+    if ((job.status === 'completed' || job.status === 'cancelled') && (job.finishedAt || job.updatedAt) < cutoff) {
+      try {
+        fs.unlinkSync(getJobPath(job.id));
+        removed++;
+      } catch {
+        // Already removed by another runner
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ * Running jobs whose runner exited (crash, kill, machine shutdown) or that
+ * stalled count as a failed attempt
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  for (const job of listJobs('running')) {
+    const reason = interruptionReason(job);
+    if (reason) {
+      await failJobAttempt(job.id, reason, 0);
+    }
+  }
+}
+
+/**
+ * Why a running job can no longer finish, or null while its runner may still be at it
+ *
+ * The pid is only checked on the runner's own host and boot; pids get reused,
+ * so a job that has run far longer than any attempt takes is given up on too.
+ */
+function interruptionReason(job: Job): string | null {
+  if (job.startedAt && Date.now() - new Date(job.startedAt).getTime() > STALE_RUNNING_MS) {
+    return `Runner did not finish within ${STALE_RUNNING_MS / 60000} minutes`;
+  }
+
+  if (!job.runnerPid || (job.runnerHost && job.runnerHost !== os.hostname())) {
+    return null;
+  }
+  if (job.runnerBootTime && Math.abs(job.runnerBootTime - getBootTime()) > BOOT_TIME_TOLERANCE_MS) {
+    return 'Runner exited before the job finished';
+  }
+  if (job.runnerPid !== process.pid && !isProcessAlive(job.runnerPid)) {
+    return 'Runner exited before the job finished';
+  }
+  return null;
+}
+
+function getBootTime(): number {
+  return Date.now() - os.uptime() * 1000;
+}
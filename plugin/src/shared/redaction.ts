@@ -0,0 +1,150 @@
+/**
+ * Secret and PII redaction
+ *
+ * Applied to observations before they are stored and to note content before
+ * it is written to the vault, so pasted credentials never reach plain
+ * markdown in a synced vault. Each secret is replaced with a typed
+ * placeholder like `[REDACTED:github_token]`, and callers record which
+ * types were redacted.
+ */
+
+import type { Config, Observation } from './types.js';
+
+interface Detector {
+  type: string;
+  pattern: RegExp;
+  /** Replacement for a match (defaults to the placeholder for the whole match) */
+  replace?: (placeholder: string, ...groups: string[]) => string;
+}
+
+/**
+ * Built-in detectors, most specific first so e.g. a JWT inside a URL is
+ * reported as a JWT
+ */
+const BUILT_IN_DETECTORS: Detector[] = [
+  {
+    type: 'private_key',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----|$)/g,
+  },
+  {
+    type: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    // Keep scheme and host so the note still says what was connected to
+    type: 'url_credentials',
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/)[^\s:@/]*:[^\s@/]+@/gi,
+    replace: (placeholder, scheme) => `${scheme}${placeholder}@`,
+  },
+  { type: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { type: 'anthropic_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { type: 'openai_key', pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { type: 'stripe_key', pattern: /\b[rsp]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { type: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { type: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    // .env / shell style: API_TOKEN=..., export DB_PASSWORD="..."
+    type: 'secret',
+    pattern: /\b([A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z0-9_]*)(\s*[=:]\s*)(["']?)([^\s"'`]{6,})\3/g,
+    replace: (placeholder, name, separator, quote) => `${name}${separator}${quote}${placeholder}${quote}`,
+  },
+  {
+    // JSON style: "api_key": "..."
+    type: 'secret',
+    pattern: /(["'])([\w-]*(?:secret|token|password|passwd|api[_-]?key|access[_-]?key)[\w-]*)\1(\s*:\s*)(["'])([^"'\s]{6,})\4/gi,
+    replace: (placeholder, nameQuote, name, separator, quote) =>
+      `${nameQuote}${name}${nameQuote}${separator}${quote}${placeholder}${quote}`,
+  },
+];
+
+const PLACEHOLDER_PREFIX = '[REDACTED:';
+
+/** Custom patterns compiled once per pattern list */
+const compiledCustom = new WeakMap<Config['redaction']['patterns'], Detector[]>();
+
+function getDetectors(settings: Config['redaction']): Detector[] {
+  let custom = compiledCustom.get(settings.patterns);
+  if (!custom) {
+    custom = [];
+    for (const { name, pattern } of settings.patterns) {
+      try {
+        custom.push({ type: name, pattern: new RegExp(pattern, 'g') });
+      } catch (error) {
+        console.error(`Ignoring invalid redaction pattern "${name}":`, error);
+      }
+    }
+    compiledCustom.set(settings.patterns, custom);
+  }
+  return [...BUILT_IN_DETECTORS, ...custom];
+}
+
+/**
+ * Replace secrets in a text with typed placeholders
+ * @returns The redacted text and the types of secrets found (empty if none)
+ */
+export function redactText(
+  text: string,
+  settings: Config['redaction']
+): { text: string; redacted: string[] } {
+  if (!settings.enabled || !text) {
+    return { text, redacted: [] };
+  }
+
+  const found = new Set<string>();
+  let result = text;
+
+  for (const detector of getDetectors(settings)) {
+    detector.pattern.lastIndex = 0;
+    result = result.replace(detector.pattern, (match: string, ...args: unknown[]) => {
+      // Don't re-redact earlier placeholders (e.g. a URL whose password was a token)
+      if (match.startsWith(PLACEHOLDER_PREFIX) || match.length === 0) {
+        return match;
+      }
+
+      const groups = args.slice(0, -2).map(group => (typeof group === 'string' ? group : ''));
+      const value = groups[groups.length - 1];
+      if (detector.replace && value?.startsWith(PLACEHOLDER_PREFIX)) {
+        return match;
+      }
+
+      found.add(detector.type);
+      const placeholder = `${PLACEHOLDER_PREFIX}${detector.type}]`;
+      return detector.replace ? detector.replace(placeholder, ...groups) : placeholder;
+    });
+  }
+
+  return { text: result, redacted: [...found] };
+}
+
+/**
+ * Redact every string in a JSON-like value
+ */
+export function redactValue<T>(value: T, settings: Config['redaction'], found: Set<string> = new Set()): T {
+  if (typeof value === 'string') {
+    const result = redactText(value, settings);
+    result.redacted.forEach(type => found.add(type));
+    return result.text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, settings, found)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, settings, found)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Redact an observation's data, recording the redacted secret types on it
+ */
+export function redactObservation(observation: Observation, settings: Config['redaction']): Observation {
+  const found = new Set<string>();
+  const data = redactValue(observation.data, settings, found);
+  if (found.size === 0) {
+    return observation;
+  }
+  return { ...observation, data, redacted: [...found] };
+}
@@ -1,8 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import type { Session, Observation } from './types.js';
+import type { Session, Observation, GitRef, Workspace } from './types.js';
 import { getConfigDir } from './config.js';
+import { atomicWriteSync, acquireLockSync, releaseLock } from './file-lock.js';
 
 /**
  * File-based session store with multi-session support
@@ -15,8 +16,6 @@ import { getConfigDir } from './config.js';
  */
 
 const SESSIONS_DIR = 'sessions';
-const LOCK_TIMEOUT_MS = 5000;
-const LOCK_RETRY_MS = 50;
 
 export interface SessionMetadata {
   id: string;
@@ -26,6 +25,9 @@ export interface SessionMetadata {
   endTime?: string;
   durationMinutes?: number;
   status: 'active' | 'completed' | 'stopped';
+  branch?: string;
+  commit?: string;
+  workspaces?: Workspace[];
   summary?: string;
   lastUpdated: string;
   /** Knowledge paths captured during pre-compact */
@@ -83,85 +85,6 @@ function ensureSessionsDir(): void {
   }
 }
 
-/**
- * Atomic write to file using temp file + rename
- */
-function atomicWriteSync(filePath: string, data: string): void {
-  const dir = path.dirname(filePath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-
-  const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
-  try {
-    fs.writeFileSync(tempPath, data, { mode: 0o600 });
-    fs.renameSync(tempPath, filePath);
-  } catch (error) {
-    try {
-      fs.unlinkSync(tempPath);
-    } catch {
-      // Ignore cleanup errors
-    }
-    throw error;
-  }
-}
-
-/**
- * Simple file-based lock for observation writes
- * Uses exclusive file creation as lock mechanism
- */
-function acquireLock(sessionId: string): boolean {
-  ensureSessionsDir();
-  const lockPath = getLockFilePath(sessionId);
-  const startTime = Date.now();
-
-  while (Date.now() - startTime < LOCK_TIMEOUT_MS) {
-    try {
-      // O_CREAT | O_EXCL - fails if file exists
-      const fd = fs.openSync(lockPath, fs.constants.O_CREAT | fs.constants.O_EXCL | fs.constants.O_WRONLY);
-      fs.writeSync(fd, `${process.pid}\n${Date.now()}`);
-      fs.closeSync(fd);
-      return true;
-    } catch (err: unknown) {
-      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
-        // Check for stale lock (older than LOCK_TIMEOUT_MS)
-        try {
-          const stat = fs.statSync(lockPath);
-          if (Date.now() - stat.mtimeMs > LOCK_TIMEOUT_MS) {
-            // Stale lock, remove it
-            fs.unlinkSync(lockPath);
-            continue;
-          }
-        } catch {
-          // Lock file disappeared, retry
-          continue;
-        }
-        // Wait and retry
-        const waitTime = LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS;
-        const end = Date.now() + waitTime;
-        while (Date.now() < end) {
-          // Busy wait (sync sleep)
-        }
-        continue;
-      }
-      throw err;
-    }
-  }
-  return false;
-}
-
-/**
- * Release the file lock
- */
-function releaseLock(sessionId: string): void {
-  const lockPath = getLockFilePath(sessionId);
-  try {
-    fs.unlinkSync(lockPath);
-  } catch {
-    // Ignore errors - lock may have been cleaned up
-  }
-}
-
 /**
  * Read session metadata by ID
  */
@@ -187,7 +110,7 @@ function writeSessionMetadata(metadata: SessionMetadata): void {
   ensureSessionsDir();
   const metaPath = getSessionFilePath(metadata.id);
   metadata.lastUpdated = new Date().toISOString();
-  atomicWriteSync(metaPath, JSON.stringify(metadata, null, 2));
+  atomicWriteSync(metaPath, JSON.stringify(metadata, null, 2), { mode: 0o600 });
 }
 
 /**
@@ -236,7 +159,7 @@ function readObservations(sessionId: string): Observation[] {
 function appendObservation(sessionId: string, observation: Observation): boolean {
   ensureSessionsDir();
 
-  if (!acquireLock(sessionId)) {
+  if (!acquireLockSync(getLockFilePath(sessionId))) {
     console.error(`Failed to acquire lock for session ${sessionId}, observation may be lost`);
     return false;
   }
@@ -250,7 +173,7 @@ function appendObservation(sessionId: string, observation: Observation): boolean
     console.error(`Failed to write observation for session ${sessionId}:`, error);
     return false;
   } finally {
-    releaseLock(sessionId);
+    releaseLock(getLockFilePath(sessionId));
   }
 }
 
@@ -304,7 +227,7 @@ export function readSession(sessionId: string): Session | null {
     if (obs.type === 'file_edit') {
       const filePath = (obs.data as { path: string }).path;
       if (filePath) filesModified.add(filePath);
-    } else if (obs.type === 'command') {
+    } else if (obs.type === 'command' || obs.type === 'test_run') {
       commandsRun++;
     }
     if (obs.type === 'error' || obs.isError) {
@@ -320,6 +243,9 @@ export function readSession(sessionId: string): Session | null {
     endTime: metadata.endTime,
     durationMinutes: metadata.durationMinutes,
     status: metadata.status,
+    branch: metadata.branch,
+    commit: metadata.commit,
+    workspaces: metadata.workspaces,
     summary: metadata.summary,
     observations,
     filesModified: Array.from(filesModified),
@@ -334,7 +260,9 @@ export function readSession(sessionId: string): Session | null {
 export function startSession(
   sessionId: string,
   project: string,
-  projectPath: string
+  projectPath: string,
+  git: GitRef = {},
+  workspaces?: Workspace[]
 ): Session {
   const metadata: SessionMetadata = {
     id: sessionId,
@@ -342,6 +270,9 @@ export function startSession(
     projectPath,
     startTime: new Date().toISOString(),
     status: 'active',
+    branch: git.branch,
+    commit: git.commit,
+    workspaces,
     lastUpdated: new Date().toISOString(),
   };
 
@@ -353,6 +284,9 @@ export function startSession(
     projectPath,
     startTime: metadata.startTime,
     status: 'active',
+    branch: git.branch,
+    commit: git.commit,
+    workspaces,
     observations: [],
     filesModified: [],
     commandsRun: 0,
@@ -477,55 +411,6 @@ function getPendingLockPath(sessionId: string): string {
   return path.join(getSessionsDir(), `${safeSessionFilename(sessionId)}.pending.lock`);
 }
 
-/**
- * Acquire lock for pending counter operations
- */
-function acquirePendingLock(sessionId: string): boolean {
-  ensureSessionsDir();
-  const lockPath = getPendingLockPath(sessionId);
-  const startTime = Date.now();
-
-  while (Date.now() - startTime < LOCK_TIMEOUT_MS) {
-    try {
-      const fd = fs.openSync(lockPath, fs.constants.O_CREAT | fs.constants.O_EXCL | fs.constants.O_WRONLY);
-      fs.writeSync(fd, `${process.pid}\n${Date.now()}`);
-      fs.closeSync(fd);
-      return true;
-    } catch (err: unknown) {
-      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
-        // Check for stale lock
-        try {
-          const stat = fs.statSync(lockPath);
-          if (Date.now() - stat.mtimeMs > LOCK_TIMEOUT_MS) {
-            fs.unlinkSync(lockPath);
-            continue;
-          }
-        } catch {
-          continue;
-        }
-        // Wait and retry
-        const end = Date.now() + LOCK_RETRY_MS;
-        while (Date.now() < end) { /* busy wait */ }
-        continue;
-      }
-      throw err;
-    }
-  }
-  return false;
-}
-
-/**
- * Release pending counter lock
- */
-function releasePendingLock(sessionId: string): void {
-  const lockPath = getPendingLockPath(sessionId);
-  try {
-    fs.unlinkSync(lockPath);
-  } catch {
-    // Ignore
-  }
-}
-
 /**
  * Read the pending job count from file
  * @param conservative If true, returns 1 on read errors (assume pending). Default false for backward compat.
@@ -554,7 +439,7 @@ export function markBackgroundJobStarted(sessionId: string): void {
   ensureSessionsDir();
   const pendingPath = getPendingFilePath(sessionId);
 
-  const gotLock = acquirePendingLock(sessionId);
+  const gotLock = acquireLockSync(getPendingLockPath(sessionId));
   if (!gotLock) {
     console.warn(`markBackgroundJobStarted: Could not acquire lock for ${sessionId}, skipping`);
     return; // Don't update without lock - could corrupt counter
@@ -564,7 +449,7 @@ export function markBackgroundJobStarted(sessionId: string): void {
     const currentCount = getPendingJobCount(pendingPath);
     fs.writeFileSync(pendingPath, `${currentCount + 1}`);
   } finally {
-    releasePendingLock(sessionId);
+    releaseLock(getPendingLockPath(sessionId));
   }
 }
 
@@ -575,7 +460,7 @@ export function markBackgroundJobStarted(sessionId: string): void {
 export function markBackgroundJobCompleted(sessionId: string): void {
   const pendingPath = getPendingFilePath(sessionId);
 
-  const gotLock = acquirePendingLock(sessionId);
+  const gotLock = acquireLockSync(getPendingLockPath(sessionId));
   if (!gotLock) {
     console.warn(`markBackgroundJobCompleted: Could not acquire lock for ${sessionId}, skipping`);
     return; // Don't update without lock - could corrupt counter
@@ -595,7 +480,7 @@ export function markBackgroundJobCompleted(sessionId: string): void {
   } catch {
     // Ignore errors
   } finally {
-    releasePendingLock(sessionId);
+    releaseLock(getPendingLockPath(sessionId));
   }
 }
 
@@ -620,7 +505,7 @@ export function clearSessionFile(sessionId: string, maxWaitMs: number = 5000): v
 
   // Acquire lock to ensure no writes are in progress
   // If we can't get the lock after timeout, proceed anyway with warning
-  const gotLock = acquireLock(sessionId);
+  const gotLock = acquireLockSync(getLockFilePath(sessionId));
   if (!gotLock) {
     console.warn(`clearSessionFile: Could not acquire lock for ${sessionId}, proceeding anyway`);
   }
@@ -646,7 +531,7 @@ export function clearSessionFile(sessionId: string, maxWaitMs: number = 5000): v
     // Lock file will be released/deleted below
   } finally {
     if (gotLock) {
-      releaseLock(sessionId);
+      releaseLock(getLockFilePath(sessionId));
     } else {
       // If we didn't get the lock, still try to clean up any stale lock file
       const lockPath = getLockFilePath(sessionId);
@@ -0,0 +1,144 @@
+/**
+ * Test Run Parsing
+ *
+ * Recognizes test runner commands (bun test, jest, vitest, pytest, go test,
+ * cargo test and package manager `test` scripts) and reads pass/fail/skip
+ * counts and failing test names from their output.
+ */
+
+export interface TestRunResult {
+  runner: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Names of failing tests, as the runner prints them */
+  failedTests: string[];
+}
+
+type TestCounts = Omit<TestRunResult, 'runner'>;
+
+interface TestRunner {
+  name: string;
+  command: RegExp;
+  /** @returns null if the output has no summary in this runner's format */
+  parse(output: string): TestCounts | null;
+}
+
+const MAX_FAILED_TESTS = 20;
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+const bunRunner: TestRunner = {
+  name: 'bun',
+  command: /\bbun\s+test\b/,
+  parse(output) {
+    const count = (label: string) => Number(output.match(new RegExp(`^\\s*(\\d+) ${label}$`, 'm'))?.[1] || 0);
+    if (!/^\s*\d+ (?:pass|fail)$/m.test(output)) return null;
+    return {
+      passed: count('pass'),
+      failed: count('fail'),
+      skipped: count('skip'),
+      failedTests: collect(output, /^\(fail\)\s+(.+?)(?:\s+\[[\d.]+m?s\])?\s*$/gm),
+    };
+  },
+};
+
+const jestRunner: TestRunner = {
+  name: 'jest',
+  command: /\b(?:jest|vitest)\b/,
+  parse(output) {
+    // jest: "Tests:  1 failed, 10 passed, 11 total"; vitest: "Tests  1 failed | 10 passed (11)"
+    const summary = output.match(/^\s*Tests:?\s+(.*\d+ (?:passed|failed).*)$/m);
+    if (!summary) return null;
+    const count = (label: string) => Number(summary[1].match(new RegExp(`(\\d+) ${label}`))?.[1] || 0);
+    return {
+      passed: count('passed'),
+      failed: count('failed'),
+      skipped: count('skipped') + count('todo'),
+      failedTests: [
+        ...collect(output, /^\s*●\s+(.+?)\s*$/gm).filter(name => name !== 'Test suite failed to run'),
+        ...collect(output, /^\s*(?:FAIL|×)\s+(\S+\s+>\s+.+?)(?:\s+\d+m?s)?\s*$/gm),
+      ],
+    };
+  },
+};
+
+const pytestRunner: TestRunner = {
+  name: 'pytest',
+  command: /\bpytest\b/,
+  parse(output) {
+    // "==== 1 failed, 10 passed, 2 skipped in 0.12s ===="
+    const summary = output.match(/^=+ (.*\d+ (?:passed|failed|error).*) in [\d.]+s.*=+$/m);
+    if (!summary) return null;
+    const count = (label: string) => Number(summary[1].match(new RegExp(`(\\d+) ${label}`))?.[1] || 0);
+    return {
+      passed: count('passed'),
+      failed: count('failed') + count('errors?'),
+      skipped: count('skipped'),
+      failedTests: collect(output, /^(?:FAILED|ERROR)\s+(\S+::\S+)/gm),
+    };
+  },
+};
+
+const goRunner: TestRunner = {
+  name: 'go',
+  command: /\bgo\s+test\b/,
+  parse(output) {
+    if (!/^(?:ok|FAIL|---)\s/m.test(output)) return null;
+    const count = (label: string) => (output.match(new RegExp(`^\\s*--- ${label}:`, 'gm')) || []).length;
+    return {
+      passed: count('PASS'),
+      failed: count('FAIL'),
+      skipped: count('SKIP'),
+      failedTests: collect(output, /^\s*--- FAIL:\s+(\S+)/gm),
+    };
+  },
+};
+
+const cargoRunner: TestRunner = {
+  name: 'cargo',
+  command: /\bcargo\s+test\b/,
+  parse(output) {
+    // One "test result:" line per test binary
+    const results = [...output.matchAll(/^test result: \w+\. (\d+) passed; (\d+) failed; (\d+) ignored/gm)];
+    if (results.length === 0) return null;
+    const sum = (group: number) => results.reduce((total, match) => total + Number(match[group]), 0);
+    return {
+      passed: sum(1),
+      failed: sum(2),
+      skipped: sum(3),
+      failedTests: collect(output, /^test (\S+) \.\.\. FAILED$/gm),
+    };
+  },
+};
+
+const RUNNERS: TestRunner[] = [bunRunner, jestRunner, pytestRunner, goRunner, cargoRunner];
+
+/** Package manager test scripts - the runner is recognized from the output */
+const SCRIPT_COMMAND = /\b(npm|yarn|pnpm|bun)\s+(?:run\s+)?test\b/;
+
+/**
+ * Parse a command's output as a test run
+ * @returns null if the command isn't a recognized test runner
+ */
+export function parseTestRun(command: string, output: string): TestRunResult | null {
+  const clean = output.replace(ANSI_PATTERN, '');
+
+  const direct = RUNNERS.find(runner => runner.command.test(command));
+  const script = direct ? null : command.match(SCRIPT_COMMAND);
+  if (!direct && !script) return null;
+
+  for (const runner of direct ? [direct] : RUNNERS) {
+    const counts = runner.parse(clean);
+    if (counts) {
+      return { runner: runner.name, ...counts, failedTests: [...new Set(counts.failedTests)].slice(0, MAX_FAILED_TESTS) };
+    }
+  }
+
+  // A test command whose output has no summary (e.g. it failed to compile)
+  return { runner: direct ? direct.name : script![1], passed: 0, failed: 0, skipped: 0, failedTests: [] };
+}
+
+function collect(output: string, pattern: RegExp): string[] {
+  return [...output.matchAll(pattern)].map(match => match[1].trim());
+}
@@ -16,10 +16,26 @@ export interface Config {
     };
     errors: boolean;
     decisions: boolean;
+    /**
+     * Ordered capture rules, checked before the built-in rules; the first
+     * matching rule decides whether a tool call is captured
+     */
+    rules: CaptureRule[];
   };
   summarization: {
     enabled: boolean;
-    model: string; // Agent SDK model: 'sonnet', 'opus', 'haiku', or full model ID
+    /**
+     * Backend for summarization prompts. Unset: the Agent SDK in-process,
+     * the claude CLI in background jobs
+     */
+    provider?: SummarizationProvider;
+    model: string; // Agent SDK model: 'sonnet', 'opus', 'haiku', or full model ID; endpoint model for openai-compatible
+    /** Base URL for the openai-compatible provider, e.g. http://localhost:8080/v1 */
+    baseUrl?: string;
+    /** API key for the openai-compatible provider (falls back to OPENAI_API_KEY) */
+    apiKey?: string;
+    /** JSON file of canned responses for the fixture provider */
+    fixturePath?: string;
     sessionSummary: boolean;
     errorSummary: boolean;
   };
@@ -29,6 +45,74 @@ export interface Config {
     includeRecentSessions: number;
     includeRelatedErrors: boolean;
     includeProjectPatterns: boolean;
+    /**
+     * Share of maxTokens reserved for each session-start section; budget a
+     * section doesn't use goes to the others
+     */
+    sectionBudgets: {
+      sessions: number;
+      errors: number;
+      decisions: number;
+      files: number;
+      patterns: number;
+    };
+    /** Relevant-memory block injected for each submitted prompt */
+    promptContext: {
+      enabled: boolean;
+      maxTokens: number;
+      maxResults: number;
+      /** Minimum semantic similarity (0-1) for a note to be injected */
+      minScore: number;
+    };
+  };
+  search: {
+    /** Ranking used by mem_search when no mode is given */
+    defaultMode: SearchMode;
+    /** Share of the keyword (BM25) score in hybrid ranking, 0-1 */
+    hybridWeight: number;
+    embedder: EmbedderConfig;
+  };
+  /** Workspace packages of a monorepo tracked as sub-projects */
+  monorepo: {
+    /** Detect package.json/pnpm/Cargo/go.work workspaces at session start */
+    enabled: boolean;
+  };
+  /** Secret redaction applied to observations and note writes */
+  redaction: {
+    enabled: boolean;
+    /** Extra regexes to redact, replaced with `[REDACTED:<name>]` */
+    patterns: Array<{ name: string; pattern: string }>;
+  };
+  worker: {
+    /** Route hook work through the local worker service when it is running */
+    enabled: boolean;
+    port: number;
+    /** Start the worker from the SessionStart hook if it isn't running */
+    autoStart: boolean;
+    /** Shut the worker down after this many idle minutes (0 = never) */
+    idleTimeoutMinutes: number;
+  };
+  /** Background job queue used for summarization */
+  jobs: {
+    /** Jobs run at the same time across all runner processes */
+    concurrency: number;
+    /** Attempts before a job is marked failed */
+    maxAttempts: number;
+    /** Delay before the first retry, doubled for each further attempt */
+    retryDelaySeconds: number;
+  };
+  /** Knowledge notes extracted from sessions */
+  knowledge: {
+    /** Folding knowledge notes into similar notes already in the vault */
+    dedup: {
+      enabled: boolean;
+      /** Similarity (0-1) from which a note is a repeat: the existing note only records another occurrence */
+      duplicateThreshold: number;
+      /** Similarity (0-1) from which new key points are merged into the existing note */
+      mergeThreshold: number;
+      /** Knowledge types that replace a similar note (via supersede) instead of merging into it */
+      supersedeTypes: Array<'qa' | 'explanation' | 'decision' | 'research' | 'learning'>;
+    };
   };
   /**
    * TechKB integration settings
@@ -37,6 +121,61 @@ export interface Config {
   techkb?: TechKBConfig;
 }
 
+/**
+ * A capture rule. Every condition given must match; omitted conditions match anything.
+ */
+export interface CaptureRule {
+  /** Shown by mem_capture_test */
+  name?: string;
+  action: 'include' | 'exclude';
+  /** Tool names; `*` is a wildcard (e.g. "mcp__github__*") */
+  tools?: string[];
+  /** Regex tested against Bash commands (case-insensitive) */
+  command?: string;
+  /** Globs tested against the edited file, relative to the project directory */
+  files?: string[];
+  /** Project names */
+  projects?: string[];
+  /** Only match failed (true) or successful (false) tool calls */
+  isError?: boolean;
+}
+
+/**
+ * How search results are ranked
+ * - keyword: BM25 over the full-text index
+ * - semantic: cosine similarity of note embeddings
+ * - hybrid: weighted blend of both
+ */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+/**
+ * LLM backend for summarization
+ * - agent-sdk: Claude Agent SDK with Claude Code's authentication
+ * - claude-cli: `claude -p`
+ * - openai-compatible: any /v1/chat/completions endpoint (llama.cpp, Ollama, vLLM)
+ * - fixture: canned responses from `fixturePath` (tests, offline runs)
+ */
+export type SummarizationProvider = 'agent-sdk' | 'claude-cli' | 'openai-compatible' | 'fixture';
+
+/**
+ * Embedding model used for semantic search
+ */
+export interface EmbedderConfig {
+  /**
+   * - hashed: local hashed n-gram vectors (no network, default)
+   * - openai-compatible: any /v1/embeddings endpoint (OpenAI, Ollama, LM Studio)
+   */
+  provider: 'hashed' | 'openai-compatible';
+  /** Vector size for the hashed embedder */
+  dimensions?: number;
+  /** Base URL for openai-compatible providers, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  /** Model name for openai-compatible providers */
+  model?: string;
+  /** API key for openai-compatible providers (falls back to OPENAI_API_KEY) */
+  apiKey?: string;
+}
+
 /**
  * TechKB integration configuration
  * Allows cc-obsidian-mem to write to a Johnny Decimal-style vault structure
@@ -93,6 +232,13 @@ export interface Session {
   endTime?: string;
   durationMinutes?: number;
   status: 'active' | 'completed' | 'stopped';
+  /** Git branch and HEAD commit when the session started */
+  branch?: string;
+  commit?: string;
+  /** Commits made in the project repository during the session (set at session end) */
+  commits?: GitCommit[];
+  /** Workspace packages detected at session start (monorepo.enabled) */
+  workspaces?: Workspace[];
   observations: Observation[];
   summary?: string;
   filesModified: string[];
@@ -108,10 +254,14 @@ export interface Observation {
   type: ObservationType;
   tool: string;
   isError: boolean;
-  data: FileEditData | CommandData | ErrorData | Record<string, unknown>;
+  data: FileEditData | CommandData | TestRunData | ErrorData | Record<string, unknown>;
+  /** Types of secrets redacted from the data, if any */
+  redacted?: string[];
+  /** Sub-project the observation was attributed to, if not the session's project */
+  project?: string;
 }
 
-export type ObservationType = 'file_edit' | 'command' | 'error' | 'decision' | 'other';
+export type ObservationType = 'file_edit' | 'command' | 'test_run' | 'error' | 'decision' | 'other';
 
 export interface FileEditData {
   path: string;
@@ -119,6 +269,8 @@ export interface FileEditData {
   changeType: 'create' | 'modify' | 'delete';
   linesAdded?: number;
   linesRemoved?: number;
+  /** Functions, classes and types the edit touched */
+  symbols?: string[];
   summary?: string;
 }
 
@@ -129,12 +281,28 @@ export interface CommandData {
   duration?: number;
 }
 
+/**
+ * A test runner invocation (bun test, jest, pytest, go test, ...)
+ */
+export interface TestRunData extends CommandData {
+  runner: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  failedTests: string[];
+  /** Details of a failed run, used for its error note */
+  error?: ErrorData;
+}
+
 export interface ErrorData {
   type: string;
   message: string;
+  /** Error code, lint rule or failing test (TS2322, E0308, no-unused-vars) */
+  code?: string;
   stack?: string;
   file?: string;
   line?: number;
+  column?: number;
   context?: string;
   resolution?: string;
 }
@@ -154,6 +322,7 @@ export interface SearchQuery {
   };
   limit?: number;
   semantic?: boolean;
+  mode?: SearchMode;
 }
 
 export interface SearchResult {
@@ -174,7 +343,7 @@ export interface SearchResult {
  * Note types
  */
 
-export type NoteType = 'session' | 'error' | 'decision' | 'pattern' | 'file' | 'learning';
+export type NoteType = 'session' | 'error' | 'decision' | 'pattern' | 'file' | 'learning' | 'test';
 
 export type NoteStatus = 'active' | 'superseded' | 'draft';
 
@@ -225,35 +394,106 @@ export interface WriteNoteInput {
  * Project context types
  */
 
+/**
+ * Git branch and HEAD commit (either may be unknown)
+ */
+export interface GitRef {
+  branch?: string;
+  commit?: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  /** Subject line of the commit message */
+  message: string;
+  /** Commit date (ISO timestamp) */
+  date: string;
+}
+
 export interface ProjectInfo {
   name: string;
   path: string;
   gitRemote?: string;
   gitBranch?: string;
+  gitCommit?: string;
+  /** Workspace packages, when detection is requested and the repository has any */
+  workspaces?: Workspace[];
+}
+
+/**
+ * A package of a monorepo workspace, tracked as sub-project `<project>/<name>`
+ */
+export interface Workspace {
+  name: string;
+  /** Absolute path of the package directory */
+  path: string;
 }
 
 export interface ProjectContext {
   project: string;
   summary: string;
+  /** Entries in each list are ordered by relevance score, highest first */
   recentSessions: Array<{
     id: string;
     date: string;
     summary: string;
     keyActions: string[];
+    score?: number;
   }>;
   unresolvedErrors: Array<{
     type: string;
     message: string;
     lastSeen: string;
+    occurrences?: number;
+    score?: number;
   }>;
   activeDecisions: Array<{
     title: string;
     decision: string;
+    score?: number;
   }>;
   patterns: Array<{
     name: string;
     description: string;
+    score?: number;
+  }>;
+  relevantFiles: Array<{
+    path: string;
+    editCount: number;
+    lastEdited: string;
+    score?: number;
   }>;
+  /** Tests that alternate between passing and failing */
+  flakyTests: Array<{
+    name: string;
+    runs: number;
+    failures: number;
+    lastFailed: string;
+    score?: number;
+  }>;
+}
+
+/** Note categories shown in the project timeline */
+export type TimelineNoteType = 'session' | 'error' | 'decision' | 'knowledge';
+
+export type TimelineEventKind =
+  | 'session'
+  | 'error_first_seen'
+  | 'error_last_seen'
+  | 'error_resolved'
+  | 'decision'
+  | 'supersession'
+  | 'knowledge';
+
+export interface TimelineEvent {
+  /** ISO timestamp of the event */
+  date: string;
+  kind: TimelineEventKind;
+  noteType: TimelineNoteType;
+  title: string;
+  /** Note path relative to the memory folder */
+  path: string;
+  detail?: string;
 }
 
 /**
@@ -283,3 +523,17 @@ export interface SessionEndInput {
   transcript_path: string;
 }
 
+
+export interface UserPromptSubmitInput {
+  session_id: string;
+  cwd: string;
+  prompt: string;
+}
+
+export interface PreCompactInput {
+  session_id: string;
+  cwd: string;
+  transcript_path: string;
+  trigger: 'manual' | 'auto';
+  custom_instructions?: string;
+}
@@ -0,0 +1,103 @@
+/**
+ * Worker client used by the hooks.
+ *
+ * Hooks try the worker first and fall back to doing the work themselves
+ * when it is not running. Only connection failures trigger the fallback:
+ * once a request has reached the worker, retrying locally could record
+ * the same observation twice.
+ */
+
+import * as path from 'path';
+import { spawn } from 'child_process';
+import type { Config } from '../shared/types.js';
+import { WORKER_ENDPOINTS } from '../shared/constants.js';
+
+const WORKER_SCRIPT = path.join(__dirname, 'index.ts');
+const DEFAULT_TIMEOUT_MS = 5000;
+const HEALTH_TIMEOUT_MS = 300;
+
+/**
+ * Get the base URL of the local worker
+ */
+export function getWorkerUrl(config: Config): string {
+  return `http://127.0.0.1:${config.worker.port}`;
+}
+
+/**
+ * Call a worker endpoint.
+ * @returns The JSON response, or null if the worker is disabled or not reachable
+ * @throws Error if the worker was reached but failed or timed out
+ */
+export async function callWorker<T>(
+  config: Config,
+  endpoint: string,
+  options: {
+    method?: 'GET' | 'POST';
+    body?: unknown;
+    timeoutMs?: number;
+  } = {}
+): Promise<T | null> {
+  if (!config.worker.enabled) {
+    return null;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${getWorkerUrl(config)}${endpoint}`, {
+      method: options.method || (options.body !== undefined ? 'POST' : 'GET'),
+      headers: { 'Content-Type': 'application/json' },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: AbortSignal.timeout(options.timeoutMs || DEFAULT_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new Error(`Worker request timed out: ${endpoint}`);
+    }
+    // Connection refused / reset - the worker is not running
+    return null;
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Worker request failed: ${endpoint} (${response.status}) ${text}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Check whether the worker is up
+ */
+export async function isWorkerRunning(config: Config): Promise<boolean> {
+  try {
+    const health = await callWorker<{ status: string }>(config, WORKER_ENDPOINTS.health, {
+      timeoutMs: HEALTH_TIMEOUT_MS,
+    });
+    return health?.status === 'ok';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start the worker in the background if it is enabled, allowed to
+ * auto-start and not already running
+ * @returns true if a worker process was spawned
+ */
+export async function ensureWorkerRunning(config: Config): Promise<boolean> {
+  if (!config.worker.enabled || !config.worker.autoStart) {
+    return false;
+  }
+
+  if (await isWorkerRunning(config)) {
+    return false;
+  }
+
+  spawn('bun', ['run', WORKER_SCRIPT], {
+    detached: true,
+    stdio: 'ignore',
+    cwd: path.dirname(WORKER_SCRIPT),
+  }).unref();
+
+  return true;
+}
@@ -0,0 +1,88 @@
+#!/usr/bin/env bun
+
+/**
+ * Worker Service
+ *
+ * Long-running local process that owns the session store and vault writes.
+ * Hooks post their input here (see ./client.ts) and fall back to doing the
+ * work themselves when the worker is not running.
+ *
+ * Listens on 127.0.0.1 only. Exits after `worker.idleTimeoutMinutes` without
+ * requests; the SessionStart hook starts it again when needed. Edits to
+ * config.json apply from the next request, except `worker.*` and the vault
+ * location, which take a restart.
+ */
+
+import { loadConfig } from '../shared/config.js';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import { createWorkerApp, type WorkerContext } from './server.js';
+
+async function main() {
+  const config = loadConfig();
+  let context: WorkerContext = {
+    config,
+    vault: new VaultManager(config.vault.path, config.vault.memFolder),
+  };
+
+  // Ensure vault structure exists
+  await context.vault.ensureStructure();
+
+  // loadConfig() re-reads config.json when it changes; the vault caches
+  // search and redaction settings, so it is replaced along with the config
+  let loaded = config;
+  const getContext = (): WorkerContext => {
+    const latest = loadConfig();
+    if (latest !== loaded) {
+      console.log('Config changed, reloading');
+      loaded = latest;
+      context = {
+        config: { ...latest, vault: config.vault, worker: config.worker },
+        vault: new VaultManager(config.vault.path, config.vault.memFolder),
+      };
+    }
+    return context;
+  };
+
+  let lastActivity = Date.now();
+  const app = createWorkerApp(getContext, () => {
+    lastActivity = Date.now();
+  });
+
+  const server = app.listen(config.worker.port, '127.0.0.1', () => {
+    console.log(`Worker listening on http://127.0.0.1:${config.worker.port} (pid ${process.pid})`);
+  });
+
+  server.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'EADDRINUSE') {
+      // Another worker is already running - nothing to do
+      console.error(`Worker port ${config.worker.port} already in use, exiting`);
+      process.exit(0);
+    }
+    console.error('Worker server error:', error);
+    process.exit(1);
+  });
+
+  const shutdown = () => {
+    server.close(() => process.exit(0));
+    // Force exit if connections don't drain
+    setTimeout(() => process.exit(0), 5000).unref();
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  const idleTimeoutMs = config.worker.idleTimeoutMinutes * 60 * 1000;
+  if (idleTimeoutMs > 0) {
+    setInterval(() => {
+      if (Date.now() - lastActivity > idleTimeoutMs) {
+        console.log('Worker idle, shutting down');
+        shutdown();
+      }
+    }, Math.min(idleTimeoutMs, 60 * 1000)).unref();
+  }
+}
+
+main().catch(error => {
+  console.error('Worker failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,184 @@
+/**
+ * Worker HTTP app
+ *
+ * Exposes the WORKER_ENDPOINTS so hooks only need to forward their input.
+ * Each request uses the current config and VaultManager, which the worker
+ * replaces when config.json changes.
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import { listActiveSessions } from '../shared/session-store.js';
+import { WORKER_ENDPOINTS } from '../shared/constants.js';
+import { processToolUse } from '../services/observation-processor.js';
+import {
+  beginSession,
+  submitUserPrompt,
+  requestSummarization,
+  finalizeSession,
+} from '../services/session-lifecycle.js';
+import type {
+  Config,
+  NoteType,
+  PostToolUseInput,
+  PreCompactInput,
+  SearchMode,
+  SearchResult,
+  SessionEndInput,
+  SessionStartInput,
+  UserPromptSubmitInput,
+} from '../shared/types.js';
+
+type Handler = (req: Request, res: Response) => Promise<void> | void;
+
+/**
+ * Config and vault a request is served with
+ */
+export interface WorkerContext {
+  config: Config;
+  vault: VaultManager;
+}
+
+/**
+ * Wrap a route handler so failures become JSON 500 responses
+ */
+function route(handler: Handler): Handler {
+  return async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      console.error(`[Worker] ${req.method} ${req.path} failed:`, error);
+      res.status(500).json({ error: String(error) });
+    }
+  };
+}
+
+/**
+ * Create the worker express app
+ * @param getContext - called per request for the current config and vault
+ * @param onActivity - called on every request (used for idle shutdown)
+ */
+export function createWorkerApp(
+  getContext: () => WorkerContext,
+  onActivity: () => void = () => {}
+): express.Express {
+  const app = express();
+  const startedAt = Date.now();
+
+  app.use(express.json({ limit: '10mb' }));
+  app.use((_req: Request, _res: Response, next: NextFunction) => {
+    onActivity();
+    next();
+  });
+
+  app.get(WORKER_ENDPOINTS.health, (_req: Request, res: Response) => {
+    const { config, vault } = getContext();
+    res.json({
+      status: 'ok',
+      name: 'obsidian-mem-worker',
+      version: '0.3.0',
+      pid: process.pid,
+      port: config.worker.port,
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      vault: vault.getMemPath(),
+    });
+  });
+
+  app.post(WORKER_ENDPOINTS.sessionStart, route(async (req, res) => {
+    const { config, vault } = getContext();
+    const result = await beginSession(req.body as SessionStartInput, config, vault);
+    res.json(result);
+  }));
+
+  app.post(WORKER_ENDPOINTS.sessionEnd, route(async (req, res) => {
+    const { config, vault } = getContext();
+    const { input, type } = req.body as { input: SessionEndInput; type?: 'stop' | 'end' };
+    const sessionPath = await finalizeSession(input, type || 'end', config, vault);
+    res.json({ sessionPath });
+  }));
+
+  app.get(WORKER_ENDPOINTS.sessionCurrent, route((_req, res) => {
+    const sessions = listActiveSessions().map(session => {
+      const counts: Record<string, number> = {};
+      for (const obs of session.observations) {
+        counts[obs.type] = (counts[obs.type] || 0) + 1;
+      }
+      return {
+        id: session.id,
+        project: session.project,
+        projectPath: session.projectPath,
+        startTime: session.startTime,
+        observations: session.observations.length,
+        observationsByType: counts,
+        filesModified: session.filesModified.length,
+        commandsRun: session.commandsRun,
+        errorsEncountered: session.errorsEncountered,
+      };
+    });
+    res.json({ sessions });
+  }));
+
+  app.post(WORKER_ENDPOINTS.sessionSummarize, route((req, res) => {
+    const { config } = getContext();
+    const started = requestSummarization(req.body as PreCompactInput, config);
+    res.json({ started });
+  }));
+
+  app.post(WORKER_ENDPOINTS.observationCapture, route(async (req, res) => {
+    const { config, vault } = getContext();
+    await processToolUse(req.body as PostToolUseInput, config, vault);
+    res.json({ ok: true });
+  }));
+
+  app.post(WORKER_ENDPOINTS.promptCapture, route(async (req, res) => {
+    const { config, vault } = getContext();
+    const result = await submitUserPrompt(req.body as UserPromptSubmitInput, config, vault);
+    res.json(result);
+  }));
+
+  app.get(WORKER_ENDPOINTS.contextProject, route(async (req, res) => {
+    const { config, vault } = getContext();
+    const project = req.query.project;
+    if (typeof project !== 'string' || !project) {
+      res.status(400).json({ error: 'project query parameter is required' });
+      return;
+    }
+
+    const context = await vault.getProjectContext(project, {
+      includeRecentSessions: config.contextInjection.includeRecentSessions,
+      includeErrors: config.contextInjection.includeRelatedErrors,
+      includeDecisions: true,
+      includePatterns: config.contextInjection.includeProjectPatterns,
+      branch: typeof req.query.branch === 'string' ? req.query.branch : undefined,
+    });
+    res.json(context);
+  }));
+
+  app.post(WORKER_ENDPOINTS.searchSemantic, route(async (req, res) => {
+    const { vault } = getContext();
+    const { query, project, type, limit = 10, mode = 'semantic' } = req.body as {
+      query?: string;
+      project?: string;
+      type?: NoteType;
+      limit?: number;
+      mode?: SearchMode;
+    };
+
+    if (!query) {
+      res.status(400).json({ error: 'query is required' });
+      return;
+    }
+
+    const notes = await vault.searchNotes(query, { project, type, limit, mode });
+    const knowledge: SearchResult[] = !type || type === 'learning' || type === 'decision'
+      ? await vault.searchKnowledge(query, { project, limit, mode })
+      : [];
+
+    const results = [...notes, ...knowledge]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    res.json({ results });
+  }));
+
+  return app;
+}
@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { getGitRef } from '../hooks/scripts/utils/helpers.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { scoreRelevance } from '../src/mcp-server/utils/context-ranking.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config, PostToolUseInput } from '../src/shared/types.js';
+
+const COMMIT_A = 'a'.repeat(40);
+const COMMIT_B = 'b'.repeat(40);
+
+/** Create a minimal .git directory with HEAD pointing at a branch */
+function fakeGitDir(repoDir: string, branch: string, commit?: string): void {
+  const gitDir = path.join(repoDir, '.git');
+  fs.mkdirSync(path.join(gitDir, 'refs', 'heads'), { recursive: true });
+  fs.writeFileSync(path.join(gitDir, 'HEAD'), `ref: refs/heads/${branch}\n`);
+  if (commit) {
+    fs.mkdirSync(path.dirname(path.join(gitDir, 'refs', 'heads', branch)), { recursive: true });
+    fs.writeFileSync(path.join(gitDir, 'refs', 'heads', branch), `${commit}\n`);
+  }
+}
+
+describe('getGitRef', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ref-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  test('reads the branch and its loose ref', () => {
+    fakeGitDir(repoDir, 'feature/login', COMMIT_A);
+    fs.mkdirSync(path.join(repoDir, 'src'));
+
+    expect(getGitRef(path.join(repoDir, 'src'))).toEqual({ branch: 'feature/login', commit: COMMIT_A });
+  });
+
+  test('falls back to packed-refs', () => {
+    fakeGitDir(repoDir, 'main');
+    fs.writeFileSync(path.join(repoDir, '.git', 'packed-refs'),
+      `# pack-refs with: peeled fully-peeled sorted\n${COMMIT_B} refs/heads/main\n`);
+
+    expect(getGitRef(repoDir)).toEqual({ branch: 'main', commit: COMMIT_B });
+  });
+
+  test('records only the commit for a detached HEAD', () => {
+    fakeGitDir(repoDir, 'main');
+    fs.writeFileSync(path.join(repoDir, '.git', 'HEAD'), `${COMMIT_A}\n`);
+
+    expect(getGitRef(repoDir)).toEqual({ commit: COMMIT_A });
+  });
+});
+
+describe('Branch-aware memory', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  const failingTest = (): PostToolUseInput => ({
+    session_id: sessionId,
+    cwd: projectDir,
+    tool_name: 'Bash',
+    tool_input: { command: 'bun test' },
+    tool_response: { content: [{ type: 'text', text: 'TypeError: x is not a function' }], isError: true },
+  });
+
+  const errorNote = () => {
+    const dir = path.join(vault.getMemPath(), 'projects', 'app', 'errors');
+    const [file] = fs.readdirSync(dir).filter(f => f !== 'errors.md');
+    return parseFrontmatter(fs.readFileSync(path.join(dir, file), 'utf-8'));
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-memory-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+    fakeGitDir(projectDir, 'feature/login', COMMIT_A);
+    sessionId = `branch-memory-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+    startSession(sessionId, 'app', projectDir, { branch: 'feature/login', commit: COMMIT_A });
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('error notes collect every branch they were seen on', async () => {
+    await processToolUse(failingTest(), config, vault);
+
+    expect(errorNote().frontmatter.branches).toEqual(['feature/login']);
+    expect(errorNote().frontmatter.last_commit).toBe(COMMIT_A);
+
+    fakeGitDir(projectDir, 'main', COMMIT_B);
+    await processToolUse(failingTest(), config, vault);
+    await processToolUse(failingTest(), config, vault);
+
+    const { frontmatter } = errorNote();
+    expect(frontmatter.branches).toEqual(['feature/login', 'main']);
+    expect(frontmatter.last_commit).toBe(COMMIT_B);
+    expect(frontmatter.occurrences).toBe(3);
+  });
+
+  test('search filters by branch but keeps notes without branch information', async () => {
+    await processToolUse(failingTest(), config, vault);
+    await vault.writeNote({
+      type: 'error',
+      title: 'TypeError in handwritten note',
+      content: 'TypeError: x is not a function when calling the handler.',
+      project: 'app',
+    });
+
+    const onBranch = await vault.searchNotes('TypeError', { project: 'app', type: 'error', branch: 'feature/login' });
+    const elsewhere = await vault.searchNotes('TypeError', { project: 'app', type: 'error', branch: 'feature/billing' });
+
+    const titles = (results: typeof onBranch) => results.map(r => r.title);
+
+    expect(titles(onBranch)).toContain('TypeError in handwritten note');
+    expect(titles(onBranch).some(t => t.startsWith('Error: TypeError'))).toBe(true);
+    expect(titles(elsewhere)).toContain('TypeError in handwritten note');
+    expect(titles(elsewhere).some(t => t.startsWith('Error: TypeError'))).toBe(false);
+  });
+
+  test('ranking demotes notes recorded only on other feature branches', () => {
+    const now = Date.now();
+    const signals = { lastActive: new Date(now).toISOString(), text: '' };
+    const base = scoreRelevance(signals, { now, branch: 'feature/login' });
+
+    expect(scoreRelevance({ ...signals, branches: ['feature/login'] }, { now, branch: 'feature/login' })).toBeGreaterThan(base);
+    expect(scoreRelevance({ ...signals, branches: ['feature/billing'] }, { now, branch: 'feature/login' })).toBeLessThan(base);
+    expect(scoreRelevance({ ...signals, branches: ['main'] }, { now, branch: 'feature/login' })).toBe(base);
+  });
+});
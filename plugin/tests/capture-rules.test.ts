@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { evaluateCapture, explainCapture } from '../src/services/capture-rules.js';
+import { matchesGlob } from '../src/shared/glob.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import type { CaptureRule, Config } from '../src/shared/types.js';
+
+const capture = (rules: CaptureRule[] = [], overrides: Partial<Config['capture']> = {}): Config['capture'] => ({
+  ...getDefaultConfig().capture,
+  ...overrides,
+  rules,
+});
+
+describe('evaluateCapture', () => {
+  test('built-in rules keep the previous behaviour', () => {
+    expect(evaluateCapture({ tool: 'Edit', filePath: 'src/a.ts' }, capture()).capture).toBe(true);
+    expect(evaluateCapture({ tool: 'Bash', command: 'npm test' }, capture()).capture).toBe(true);
+    expect(evaluateCapture({ tool: 'Bash', command: 'ls -la' }, capture()).capture).toBe(false);
+    expect(evaluateCapture({ tool: 'Bash', command: 'cat missing.txt', isError: true }, capture()).capture).toBe(true);
+    expect(evaluateCapture({ tool: 'Read' }, capture()).reason).toBe('No rule matched');
+  });
+
+  test('configured rules run first, in order', () => {
+    const rules: CaptureRule[] = [
+      { name: 'skip-plan', action: 'exclude', tools: ['Bash'], command: '^terraform plan' },
+      { name: 'infra', action: 'include', tools: ['Bash'], command: '^(just|nx|terraform|kubectl)\\b' },
+    ];
+
+    const apply = evaluateCapture({ tool: 'Bash', command: 'terraform apply' }, capture(rules));
+    expect(apply.capture).toBe(true);
+    expect(apply.source).toBe('config');
+    expect(apply.rule?.name).toBe('infra');
+
+    expect(evaluateCapture({ tool: 'Bash', command: 'terraform plan' }, capture(rules)).capture).toBe(false);
+    expect(evaluateCapture({ tool: 'Bash', command: 'kubectl get pods' }, capture(rules)).capture).toBe(true);
+  });
+
+  test('matches tool wildcards, file globs and projects', () => {
+    const rules: CaptureRule[] = [
+      { name: 'no-generated', action: 'exclude', tools: ['Write', 'Edit'], files: ['**/generated/**', '*.lock'] },
+      { name: 'github', action: 'include', tools: ['mcp__github__*'], projects: ['api'] },
+    ];
+
+    const generated = evaluateCapture(
+      { tool: 'Edit', filePath: '/repo/src/generated/types.ts', projectPath: '/repo' },
+      capture(rules)
+    );
+    expect(generated.capture).toBe(false);
+    expect(generated.reason).toBe('Configured rule "no-generated" (exclude)');
+
+    expect(evaluateCapture({ tool: 'Write', filePath: 'bun.lock' }, capture(rules)).capture).toBe(false);
+    expect(evaluateCapture({ tool: 'Edit', filePath: '/repo/src/app.ts', projectPath: '/repo' }, capture(rules)).capture).toBe(true);
+    expect(evaluateCapture({ tool: 'mcp__github__create_issue', project: 'api' }, capture(rules)).capture).toBe(true);
+    expect(evaluateCapture({ tool: 'mcp__github__create_issue', project: 'web' }, capture(rules)).capture).toBe(false);
+  });
+
+  test('capture switches override every rule', () => {
+    const rules: CaptureRule[] = [{ action: 'include', tools: ['Bash'] }];
+    const decision = evaluateCapture({ tool: 'Bash', command: 'npm test' }, capture(rules, { bashCommands: false }));
+
+    expect(decision.capture).toBe(false);
+    expect(decision.reason).toContain('capture.bashCommands');
+  });
+});
+
+describe('explainCapture', () => {
+  test('checks .memignore before the capture rules', () => {
+    const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'capture-rules-test-'));
+    try {
+      fs.writeFileSync(path.join(projectPath, '.memignore'), 'secrets/\nproject:scratch-*\n');
+
+      const file = explainCapture({ tool: 'Edit', filePath: 'secrets/key.ts', projectPath }, capture());
+      expect(file.capture).toBe(false);
+      expect(file.reason).toContain('Not captured (.memignore)');
+      expect(explainCapture({ tool: 'Bash', command: 'npm test secrets/a.test.ts', projectPath }, capture()).capture).toBe(false);
+      expect(explainCapture({ tool: 'Edit', filePath: 'src/a.ts', project: 'scratch-1', projectPath }, capture()).capture).toBe(false);
+
+      const allowed = explainCapture({ tool: 'Edit', filePath: 'src/a.ts', project: 'app', projectPath }, capture());
+      expect(allowed).toMatchObject({ capture: true, rule: { name: 'file-edits' } });
+    } finally {
+      fs.rmSync(projectPath, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('matchesGlob', () => {
+  test('matches basenames, directories and anchored paths', () => {
+    expect(matchesGlob('src/deep/file.lock', '*.lock')).toBe(true);
+    expect(matchesGlob('src/generated/a.ts', 'generated/')).toBe(true);
+    expect(matchesGlob('src/generated/a.ts', '/generated/**')).toBe(false);
+    expect(matchesGlob('generated/a.ts', '/generated/**')).toBe(true);
+    expect(matchesGlob('src/a.test.ts', 'src/*.test.ts')).toBe(true);
+    expect(matchesGlob('src/lib/a.test.ts', 'src/*.test.ts')).toBe(false);
+    expect(matchesGlob('src/lib/a.test.ts', 'src/**/*.test.ts')).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { scoreRelevance } from '../src/mcp-server/utils/context-ranking.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('scoreRelevance', () => {
+  const now = Date.parse('2026-03-01T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now - days * DAY_MS).toISOString();
+
+  test('decays with age', () => {
+    const fresh = scoreRelevance({ lastActive: daysAgo(0), text: '' }, { now });
+    const twoWeeks = scoreRelevance({ lastActive: daysAgo(14), text: '' }, { now });
+
+    expect(fresh).toBeCloseTo(1, 5);
+    expect(twoWeeks).toBeCloseTo(0.5, 5);
+  });
+
+  test('boosts frequent, branch-related and recently touched notes', () => {
+    const base = scoreRelevance({ lastActive: daysAgo(1), text: 'notes' }, { now });
+
+    expect(scoreRelevance({ lastActive: daysAgo(1), frequency: 8, text: 'notes' }, { now })).toBeGreaterThan(base);
+    expect(scoreRelevance(
+      { lastActive: daysAgo(1), text: 'work on login-form validation' },
+      { now, branch: 'feature/login-form' }
+    )).toBeGreaterThan(base);
+    expect(scoreRelevance(
+      { lastActive: daysAgo(1), text: 'Changed src/auth/session.ts' },
+      { now, recentFiles: ['src/auth/session.ts'] }
+    )).toBeGreaterThan(base);
+  });
+
+  test('ignores default branches and excludes superseded notes', () => {
+    const base = scoreRelevance({ lastActive: daysAgo(1), text: 'merged into main' }, { now });
+    expect(scoreRelevance({ lastActive: daysAgo(1), text: 'merged into main' }, { now, branch: 'main' })).toBe(base);
+    expect(scoreRelevance({ lastActive: daysAgo(1), superseded: true, text: '' }, { now })).toBe(0);
+  });
+});
+
+describe('VaultManager.getProjectContext ranking', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+
+  const writeRaw = (relPath: string, frontmatter: string, content: string) => {
+    const fullPath = path.join(vault.getMemPath(), relPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, `---\n${frontmatter}\n---\n\n${content}\n`);
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'context-ranking-test-'));
+    vault = new VaultManager(tempDir, '_claude-mem');
+    await vault.ensureProjectStructure('app');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('ranks errors by occurrences and skips category indexes', async () => {
+    const seen = new Date().toISOString();
+    writeRaw('projects/app/errors/rare.md',
+      `type: error\ntitle: "Error: Rare"\nerror_type: RareError\nlast_seen: ${seen}\noccurrences: 1\nresolved: false\ntags: [error]`,
+      '# Error: Rare');
+    writeRaw('projects/app/errors/common.md',
+      `type: error\ntitle: "Error: Common"\nerror_type: CommonError\nlast_seen: ${seen}\noccurrences: 12\nresolved: false\ntags: [error]`,
+      '# Error: Common');
+
+    const context = await vault.getProjectContext('app');
+
+    expect(context.unresolvedErrors.map(e => e.type)).toEqual(['CommonError', 'RareError']);
+    expect(context.unresolvedErrors[0].occurrences).toBe(12);
+  });
+
+  test('drops superseded decisions and prefers ones related to the branch', async () => {
+    await vault.writeNote({ type: 'decision', title: 'Use REST', content: 'Plain REST endpoints.', project: 'app' });
+    await vault.writeNote({ type: 'decision', title: 'Billing retries', content: 'Retry billing webhooks three times.', project: 'app' });
+    await vault.writeNote({ type: 'decision', title: 'Old idea', content: 'Obsolete.', project: 'app', status: 'superseded' });
+
+    const context = await vault.getProjectContext('app', { branch: 'feature/billing' });
+    const titles = context.activeDecisions.map(d => d.title);
+
+    expect(titles[0]).toBe('Billing retries');
+    expect(titles).toContain('Use REST');
+    expect(titles).not.toContain('Old idea');
+    expect(titles).not.toContain('Decisions');
+  });
+
+  test('includes frequently edited files, boosted by recent changes', async () => {
+    const edited = new Date().toISOString();
+    writeRaw('projects/app/files/a.md',
+      `type: file\ntitle: "a.ts"\nfile_path: /repo/src/a.ts\nedit_count: 3\nlast_edited: ${edited}\ntags: [file]`,
+      '# File: /repo/src/a.ts');
+    writeRaw('projects/app/files/b.md',
+      `type: file\ntitle: "b.ts"\nfile_path: /repo/src/b.ts\nedit_count: 3\nlast_edited: ${edited}\ntags: [file]`,
+      '# File: /repo/src/b.ts');
+
+    const context = await vault.getProjectContext('app', { recentFiles: ['src/b.ts'] });
+
+    expect(context.relevantFiles.map(f => f.path)).toEqual(['/repo/src/b.ts', '/repo/src/a.ts']);
+    expect(context.relevantFiles[0].editCount).toBe(3);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { computeEditStats, countLineChanges, formatEditSummary } from '../src/shared/edit-stats.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, readSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config, FileEditData } from '../src/shared/types.js';
+
+const SOURCE = [
+  'export class Cache {',
+  '  get(key: string) {',
+  '    const hit = this.map.get(key);',
+  '    return hit?.value;',
+  '  }',
+  '}',
+  '',
+].join('\n');
+
+describe('countLineChanges', () => {
+  test('counts changed lines, not whole blocks', () => {
+    expect(countLineChanges('a\nb\nc', 'a\nB\nc\nd')).toEqual({ added: 2, removed: 1 });
+    expect(countLineChanges('', 'x\ny\n')).toEqual({ added: 2, removed: 0 });
+    expect(countLineChanges('same', 'same')).toEqual({ added: 0, removed: 0 });
+  });
+});
+
+describe('computeEditStats', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edit-stats-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('Edit finds the enclosing method in the edited file', () => {
+    const filePath = path.join(tempDir, 'cache.ts');
+    fs.writeFileSync(filePath, SOURCE);
+
+    const stats = computeEditStats({
+      file_path: filePath,
+      old_string: '    return hit.value;',
+      new_string: '    const hit = this.map.get(key);\n    return hit?.value;',
+    }, 'typescript', false);
+
+    expect(stats).toEqual({ linesAdded: 2, linesRemoved: 1, symbols: ['get'] });
+  });
+
+  test('MultiEdit sums its edits and lists declared symbols', () => {
+    const stats = computeEditStats({
+      file_path: path.join(tempDir, 'missing.py'),
+      edits: [
+        { old_string: 'def load():\n    pass', new_string: 'def load(path):\n    return open(path)' },
+        { old_string: '', new_string: 'class Store:\n    pass' },
+      ],
+    }, 'python', false);
+
+    expect(stats.linesAdded).toBe(4);
+    expect(stats.linesRemoved).toBe(2);
+    expect(stats.symbols).toEqual(['load', 'Store']);
+  });
+
+  test('Write counts the content; overwrites have no removed count', () => {
+    const input = { file_path: path.join(tempDir, 'a.go'), content: 'package a\n\nfunc Run() {}\n' };
+    expect(computeEditStats(input, 'go', true)).toEqual({ linesAdded: 3, linesRemoved: 0, symbols: ['Run'] });
+    expect(computeEditStats(input, 'go', false).linesRemoved).toBeUndefined();
+  });
+
+  test('formatEditSummary', () => {
+    expect(formatEditSummary('modify', { linesAdded: 3, linesRemoved: 1, symbols: ['get', 'Cache'] })).toBe('modify +3/-1: `get`, `Cache`');
+    expect(formatEditSummary('modify', { linesAdded: 40, symbols: [] })).toBe('rewrite, 40 lines');
+  });
+});
+
+describe('File edit observations', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edit-stats-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+    sessionId = `edit-stats-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+    startSession(sessionId, 'app', projectDir);
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('records stats and writes them into the edit history', async () => {
+    const filePath = path.join(projectDir, 'cache.ts');
+    fs.writeFileSync(filePath, SOURCE);
+
+    await processToolUse({
+      session_id: sessionId,
+      cwd: projectDir,
+      tool_name: 'Edit',
+      tool_input: { file_path: filePath, old_string: '    return hit.value;', new_string: '    return hit?.value;' },
+      tool_response: { content: [{ type: 'text', text: 'The file has been updated.' }] },
+    }, config, vault);
+
+    const data = readSession(sessionId)!.observations[0].data as FileEditData;
+    expect(data).toMatchObject({ changeType: 'modify', linesAdded: 1, linesRemoved: 1, symbols: ['get'] });
+
+    const filesDir = path.join(vault.getMemPath(), 'projects', 'app', 'files');
+    const [note] = fs.readdirSync(filesDir).filter(f => f !== 'files.md');
+    expect(fs.readFileSync(path.join(filesDir, note), 'utf-8')).toContain('| modify +1/-1: `get` |');
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parseErrorOutput, fingerprintError } from '../src/shared/error-parsers.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config } from '../src/shared/types.js';
+
+describe('parseErrorOutput', () => {
+  test('tsc', () => {
+    const parsed = parseErrorOutput("src/api.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.");
+    expect(parsed).toMatchObject({
+      parser: 'tsc',
+      type: 'TypeScriptError',
+      code: 'TS2322',
+      file: 'src/api.ts',
+      line: 12,
+      column: 5,
+    });
+
+    const pretty = parseErrorOutput('\x1b[96msrc/api.ts\x1b[0m:\x1b[93m12\x1b[0m:\x1b[93m5\x1b[0m - \x1b[91merror\x1b[0m TS2304: Cannot find name \'foo\'.');
+    expect(pretty).toMatchObject({ parser: 'tsc', code: 'TS2304', file: 'src/api.ts', line: 12 });
+  });
+
+  test('cargo', () => {
+    const output = 'error[E0308]: mismatched types\n --> src/main.rs:4:18\n  |\n4 |     let x: i32 = "a";';
+    expect(parseErrorOutput(output)).toMatchObject({
+      parser: 'cargo',
+      code: 'E0308',
+      message: 'mismatched types',
+      file: 'src/main.rs',
+      line: 4,
+    });
+  });
+
+  test('eslint', () => {
+    const output = "/home/me/app/src/index.js\n  3:7  error  'unused' is assigned a value but never used  no-unused-vars\n\n✖ 1 problem";
+    expect(parseErrorOutput(output)).toMatchObject({
+      parser: 'eslint',
+      code: 'no-unused-vars',
+      message: "'unused' is assigned a value but never used",
+      file: '/home/me/app/src/index.js',
+      line: 3,
+    });
+  });
+
+  test('pytest', () => {
+    const output = [
+      'tests/test_api.py:14: AssertionError',
+      '=== short test summary info ===',
+      'FAILED tests/test_api.py::test_login - AssertionError: assert 401 == 200',
+    ].join('\n');
+    expect(parseErrorOutput(output)).toMatchObject({
+      parser: 'pytest',
+      type: 'AssertionError',
+      code: 'test_login',
+      message: 'assert 401 == 200',
+      file: 'tests/test_api.py',
+      line: 14,
+    });
+  });
+
+  test('go test and go build', () => {
+    const testOutput = '--- FAIL: TestLogin (0.00s)\n    login_test.go:25: expected 200, got 401\nFAIL';
+    expect(parseErrorOutput(testOutput)).toMatchObject({
+      parser: 'go',
+      type: 'GoTestFailure',
+      code: 'TestLogin',
+      file: 'login_test.go',
+      line: 25,
+    });
+
+    expect(parseErrorOutput('# app\n./main.go:12:5: undefined: foo')).toMatchObject({
+      type: 'GoBuildError',
+      message: 'undefined: foo',
+      file: 'main.go',
+    });
+  });
+
+  test('bun test failures', () => {
+    const output = [
+      'error: expect(received).toBe(expected)',
+      '',
+      'Expected: 2',
+      'Received: 1',
+      '',
+      '      at <anonymous> (/repo/tests/math.test.ts:8:15)',
+      '(fail) math > adds [0.42ms]',
+    ].join('\n');
+    expect(parseErrorOutput(output)).toMatchObject({
+      parser: 'bun-jest',
+      type: 'TestFailure',
+      code: 'math > adds',
+      message: 'expect(received).toBe(expected)',
+      file: '/repo/tests/math.test.ts',
+      line: 8,
+    });
+  });
+
+  test('node stack traces skip internal frames', () => {
+    const output = [
+      "TypeError: Cannot read properties of undefined (reading 'id')",
+      '    at node:internal/process/task_queues:95:5',
+      '    at getUser (/app/src/users.js:10:15)',
+      '    at /app/node_modules/express/lib/router.js:284:7',
+    ].join('\n');
+    const parsed = parseErrorOutput(output);
+    expect(parsed).toMatchObject({ parser: 'node', type: 'TypeError', file: '/app/src/users.js', line: 10 });
+    expect(parsed.stack).toContain('getUser');
+  });
+
+  test('falls back to generic patterns', () => {
+    expect(parseErrorOutput('npm ERR! failed: missing script')).toMatchObject({
+      parser: 'generic',
+      type: 'UnknownError',
+      message: 'missing script',
+    });
+  });
+});
+
+describe('fingerprintError', () => {
+  test('ignores line numbers, absolute paths, addresses and timestamps', () => {
+    const base = { type: 'Error', message: 'Segfault at 0x7ffd1234 in /tmp/pytest-12/run.py:40 at 2026-01-02T10:00:00Z' };
+    const again = { type: 'Error', message: 'Segfault at 0x7ffe9999 in /tmp/pytest-57/run.py:88 at 2026-03-04T11:30:15Z' };
+    expect(fingerprintError(base)).toBe(fingerprintError(again));
+  });
+
+  test('hashes files relative to the project', () => {
+    const error = { type: 'TypeScriptError', code: 'TS2322', message: 'Type mismatch', line: 3 };
+    expect(fingerprintError({ ...error, file: '/a/app/src/x.ts' }, '/a/app')).toBe(
+      fingerprintError({ ...error, file: '/b/app/src/x.ts', line: 40 }, '/b/app')
+    );
+    expect(fingerprintError({ ...error, file: '/a/app/src/x.ts' }, '/a/app')).not.toBe(
+      fingerprintError({ ...error, file: '/a/app/src/y.ts' }, '/a/app')
+    );
+    expect(fingerprintError({ ...error, code: 'TS2345' })).not.toBe(fingerprintError(error));
+  });
+});
+
+describe('Error recurrence', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'error-parsers-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+    sessionId = `error-parsers-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+    startSession(sessionId, 'app', projectDir);
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const runTsc = (line: number) => processToolUse({
+    session_id: sessionId,
+    cwd: projectDir,
+    tool_name: 'Bash',
+    tool_input: { command: 'npx tsc --noEmit' },
+    tool_response: {
+      content: [{ type: 'text', text: `src/api.ts(${line},5): error TS2322: Type 'string' is not assignable to type 'number'.` }],
+      isError: true,
+    },
+  }, config, vault);
+
+  test('the same error at another line counts on one note', async () => {
+    await runTsc(12);
+    await runTsc(30);
+
+    const errorsDir = path.join(vault.getMemPath(), 'projects', 'app', 'errors');
+    const notes = fs.readdirSync(errorsDir).filter(f => f !== 'errors.md');
+    expect(notes).toHaveLength(1);
+
+    const raw = fs.readFileSync(path.join(errorsDir, notes[0]), 'utf-8');
+    expect(raw).toContain('occurrences: 2');
+    expect(raw).toContain('error_code: "TS2322"');
+    expect(raw).toContain('**File**: `' + path.join(projectDir, 'src/api.ts') + '`');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config, PostToolUseInput } from '../src/shared/types.js';
+
+describe('Error resolution', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  const bash = (command: string, output: string, isError = false): PostToolUseInput => ({
+    session_id: sessionId,
+    cwd: projectDir,
+    tool_name: 'Bash',
+    tool_input: { command },
+    tool_response: { content: [{ type: 'text', text: output }], isError },
+  });
+
+  const errorNotes = () => {
+    const dir = path.join(vault.getMemPath(), 'projects', 'app', 'errors');
+    return fs.readdirSync(dir)
+      .filter(f => f !== 'errors.md')
+      .map(f => {
+        const raw = fs.readFileSync(path.join(dir, f), 'utf-8');
+        return { path: `projects/app/errors/${f}`, raw, ...parseFrontmatter(raw) };
+      });
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'error-resolution-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+    sessionId = `error-resolution-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+    startSession(sessionId, 'app', projectDir);
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resolves an error when the failing command later succeeds', async () => {
+    await processToolUse(bash('bun test', 'TypeError: x is not a function', true), config, vault);
+    await processToolUse({
+      session_id: sessionId,
+      cwd: projectDir,
+      tool_name: 'Edit',
+      tool_input: { file_path: path.join(projectDir, 'src/x.ts'), old_string: 'a', new_string: 'b' },
+      tool_response: { content: [{ type: 'text', text: 'File edited' }] },
+    }, config, vault);
+
+    expect(errorNotes()[0].frontmatter.resolved).toBe(false);
+
+    await processToolUse(bash('bun test', '12 pass'), config, vault);
+
+    const [note] = errorNotes();
+    expect(note.frontmatter.resolved).toBe(true);
+    expect(note.frontmatter.resolution_method).toBe('auto');
+    expect(note.frontmatter.resolved_by_session).toBe(sessionId);
+    expect(note.raw).toContain('`bun test` succeeded after failing.');
+    expect(note.raw).toContain('src/x.ts');
+    expect(note.raw).not.toContain('_Not yet resolved_');
+
+    const context = await vault.getProjectContext('app');
+    expect(context.unresolvedErrors).toHaveLength(0);
+  });
+
+  test('ignores unrelated successful commands', async () => {
+    await processToolUse(bash('bun test', 'TypeError: x is not a function', true), config, vault);
+    await processToolUse(bash('git status', 'nothing to commit'), config, vault);
+
+    expect(errorNotes()[0].frontmatter.resolved).toBe(false);
+  });
+
+  test('resolves a failed edit only once a build or test passes', async () => {
+    const filePath = path.join(projectDir, 'src/x.ts');
+    const fileTool = (tool_name: string, isError: boolean): PostToolUseInput => ({
+      session_id: sessionId,
+      cwd: projectDir,
+      tool_name,
+      tool_input: { file_path: filePath, content: 'b', old_string: 'a', new_string: 'b' },
+      tool_response: { content: [{ type: 'text', text: isError ? 'Error: EACCES: permission denied' : 'File edited' }], isError },
+    });
+    // Capture every command, so trivial ones reach error resolution too
+    config.capture = { ...config.capture, rules: [{ action: 'include', tools: ['Bash'] }] };
+
+    await processToolUse(fileTool('Write', true), config, vault);
+    await processToolUse(fileTool('Edit', false), config, vault);
+    await processToolUse(bash('ls src', 'x.ts'), config, vault);
+    await processToolUse(bash('git status', 'modified: src/x.ts'), config, vault);
+    expect(errorNotes()[0].frontmatter.resolved).toBe(false);
+
+    await processToolUse(bash('bun run build', 'Bundled 3 modules'), config, vault);
+    const [note] = errorNotes();
+    expect(note.frontmatter.resolved).toBe(true);
+    expect(note.raw).toContain('`bun run build` then passed.');
+  });
+
+  test('reopens a resolved error when it recurs', async () => {
+    await processToolUse(bash('bun test', 'TypeError: x is not a function', true), config, vault);
+    await processToolUse(bash('bun test', '12 pass'), config, vault);
+    await processToolUse(bash('bun test', 'TypeError: x is not a function', true), config, vault);
+
+    const [note] = errorNotes();
+    expect(note.frontmatter.resolved).toBe(false);
+    expect(note.frontmatter.occurrences).toBe(2);
+    expect(note.raw).toContain('Recurred after resolution');
+
+    const context = await vault.getProjectContext('app');
+    expect(context.unresolvedErrors).toHaveLength(1);
+  });
+
+  test('resolveError records a manual resolution', async () => {
+    await processToolUse(bash('bun run build', 'Error: Cannot find module ./missing', true), config, vault);
+    const [{ path: notePath }] = errorNotes();
+
+    const result = await vault.resolveError(notePath, {
+      resolution: 'Import path was wrong after the rename.',
+      fixSummary: '- `src/index.ts`: fixed import',
+      sessionId,
+    });
+    expect(result.alreadyResolved).toBe(false);
+
+    const [note] = errorNotes();
+    expect(note.frontmatter.resolved).toBe(true);
+    expect(note.frontmatter.resolution_method).toBe('manual');
+    expect(note.content).toContain('> Import path was wrong after the rename.');
+    expect(note.content).toContain('### Fix');
+    expect(note.content).toContain('## Occurrences');
+
+    // Auto-detection never overwrites an existing resolution
+    const again = await vault.resolveError(notePath, { resolution: 'auto', method: 'auto' });
+    expect(again.alreadyResolved).toBe(true);
+    expect(errorNotes()[0].content).toContain('Import path was wrong');
+  });
+
+  test('resolveError rejects non-error notes', async () => {
+    const { path: notePath } = await vault.writeNote({
+      type: 'decision',
+      title: 'Use Postgres',
+      content: 'Because JSON support.',
+      project: 'app',
+    });
+
+    await expect(vault.resolveError(notePath, { resolution: 'n/a' })).rejects.toThrow('not an error note');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { acquireLock, acquireLockSync, releaseLock, atomicWriteSync, withFileLock } from '../src/shared/file-lock.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config } from '../src/shared/types.js';
+
+describe('File locks', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-lock-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('a held lock blocks until released', async () => {
+    const lockPath = path.join(tempDir, 'note.md.lock');
+    expect(acquireLockSync(lockPath)).toBe(true);
+    expect(await acquireLock(lockPath, 200)).toBe(false);
+
+    releaseLock(lockPath);
+    expect(await acquireLock(lockPath, 200)).toBe(true);
+  });
+
+  test('recovers locks that are too old or whose owner exited', async () => {
+    const oldLock = path.join(tempDir, 'old.md.lock');
+    fs.writeFileSync(oldLock, `${process.pid}\n0`);
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(oldLock, past, past);
+    expect(await acquireLock(oldLock, 200)).toBe(true);
+
+    // A pid that can't belong to a running process
+    const orphanLock = path.join(tempDir, 'orphan.md.lock');
+    fs.writeFileSync(orphanLock, `2147483646\n${Date.now()}\n${os.hostname()}`);
+    expect(await acquireLock(orphanLock, 200)).toBe(true);
+  });
+
+  test('locks from another host only expire by age', async () => {
+    // e.g. the Docker HTTP server, whose pids mean nothing on this host
+    const foreignLock = path.join(tempDir, 'foreign.md.lock');
+    fs.writeFileSync(foreignLock, `2147483646\n${Date.now()}\nsome-container`);
+    expect(await acquireLock(foreignLock, 200)).toBe(false);
+
+    // Without a hostname the owner's host is unknown too
+    const legacyLock = path.join(tempDir, 'legacy.md.lock');
+    fs.writeFileSync(legacyLock, `2147483646\n${Date.now()}`);
+    expect(await acquireLock(legacyLock, 200)).toBe(false);
+
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(foreignLock, past, past);
+    expect(await acquireLock(foreignLock, 200)).toBe(true);
+    expect(fs.readFileSync(foreignLock, 'utf-8').split('\n')).toEqual([String(process.pid), expect.any(String), os.hostname()]);
+    expect(fs.readdirSync(tempDir).filter(f => f.endsWith('.stale'))).toEqual([]);
+  });
+
+  test('withFileLock serializes read-modify-write across processes', async () => {
+    const counterPath = path.join(tempDir, 'counter.txt');
+    fs.writeFileSync(counterPath, '0');
+
+    const script = path.join(tempDir, 'increment.ts');
+    fs.writeFileSync(script, `
+      import * as fs from 'fs';
+      import { withFileLock, atomicWriteSync } from ${JSON.stringify(path.resolve(import.meta.dir, '../src/shared/file-lock.js'))};
+      for (let i = 0; i < 20; i++) {
+        await withFileLock(${JSON.stringify(counterPath)}, async () => {
+          const count = parseInt(fs.readFileSync(${JSON.stringify(counterPath)}, 'utf-8'), 10);
+          await new Promise(resolve => setTimeout(resolve, 1));
+          atomicWriteSync(${JSON.stringify(counterPath)}, String(count + 1));
+        });
+      }
+    `);
+
+    const children = [1, 2, 3].map(() => Bun.spawn(['bun', script], { stderr: 'pipe' }));
+    const codes = await Promise.all(children.map(child => child.exited));
+
+    expect(codes).toEqual([0, 0, 0]);
+    expect(fs.readFileSync(counterPath, 'utf-8')).toBe('60');
+    expect(fs.existsSync(`${counterPath}.lock`)).toBe(false);
+  }, 30_000);
+
+  test('atomicWriteSync leaves no temp files', () => {
+    const filePath = path.join(tempDir, 'nested', 'note.md');
+    atomicWriteSync(filePath, 'first');
+    atomicWriteSync(filePath, 'second');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('second');
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['note.md']);
+  });
+
+  test('withFileLock releases the lock when the update throws', async () => {
+    const filePath = path.join(tempDir, 'note.md');
+    await expect(withFileLock(filePath, () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+  });
+});
+
+describe('Concurrent note updates', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-lock-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+    sessionId = `file-lock-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+    startSession(sessionId, 'app', projectDir);
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('parallel edits of one file keep every edit', async () => {
+    const filePath = path.join(projectDir, 'index.ts');
+    fs.writeFileSync(filePath, 'export const a = 1;\n');
+
+    await Promise.all(Array.from({ length: 5 }, (_, i) => processToolUse({
+      session_id: sessionId,
+      cwd: projectDir,
+      tool_name: 'Edit',
+      tool_input: { file_path: filePath, old_string: `a = ${i}`, new_string: `a = ${i + 1}` },
+      tool_response: { content: [{ type: 'text', text: 'The file has been updated.' }] },
+    }, config, vault)));
+
+    const filesDir = path.join(vault.getMemPath(), 'projects', 'app', 'files');
+    const [note] = fs.readdirSync(filesDir).filter(f => f.endsWith('.md') && f !== 'files.md');
+    const content = fs.readFileSync(path.join(filesDir, note), 'utf-8');
+    expect(content).toMatch(/^edit_count: 5$/m);
+    expect(fs.readdirSync(filesDir).filter(f => f.endsWith('.lock'))).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { getProjectInfo, getGitRef, resolveGitDirs } from '../hooks/scripts/utils/helpers.js';
+
+describe('Worktree and submodule identity', () => {
+  let tempDir: string;
+  let repoDir: string;
+
+  const git = (args: string[], cwd = repoDir) => execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+    },
+  }).trim();
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-worktrees-test-'));
+    repoDir = path.join(tempDir, 'app');
+    fs.mkdirSync(repoDir);
+    git(['init', '-q', '-b', 'main']);
+    fs.writeFileSync(path.join(repoDir, 'README.md'), 'app');
+    git(['add', 'README.md']);
+    git(['commit', '-q', '-m', 'Initial commit']);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('worktrees share the project but keep their own branch', async () => {
+    git(['remote', 'add', 'origin', 'git@github.com:acme/app.git']);
+    const worktree = path.join(tempDir, 'app-feature');
+    git(['worktree', 'add', '-q', '-b', 'feature/login', worktree]);
+    fs.mkdirSync(path.join(worktree, 'src'));
+
+    const main = await getProjectInfo(repoDir);
+    const linked = await getProjectInfo(path.join(worktree, 'src'));
+
+    expect(main.name).toBe('acme_app');
+    expect(linked.name).toBe('acme_app');
+    expect(linked.gitRemote).toBe('git@github.com:acme/app.git');
+    expect(main.gitBranch).toBe('main');
+    expect(linked.gitBranch).toBe('feature/login');
+    expect(linked.gitCommit).toBe(git(['rev-parse', 'HEAD']));
+  });
+
+  test('worktrees without a remote are named after the main checkout', async () => {
+    const worktree = path.join(tempDir, 'hotfix-checkout');
+    git(['worktree', 'add', '-q', '-b', 'hotfix', worktree]);
+
+    expect((await getProjectInfo(worktree)).name).toBe('app');
+    expect(getGitRef(worktree)).toEqual({ branch: 'hotfix', commit: git(['rev-parse', 'HEAD']) });
+    expect(resolveGitDirs(worktree)).toEqual({
+      gitDir: path.join(fs.realpathSync(repoDir), '.git', 'worktrees', 'hotfix-checkout'),
+      commonDir: path.join(fs.realpathSync(repoDir), '.git'),
+    });
+  });
+
+  test('submodules use their own repository', async () => {
+    // Layout git uses for submodules: a .git file pointing into the parent's .git/modules
+    const moduleDir = path.join(repoDir, '.git', 'modules', 'lib');
+    fs.mkdirSync(moduleDir, { recursive: true });
+    fs.writeFileSync(path.join(moduleDir, 'config'), '[remote "origin"]\n\turl = https://github.com/acme/lib.git\n');
+    fs.writeFileSync(path.join(moduleDir, 'HEAD'), `${'a'.repeat(40)}\n`);
+
+    const submodule = path.join(repoDir, 'lib');
+    fs.mkdirSync(submodule);
+    fs.writeFileSync(path.join(submodule, '.git'), 'gitdir: ../.git/modules/lib\n');
+
+    const info = await getProjectInfo(submodule);
+    expect(info.name).toBe('acme_lib');
+    expect(info.gitCommit).toBe('a'.repeat(40));
+    expect(info.gitBranch).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  enqueueJob,
+  claimNextJob,
+  completeJob,
+  failJobAttempt,
+  retryJob,
+  cancelJob,
+  readJob,
+  getJobsDir,
+  type Job,
+} from '../src/shared/job-queue.js';
+import { drainJobs } from '../src/services/job-runner.js';
+
+describe('Job queue', () => {
+  // Jobs live in the real config directory, so remove the ones created here
+  const created: string[] = [];
+  const enqueue = (type: string, maxAttempts: number, payload: Record<string, unknown> = {}): Job => {
+    const job = enqueueJob(type, { test: true, ...payload }, maxAttempts);
+    created.push(job.id);
+    return job;
+  };
+
+  afterEach(() => {
+    for (const id of created.splice(0)) {
+      fs.rmSync(path.join(getJobsDir(), `${id}.json`), { force: true });
+    }
+  });
+
+  test('retries failed attempts with backoff until attempts run out', async () => {
+    const job = enqueue('summarize', 2);
+
+    expect((await claimNextJob(1))?.id).toBe(job.id);
+    const backedOff = await failJobAttempt(job.id, 'claude -p timed out', 60_000);
+    expect(backedOff?.status).toBe('pending');
+    expect(backedOff?.lastError).toBe('claude -p timed out');
+    expect(Date.parse(backedOff!.runAfter)).toBeGreaterThan(Date.now() + 50_000);
+    expect(await claimNextJob(1)).toBeNull();
+
+    // Make the retry due now
+    fs.writeFileSync(path.join(getJobsDir(), `${job.id}.json`), JSON.stringify({
+      ...readJob(job.id),
+      runAfter: new Date().toISOString(),
+    }));
+    const second = await claimNextJob(1);
+    expect(second?.attempts).toBe(2);
+    expect((await failJobAttempt(job.id, 'exit code 1', 0))?.status).toBe('failed');
+  });
+
+  test('retry and cancel only apply to jobs in the right state', async () => {
+    const job = enqueue('summarize', 1);
+    await expect(retryJob(job.id)).rejects.toThrow('Cannot retry a pending job');
+
+    await claimNextJob(1);
+    await failJobAttempt(job.id, 'boom', 0);
+    const retried = await retryJob(job.id);
+    expect(retried.status).toBe('pending');
+    expect(retried.attempts).toBe(0);
+
+    expect((await cancelJob(job.id)).status).toBe('cancelled');
+    await expect(cancelJob(job.id)).rejects.toThrow('Cannot cancel a cancelled job');
+    await expect(retryJob('missing-job')).rejects.toThrow('Job not found');
+  });
+
+  test('claims respect the concurrency limit', async () => {
+    const first = enqueue('summarize', 1);
+    const second = enqueue('summarize', 1);
+
+    const claimed = await claimNextJob(1);
+    expect([first.id, second.id]).toContain(claimed!.id);
+    expect(await claimNextJob(1)).toBeNull();
+
+    await completeJob(claimed!.id, 'done');
+    expect(readJob(claimed!.id)?.result).toBe('done');
+    const next = await claimNextJob(1);
+    expect(next?.id).toBe(claimed!.id === first.id ? second.id : first.id);
+    await completeJob(next!.id);
+  });
+
+  test('jobs with the same key run one at a time', async () => {
+    const preCompact = enqueueJob('summarize', { test: true }, 1, 'session-a');
+    const sessionEnd = enqueueJob('summarize', { test: true }, 1, 'session-a');
+    created.push(preCompact.id, sessionEnd.id);
+
+    const claimed = await claimNextJob(2);
+    expect(claimed?.key).toBe('session-a');
+    expect(await claimNextJob(2)).toBeNull();
+
+    await completeJob(claimed!.id);
+    expect((await claimNextJob(2))?.key).toBe('session-a');
+  });
+
+  test('jobs whose runner exited are retried', async () => {
+    const job = enqueue('summarize', 3);
+    await claimNextJob(1);
+
+    // A pid that can't belong to a running process
+    fs.writeFileSync(path.join(getJobsDir(), `${job.id}.json`), JSON.stringify({
+      ...readJob(job.id),
+      runnerPid: 2147483646,
+    }));
+
+    const reclaimed = await claimNextJob(1);
+    expect(reclaimed?.id).toBe(job.id);
+    expect(reclaimed?.attempts).toBe(2);
+    expect(reclaimed?.lastError).toContain('Runner exited');
+    await completeJob(job.id);
+  });
+
+  test('jobs running far too long are retried even if their pid is alive', async () => {
+    const job = enqueue('summarize', 3);
+    await claimNextJob(1);
+
+    // The pid is alive (reused, or this very process), but the attempt started hours ago
+    fs.writeFileSync(path.join(getJobsDir(), `${job.id}.json`), JSON.stringify({
+      ...readJob(job.id),
+      startedAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
+    }));
+
+    const reclaimed = await claimNextJob(1);
+    expect(reclaimed?.id).toBe(job.id);
+    expect(reclaimed?.attempts).toBe(2);
+    expect(reclaimed?.lastError).toContain('did not finish');
+    await completeJob(job.id);
+  });
+
+  test('jobs claimed before a reboot are retried', async () => {
+    const job = enqueue('summarize', 3);
+    const claimed = await claimNextJob(1);
+    expect(claimed).toMatchObject({ runnerPid: process.pid, runnerHost: os.hostname() });
+
+    fs.writeFileSync(path.join(getJobsDir(), `${job.id}.json`), JSON.stringify({
+      ...readJob(job.id),
+      runnerBootTime: claimed!.runnerBootTime! - 24 * 60 * 60 * 1000,
+    }));
+
+    expect((await claimNextJob(1))?.lastError).toContain('Runner exited');
+    await completeJob(job.id);
+  });
+
+  test('drainJobs runs handlers and retries failures', async () => {
+    const ok = enqueue('echo', 3, { value: 'hello' });
+    const flaky = enqueue('flaky', 3);
+    const unknown = enqueue('unknown', 1);
+
+    let flakyCalls = 0;
+    const attempts = await drainJobs({
+      echo: async (job) => `echo ${job.payload.value}`,
+      flaky: async () => {
+        if (++flakyCalls === 1) throw new Error('transient');
+        return 'recovered';
+      },
+    }, { concurrency: 2, maxAttempts: 3, retryDelaySeconds: 0 });
+
+    expect(attempts).toBe(4);
+    expect(readJob(ok.id)).toMatchObject({ status: 'completed', result: 'echo hello', attempts: 1 });
+    expect(readJob(flaky.id)).toMatchObject({ status: 'completed', result: 'recovered', attempts: 2, lastError: 'transient' });
+    expect(readJob(unknown.id)).toMatchObject({ status: 'failed', lastError: 'No handler for job type: unknown' });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+import { knowledgeSimilarity } from '../src/mcp-server/utils/knowledge-similarity.js';
+import { termFrequencies } from '../src/mcp-server/utils/search-index.js';
+
+const eslintNote = {
+  type: 'learning' as const,
+  title: 'How to configure ESLint flat config',
+  context: 'When setting up linting',
+  content: 'ESLint 9 uses eslint.config.js with an exported array of config objects instead of .eslintrc.',
+  keyPoints: ['Export an array from eslint.config.js', 'Use @eslint/js recommended'],
+  topics: ['eslint', 'linting'],
+  sourceSession: 'aaaa1111-session',
+};
+
+const rephrasedNote = {
+  ...eslintNote,
+  title: 'Configuring ESLint flat config files',
+  context: 'When migrating lint setup',
+  content: 'The flat config lives in eslint.config.js and exports an array of config objects; .eslintrc is no longer read.',
+  keyPoints: ['Export an array from eslint.config.js', 'Add the typescript-eslint configs'],
+  topics: ['eslint', 'configuration'],
+  sourceSession: 'bbbb2222-session',
+};
+
+describe('Knowledge similarity', () => {
+  const signals = (title: string, content: string, topics: string[]) =>
+    ({ title, topics, terms: termFrequencies(title, content).terms });
+
+  test('scores rephrasings above unrelated notes', () => {
+    const a = signals(eslintNote.title, eslintNote.content, eslintNote.topics);
+    const b = signals(rephrasedNote.title, rephrasedNote.content, rephrasedNote.topics);
+    const c = signals('Postgres connection pooling', 'Use pgbouncer in transaction mode.', ['postgres']);
+
+    expect(knowledgeSimilarity(a, a)).toBeCloseTo(1);
+    expect(knowledgeSimilarity(a, b)).toBeGreaterThan(0.55);
+    expect(knowledgeSimilarity(a, c)).toBeLessThan(0.1);
+  });
+
+  test('ignores topics when a note has none', () => {
+    const a = signals('Bun test timeouts', 'Pass a timeout to spawned processes.', ['bun']);
+    const b = signals('Bun test timeouts', 'Pass a timeout to spawned processes.', []);
+    expect(knowledgeSimilarity(a, b)).toBeCloseTo(1);
+  });
+});
+
+describe('writeKnowledge deduplication', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  const knowledgeDir = () => path.join(vault.getMemPath(), 'projects', 'app', 'knowledge');
+  const readNote = (relPath: string) =>
+    parseFrontmatter(fs.readFileSync(path.join(vault.getMemPath(), relPath), 'utf-8'));
+  const knowledgeNotes = () => fs.readdirSync(knowledgeDir()).filter(f => f !== 'knowledge.md');
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'knowledge-dedup-test-'));
+    vault = new VaultManager(tempDir, '_claude-mem');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('records a repeat as another occurrence of the existing note', async () => {
+    const first = await vault.writeKnowledge(eslintNote, 'app');
+    expect(first).toMatchObject({ action: 'created', created: true });
+
+    const again = await vault.writeKnowledge({ ...eslintNote, sourceSession: 'cccc3333-session' }, 'app');
+    expect(again).toMatchObject({ action: 'appended', created: false, path: first.path });
+    expect(again.similarTo!.score).toBeGreaterThan(0.85);
+    expect(knowledgeNotes()).toHaveLength(1);
+
+    const { frontmatter, content } = readNote(first.path);
+    expect(frontmatter.occurrences).toBe(2);
+    expect(content).toContain('## Occurrences');
+    expect(content).toContain('| aaaa1111 | First occurrence |');
+    expect(content).toContain('| cccc3333 | Seen again |');
+  });
+
+  test('writing the same session\'s knowledge again changes nothing', async () => {
+    const first = await vault.writeKnowledge(eslintNote, 'app');
+    const before = fs.readFileSync(path.join(vault.getMemPath(), first.path), 'utf-8');
+
+    const retried = await vault.writeKnowledge(eslintNote, 'app');
+    expect(retried).toMatchObject({ action: 'appended', path: first.path });
+    expect(fs.readFileSync(path.join(vault.getMemPath(), first.path), 'utf-8')).toBe(before);
+  });
+
+  test('merges new key points from a rephrased note', async () => {
+    const first = await vault.writeKnowledge(eslintNote, 'app');
+    const merged = await vault.writeKnowledge(rephrasedNote, 'app');
+
+    expect(merged).toMatchObject({ action: 'merged', path: first.path });
+    expect(knowledgeNotes()).toHaveLength(1);
+
+    const { frontmatter, content } = readNote(first.path);
+    expect(frontmatter.topics).toEqual(['eslint', 'linting', 'configuration']);
+    expect(frontmatter.tags).toContain('topic/configuration');
+    expect(content).toContain('- Use @eslint/js recommended\n- Add the typescript-eslint configs\n');
+    expect(content.match(/Export an array from eslint\.config\.js/g)).toHaveLength(1);
+    expect(content).toContain('| bbbb2222 | Merged 1 key points |');
+    expect(content.indexOf('**Key Points**')).toBeLessThan(content.indexOf('**Source**'));
+  });
+
+  test('supersedes a similar decision', async () => {
+    const first = await vault.writeKnowledge({ ...eslintNote, type: 'decision' }, 'app');
+    const replaced = await vault.writeKnowledge({
+      ...rephrasedNote,
+      type: 'decision',
+      title: 'Configure ESLint with flat config files',
+    }, 'app');
+
+    expect(replaced).toMatchObject({ action: 'superseded', created: true, similarTo: { path: first.path } });
+    expect(replaced.path).not.toBe(first.path);
+    expect(readNote(first.path).frontmatter.status).toBe('superseded');
+    expect(readNote(replaced.path).frontmatter.supersedes).toHaveLength(1);
+
+    // The superseded note no longer attracts similar knowledge
+    const next = await vault.writeKnowledge({ ...eslintNote, type: 'decision' }, 'app');
+    expect(next.similarTo?.path).not.toBe(first.path);
+  });
+
+  test('writes unrelated knowledge as a new note', async () => {
+    await vault.writeKnowledge(eslintNote, 'app');
+    const other = await vault.writeKnowledge({
+      ...eslintNote,
+      title: 'Postgres connection pooling with pgbouncer',
+      context: 'When the app runs out of connections',
+      content: 'Use pgbouncer in transaction mode to share connections between workers.',
+      keyPoints: ['Transaction pooling mode'],
+      topics: ['postgres'],
+    }, 'app');
+
+    expect(other).toMatchObject({ action: 'created', created: true });
+    expect(other.similarTo).toBeUndefined();
+    expect(knowledgeNotes()).toHaveLength(2);
+  });
+});
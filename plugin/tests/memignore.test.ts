@@ -0,0 +1,108 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { MemIgnore } from '../src/services/memignore.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, readSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config } from '../src/shared/types.js';
+
+const rules = (...lines: string[]) => new MemIgnore('/repo', [lines.join('\n')]);
+
+describe('MemIgnore', () => {
+  test('matches files with gitignore patterns', () => {
+    const ignore = rules('# keys', '*.pem', 'secrets/', '/config/local.json', '!public.pem');
+
+    expect(ignore.ignoresPath('/repo/certs/server.pem')).toBe(true);
+    expect(ignore.ignoresPath('/repo/certs/public.pem')).toBe(false);
+    expect(ignore.ignoresPath('/repo/app/secrets/db.json')).toBe(true);
+    expect(ignore.ignoresPath('config/local.json')).toBe(true);
+    expect(ignore.ignoresPath('/repo/src/config/local.json')).toBe(false);
+    expect(ignore.ignoresPath('/repo/src/index.ts')).toBe(false);
+  });
+
+  test('files inside an ignored directory cannot be re-included', () => {
+    const ignore = rules('vendor/', '!vendor/keep.ts');
+    expect(ignore.ignoresPath('/repo/vendor/keep.ts')).toBe(true);
+  });
+
+  test('ignores projects by name', () => {
+    const ignore = rules('project:client-*', 'project:secret-app');
+
+    expect(ignore.ignoresProject('client-acme')).toBe(true);
+    expect(ignore.ignoresProject('secret-app')).toBe(true);
+    expect(ignore.ignoresProject('my-app')).toBe(false);
+    expect(ignore.ignoresPath('/repo/client-acme/a.ts')).toBe(false);
+  });
+
+  test('scrubs lines mentioning ignored paths', () => {
+    const ignore = rules('.env', 'secrets/');
+    const text = [
+      'Updated the login form',
+      'Read .env to get the database password',
+      'cat secrets/prod.json',
+      'Ran npm test',
+    ].join('\n');
+
+    expect(ignore.scrubText(text)).toBe([
+      'Updated the login form',
+      '[line removed: mentions an ignored path]',
+      '[line removed: mentions an ignored path]',
+      'Ran npm test',
+    ].join('\n'));
+    expect(ignore.mentionsIgnoredPath('git diff src/app.ts')).toBe(false);
+  });
+});
+
+describe('.memignore on capture', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memignore-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+    fs.writeFileSync(path.join(projectDir, '.memignore'), 'secrets/\n');
+    sessionId = `memignore-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+    startSession(sessionId, 'app', projectDir);
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const edit = (file: string) => processToolUse({
+    session_id: sessionId,
+    cwd: projectDir,
+    tool_name: 'Edit',
+    tool_input: { file_path: path.join(projectDir, file), old_string: 'a', new_string: 'b' },
+    tool_response: { content: [{ type: 'text', text: 'ok' }] },
+  }, config, vault);
+
+  test('edits to ignored files leave no observation or file note', async () => {
+    await edit('secrets/prod.json');
+    expect(readSession(sessionId)!.observations).toHaveLength(0);
+
+    const filesDir = path.join(vault.getMemPath(), 'projects', 'app', 'files');
+    const fileNotes = fs.existsSync(filesDir) ? fs.readdirSync(filesDir).filter(f => f !== 'files.md') : [];
+    expect(fileNotes).toHaveLength(0);
+
+    await edit('src/app.ts');
+    expect(readSession(sessionId)!.observations).toHaveLength(1);
+  });
+});
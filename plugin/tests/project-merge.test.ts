@@ -0,0 +1,204 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { rewriteProjectReferences } from '../src/mcp-server/utils/project-aliases.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+
+describe('rewriteProjectReferences', () => {
+  test('rewrites frontmatter, tags and links but not lookalikes', () => {
+    const note = [
+      '---',
+      'project: old.app',
+      'tags:',
+      '  - project/old_app',
+      '  - project/old_app_v2',
+      'parent: "[[_claude-mem/projects/old_app/errors/errors]]"',
+      '---',
+      'See [[_claude-mem/projects/old_app/old_app|Overview]] and #project/old_app.',
+      'FROM "_claude-mem/projects/old_app_v2/errors"',
+    ].join('\n');
+
+    expect(rewriteProjectReferences(note, 'old.app', 'acme_app')).toBe([
+      '---',
+      'project: acme_app',
+      'tags:',
+      '  - project/acme_app',
+      '  - project/old_app_v2',
+      'parent: "[[_claude-mem/projects/acme_app/errors/errors]]"',
+      '---',
+      'See [[_claude-mem/projects/acme_app/acme_app|Overview]] and #project/acme_app.',
+      'FROM "_claude-mem/projects/old_app_v2/errors"',
+    ].join('\n'));
+  });
+});
+
+describe('Project merge', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'project-merge-test-'));
+    vault = new VaultManager(tempDir, '_claude-mem');
+    await vault.ensureProjectStructure('old_app');
+    await vault.ensureProjectStructure('acme_app');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const projectDir = (name: string) => path.join(vault.getMemPath(), 'projects', name);
+
+  test('moves notes, rewrites them and records an alias', async () => {
+    await vault.writeNote({ type: 'decision', title: 'Use Postgres', content: 'Because.', project: 'old_app' });
+    await vault.writeNote({ type: 'decision', title: 'Use Redis', content: 'Old.', project: 'old_app' });
+    await vault.writeNote({ type: 'decision', title: 'Use Redis', content: 'New.', project: 'acme_app' });
+
+    const preview = await vault.mergeProject('old_app', 'acme_app', { dryRun: true });
+    expect(preview.moved).toHaveLength(2);
+    expect(fs.existsSync(projectDir('old_app'))).toBe(true);
+
+    const result = await vault.mergeProject('old_app', 'acme_app');
+    expect(result.moved).toHaveLength(2);
+    expect(result.renamed).toHaveLength(1);
+    expect(fs.existsSync(projectDir('old_app'))).toBe(false);
+
+    const decisionsDir = path.join(projectDir('acme_app'), 'decisions');
+    const files = fs.readdirSync(decisionsDir).filter(f => f !== 'decisions.md').sort();
+    expect(files).toEqual(['use-postgres.md', 'use-redis-old_app.md', 'use-redis.md']);
+
+    const { frontmatter } = parseFrontmatter(fs.readFileSync(path.join(decisionsDir, 'use-postgres.md'), 'utf-8'));
+    expect(frontmatter.project).toBe('acme_app');
+    expect(frontmatter.tags).toContain('project/acme_app');
+    expect(frontmatter.tags).not.toContain('project/old_app');
+
+    expect(vault.resolveProjectName('old_app')).toBe('acme_app');
+    expect((await vault.getProjectContext('old_app')).activeDecisions).toHaveLength(3);
+  });
+
+  test('moves attachments along with notes', async () => {
+    fs.mkdirSync(path.join(projectDir('old_app'), 'assets'));
+    fs.writeFileSync(path.join(projectDir('old_app'), 'assets', 'diagram.png'), 'png');
+    fs.writeFileSync(path.join(projectDir('old_app'), 'board.canvas'), '{}');
+
+    const result = await vault.mergeProject('old_app', 'acme_app');
+    expect(result.moved).toContain(path.join('projects', 'acme_app', 'assets', 'diagram.png'));
+    expect(fs.readFileSync(path.join(projectDir('acme_app'), 'assets', 'diagram.png'), 'utf-8')).toBe('png');
+    expect(fs.existsSync(path.join(projectDir('acme_app'), 'board.canvas'))).toBe(true);
+    expect(fs.existsSync(projectDir('old_app'))).toBe(false);
+  });
+
+  test('links to a renamed note follow the rename', async () => {
+    await vault.writeNote({ type: 'decision', title: 'Use REST', content: 'Old.', project: 'old_app' });
+    await vault.writeNote({ type: 'decision', title: 'Use REST', content: 'New.', project: 'acme_app' });
+    const linking = await vault.writeNote({
+      type: 'learning',
+      title: 'API notes',
+      content: 'See [[_claude-mem/projects/old_app/decisions/use-rest|REST]] and [[_claude-mem/projects/old_app/decisions/use-rest.md]].',
+    });
+
+    const result = await vault.mergeProject('old_app', 'acme_app');
+    expect(result.renamed).toEqual([path.join('projects', 'acme_app', 'decisions', 'use-rest-old_app.md')]);
+
+    const globalNote = fs.readFileSync(path.join(vault.getMemPath(), linking.path), 'utf-8');
+    expect(globalNote).toContain('[[_claude-mem/projects/acme_app/decisions/use-rest-old_app|REST]]');
+    expect(globalNote).toContain('[[_claude-mem/projects/acme_app/decisions/use-rest-old_app.md]]');
+    expect(globalNote).not.toContain('decisions/use-rest|');
+  });
+
+  test('the old name keeps working after a merge', async () => {
+    await vault.writeNote({ type: 'decision', title: 'Use Postgres', content: 'Postgres for storage.', project: 'old_app' });
+    await vault.writeKnowledge({
+      type: 'learning',
+      title: 'Postgres vacuum tuning',
+      context: 'Tuning',
+      content: 'Postgres vacuum settings.',
+      keyPoints: [],
+      topics: ['postgres'],
+    }, 'old_app');
+    await vault.mergeProject('old_app', 'acme_app');
+
+    expect(await vault.searchNotes('postgres', { project: 'old_app' })).toHaveLength(1);
+    expect(await vault.searchKnowledge('postgres', { project: 'old_app' })).toHaveLength(1);
+    expect((await vault.getTimeline('old_app')).map(e => e.title)).toContain('Use Postgres');
+
+    const written = await vault.writeNote({ type: 'decision', title: 'Use Redis', content: 'Cache.', project: 'old_app' });
+    expect(written.path).toBe('projects/acme_app/decisions/use-redis.md');
+    await vault.writeKnowledge({ type: 'learning', title: 'Redis eviction', context: 'Caching', content: 'LRU.', keyPoints: [], topics: [] }, 'old_app');
+    expect(fs.existsSync(projectDir('old_app'))).toBe(false);
+  });
+
+  test('relinks sub-projects and chains aliases', async () => {
+    await vault.ensureSubProject('old_app', 'old_app/web');
+    await vault.ensureProjectStructure('older_app');
+    await vault.mergeProject('older_app', 'old_app');
+
+    const result = await vault.mergeProject('old_app', 'acme_app');
+    expect(result.relinked).toContain(path.join('projects', 'old_app_web', 'old_app_web.md'));
+    expect(vault.getSubProjects('acme_app')).toEqual(['old_app/web']);
+    expect(vault.listProjectAliases()).toEqual({ old_app: 'acme_app', older_app: 'acme_app' });
+  });
+
+  test('merges an error note both projects have', async () => {
+    const errorNote = (project: string, o: { first: string; last: string; count: number; resolved: boolean; session: string; rows: string[] }) => [
+      '---',
+      'type: error',
+      'title: "Error: TypeError"',
+      `project: ${project}`,
+      'tags:',
+      '  - error',
+      `  - project/${project}`,
+      `parent: "[[_claude-mem/projects/${project}/errors/errors]]"`,
+      `first_seen: ${o.first}`,
+      `last_seen: ${o.last}`,
+      `occurrences: ${o.count}`,
+      `resolved: ${o.resolved}`,
+      'sessions:',
+      `  - ${o.session}`,
+      '---',
+      '',
+      '# Error: TypeError',
+      '',
+      '## Occurrences',
+      '',
+      '| Date | Session | Context |',
+      '|------|---------|---------|',
+      ...o.rows,
+      '',
+    ].join('\n');
+
+    fs.writeFileSync(path.join(projectDir('old_app'), 'errors', 'abc123.md'), errorNote('old_app', {
+      first: '2025-01-05T10:00:00.000Z', last: '2025-02-01T10:00:00.000Z', count: 2, resolved: false, session: 'old-session',
+      rows: ['| 2025-02-01 | oldsessi | Recurring |', '| 2025-01-05 | oldsessi | First occurrence |'],
+    }));
+    fs.writeFileSync(path.join(projectDir('acme_app'), 'errors', 'abc123.md'), errorNote('acme_app', {
+      first: '2025-01-20T10:00:00.000Z', last: '2025-01-20T10:00:00.000Z', count: 1, resolved: true, session: 'new-session',
+      rows: ['| 2025-01-20 | newsessi | First occurrence |'],
+    }));
+
+    const result = await vault.mergeProject('old_app', 'acme_app');
+    expect(result.merged).toEqual([path.join('projects', 'acme_app', 'errors', 'abc123.md')]);
+    expect(result.renamed).toEqual([]);
+    expect(fs.readdirSync(path.join(projectDir('acme_app'), 'errors')).sort()).toEqual(['abc123.md', 'errors.md']);
+
+    const { frontmatter, content } = parseFrontmatter(fs.readFileSync(path.join(projectDir('acme_app'), 'errors', 'abc123.md'), 'utf-8'));
+    expect(frontmatter.occurrences).toBe(3);
+    expect(new Date(frontmatter.first_seen as string).toISOString()).toBe('2025-01-05T10:00:00.000Z');
+    expect(new Date(frontmatter.last_seen as string).toISOString()).toBe('2025-02-01T10:00:00.000Z');
+    expect(frontmatter.resolved).toBe(false);
+    expect(frontmatter.project).toBe('acme_app');
+    expect(frontmatter.sessions).toEqual(['new-session', 'old-session']);
+    expect(content).toContain([
+      '| 2025-02-01 | oldsessi | Recurring |',
+      '| 2025-01-20 | newsessi | First occurrence |',
+      '| 2025-01-05 | oldsessi | First occurrence |',
+    ].join('\n'));
+  });
+
+  test('rejects unknown and identical projects', async () => {
+    await expect(vault.mergeProject('missing', 'acme_app')).rejects.toThrow('Project not found');
+    await expect(vault.mergeProject('acme_app', 'acme_app')).rejects.toThrow('into itself');
+  });
+});
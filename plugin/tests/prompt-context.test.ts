@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { extractPromptQueries } from '../src/services/prompt-context.js';
+import { submitUserPrompt } from '../src/services/session-lifecycle.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, readSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config } from '../src/shared/types.js';
+
+describe('extractPromptQueries', () => {
+  test('splits a prompt into sentences, exact terms and file mentions', () => {
+    const { queries, terms, files } = extractPromptQueries(
+      'Why does src/api.ts throw TS2345 again? Also, did we decide to drop the Redis cache. See `fetchUsers`.'
+    );
+
+    expect(queries[0]).toContain('Why does src/api.ts');
+    expect(queries).toContain('Also, did we decide to drop the Redis cache.');
+    expect(terms).toEqual(['fetchUsers', 'TS2345']);
+    expect(files).toEqual(['src/api.ts']);
+  });
+
+  test('ignores URLs and sentence punctuation when finding files', () => {
+    const { files } = extractPromptQueries('Check https://example.com/page.html and then update README.md.');
+    expect(files).toEqual(['README.md']);
+  });
+});
+
+describe('submitUserPrompt', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  const sessionId = `prompt-context-test-${Date.now()}`;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-context-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+
+    startSession(sessionId, 'app', projectDir);
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Remove Redis caching layer',
+      content: 'We dropped the Redis cache layer because it kept serving stale sessions.',
+      project: 'app',
+    });
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Lint setup',
+      content: 'Configured eslint rules for the monorepo.',
+      project: 'app',
+    });
+    await processToolUse({
+      session_id: sessionId,
+      cwd: projectDir,
+      tool_name: 'Write',
+      tool_input: { file_path: path.join(projectDir, 'src', 'api.ts'), content: 'export {}' },
+      tool_response: { content: [{ type: 'text', text: 'File created successfully' }] },
+    }, config, vault);
+  });
+
+  afterAll(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('injects relevant notes and file notes, then records the prompt', async () => {
+    const result = await submitUserPrompt(
+      { session_id: sessionId, cwd: projectDir, prompt: 'Why did we drop the redis cache? It touched src/api.ts too.' },
+      config,
+      vault
+    );
+
+    expect(result.recorded).toBe(true);
+    expect(result.context).toContain('## Relevant Memory');
+    expect(result.context).toContain('Remove Redis caching layer');
+    expect(result.context).toContain('[file] api.ts');
+    expect(result.context).not.toContain('Lint setup');
+
+    const prompt = readSession(sessionId)!.observations.find(o => o.tool === 'UserPrompt');
+    expect((prompt?.data as { injectedNotes: string[] }).injectedNotes).toHaveLength(2);
+  });
+
+  test('does not repeat notes injected earlier in the session', async () => {
+    const result = await submitUserPrompt(
+      { session_id: sessionId, cwd: projectDir, prompt: 'Remind me again why we dropped the redis cache' },
+      config,
+      vault
+    );
+
+    expect(result.recorded).toBe(true);
+    expect(result.context).toBeNull();
+  });
+
+  test('skips context when prompt context is disabled', async () => {
+    const disabled = {
+      ...config,
+      contextInjection: {
+        ...config.contextInjection,
+        promptContext: { ...config.contextInjection.promptContext, enabled: false },
+      },
+    };
+    const result = await submitUserPrompt(
+      { session_id: sessionId, cwd: projectDir, prompt: 'How are the eslint rules configured here?' },
+      disabled,
+      vault
+    );
+
+    expect(result).toEqual({ recorded: true, context: null });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SearchIndex, tokenize } from '../src/mcp-server/utils/search-index.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+
+function writeNote(memPath: string, relPath: string, frontmatter: string, body: string): string {
+  const fullPath = path.join(memPath, relPath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, `---\n${frontmatter}\n---\n${body}`);
+  return fullPath;
+}
+
+describe('tokenize', () => {
+  test('lowercases, drops stop words and stems plurals', () => {
+    expect(tokenize('The Errors in the Queries')).toEqual(['error', 'query']);
+  });
+
+  test('splits identifiers into their parts', () => {
+    const tokens = tokenize('getProjectContext snake_case_name');
+    expect(tokens).toContain('getprojectcontext');
+    expect(tokens).toContain('project');
+    expect(tokens).toContain('context');
+    expect(tokens).toContain('snake_case_name');
+    expect(tokens).toContain('snake');
+  });
+});
+
+describe('SearchIndex', () => {
+  let tempDir: string;
+  let memPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-test-'));
+    memPath = path.join(tempDir, '_claude-mem');
+    fs.mkdirSync(memPath, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('ranks notes with more matching terms higher', () => {
+    writeNote(memPath, 'projects/app/errors/a.md', 'type: error\ntitle: "Redis timeout"', 'Redis connection timeout while caching sessions.');
+    writeNote(memPath, 'projects/app/errors/b.md', 'type: error\ntitle: "Build failure"', 'The build failed with a timeout.');
+    writeNote(memPath, 'projects/app/errors/c.md', 'type: error\ntitle: "Unrelated"', 'Nothing to see here.');
+
+    const index = new SearchIndex(memPath);
+    index.refresh();
+
+    const hits = index.search('redis timeout');
+    expect(hits.map(h => h.path)).toEqual(['projects/app/errors/a.md', 'projects/app/errors/b.md']);
+    expect(hits[0].note.title).toBe('Redis timeout');
+  });
+
+  test('persists to disk and reloads without re-reading notes', () => {
+    writeNote(memPath, 'notes/one.md', 'type: learning\ntitle: "One"', 'bun sqlite adapter');
+
+    new SearchIndex(memPath).refresh();
+    expect(fs.existsSync(path.join(memPath, '.index', 'search-index.json'))).toBe(true);
+
+    const reloaded = new SearchIndex(memPath);
+    expect(reloaded.size()).toBe(1);
+    expect(reloaded.search('sqlite')).toHaveLength(1);
+  });
+
+  test('picks up edits and deletions through mtime drift', () => {
+    const file = writeNote(memPath, 'notes/one.md', 'type: learning\ntitle: "One"', 'original words');
+    const index = new SearchIndex(memPath);
+    index.refresh();
+    expect(index.search('replacement')).toHaveLength(0);
+
+    fs.writeFileSync(file, '---\ntype: learning\ntitle: "One"\n---\nreplacement text that is longer');
+    index.refresh();
+    expect(index.search('replacement')).toHaveLength(1);
+    expect(index.search('original')).toHaveLength(0);
+
+    fs.unlinkSync(file);
+    index.refresh();
+    expect(index.size()).toBe(0);
+  });
+
+  test('update() is a no-op until the index has been built', () => {
+    const file = writeNote(memPath, 'notes/one.md', 'type: learning', 'hello world');
+    new SearchIndex(memPath).update([file]);
+    expect(fs.existsSync(path.join(memPath, '.index', 'search-index.json'))).toBe(false);
+  });
+
+  test('update() indexes new notes once the index exists', () => {
+    new SearchIndex(memPath).refresh();
+
+    const file = writeNote(memPath, 'notes/new.md', 'type: learning', 'freshly written note');
+    new SearchIndex(memPath).update([file]);
+
+    expect(new SearchIndex(memPath).search('freshly')).toHaveLength(1);
+  });
+
+  test('saves from two processes keep each other\'s notes', () => {
+    const stale = writeNote(memPath, 'notes/stale.md', 'type: learning', 'soon deleted');
+    new SearchIndex(memPath).refresh();
+
+    // Both load the same saved index, then each indexes its own note
+    const hook = new SearchIndex(memPath);
+    const server = new SearchIndex(memPath);
+    hook.size();
+    server.size();
+
+    fs.unlinkSync(stale);
+    hook.update([writeNote(memPath, 'notes/hook.md', 'type: learning', 'written by the hook'), stale]);
+    server.update([writeNote(memPath, 'notes/server.md', 'type: learning', 'written by the server')]);
+
+    const reloaded = new SearchIndex(memPath);
+    expect(reloaded.entries().map(e => e.path).sort()).toEqual(['notes/hook.md', 'notes/server.md']);
+    expect(server.search('hook')).toHaveLength(1);
+  });
+});
+
+describe('VaultManager search', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-search-test-'));
+    vault = new VaultManager(tempDir, '_claude-mem');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('searchNotes excludes knowledge and filters by project', async () => {
+    await vault.writeNote({ type: 'decision', title: 'Use Postgres', content: 'We chose postgres over mysql.', project: 'alpha' });
+    await vault.writeNote({ type: 'decision', title: 'Postgres pooling', content: 'Pool postgres connections.', project: 'beta' });
+    await vault.writeKnowledge({
+      type: 'learning',
+      title: 'Postgres tips',
+      context: 'Tuning',
+      content: 'Postgres vacuum settings.',
+      keyPoints: [],
+      topics: ['postgres'],
+    }, 'alpha');
+
+    const all = await vault.searchNotes('postgres');
+    expect(all).toHaveLength(2);
+
+    const alpha = await vault.searchNotes('postgres', { project: 'alpha' });
+    expect(alpha).toHaveLength(1);
+    expect(alpha[0].title).toBe('Use Postgres');
+    expect(alpha[0].snippet).toContain('postgres');
+
+    const knowledge = await vault.searchKnowledge('postgres', { project: 'alpha' });
+    expect(knowledge).toHaveLength(1);
+    expect(knowledge[0].type).toBe('knowledge/learning');
+  });
+
+  test('finds notes written by hooks after indexNotes()', async () => {
+    await vault.searchNotes('anything');
+
+    const fullPath = path.join(vault.getMemPath(), 'projects', 'alpha', 'errors', 'abc.md');
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, '---\ntype: error\ntitle: "Error: ENOENT"\n---\nmissing config file');
+    vault.indexNotes([fullPath]);
+
+    const results = await new VaultManager(tempDir, '_claude-mem').searchNotes('enoent', { type: 'error' });
+    expect(results).toHaveLength(1);
+  });
+});
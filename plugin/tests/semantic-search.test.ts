@@ -0,0 +1,145 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { HashedNgramEmbedder, cosineSimilarity, createEmbedder } from '../src/mcp-server/utils/embeddings.js';
+import { VectorStore } from '../src/mcp-server/utils/vector-store.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+
+describe('HashedNgramEmbedder', () => {
+  const embedder = new HashedNgramEmbedder(256);
+
+  test('produces deterministic unit vectors', async () => {
+    const [a] = await embedder.embed(['Redis cache eviction']);
+    const [b] = await new HashedNgramEmbedder(256).embed(['Redis cache eviction']);
+
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 5);
+  });
+
+  test('scores related wording above unrelated text', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'dropping the caching layer',
+      'We dropped the cache layer because it kept serving stale data',
+      'Configured eslint rules for the monorepo',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  test('createEmbedder defaults to the hashed embedder', () => {
+    expect(createEmbedder().id).toBe('hashed-ngram-512');
+    expect(createEmbedder({ provider: 'hashed', dimensions: 128 }).id).toBe('hashed-ngram-128');
+    expect(() => createEmbedder({ provider: 'openai-compatible' })).toThrow();
+  });
+});
+
+describe('VectorStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('only re-embeds notes whose stats changed', async () => {
+    fs.writeFileSync(path.join(tempDir, 'a.md'), '---\ntitle: A\n---\npostgres migrations');
+
+    let calls = 0;
+    const base = new HashedNgramEmbedder(64);
+    const countingEmbedder = {
+      id: base.id,
+      embed: async (texts: string[]) => {
+        calls += texts.length;
+        return base.embed(texts);
+      },
+    };
+
+    const store = new VectorStore(tempDir, countingEmbedder);
+    const sources = [{ path: 'a.md', mtimeMs: 1, size: 10 }];
+    await store.sync(sources);
+    await store.sync(sources);
+    expect(calls).toBe(1);
+
+    const reloaded = new VectorStore(tempDir, countingEmbedder);
+    await reloaded.sync(sources);
+    expect(calls).toBe(1);
+
+    await reloaded.sync([{ path: 'a.md', mtimeMs: 2, size: 10 }]);
+    expect(calls).toBe(2);
+  });
+
+  test('discards vectors from a different embedder', async () => {
+    fs.writeFileSync(path.join(tempDir, 'a.md'), 'postgres migrations');
+    const sources = [{ path: 'a.md', mtimeMs: 1, size: 10 }];
+
+    await new VectorStore(tempDir, new HashedNgramEmbedder(64)).sync(sources);
+    const other = new VectorStore(tempDir, new HashedNgramEmbedder(32));
+
+    expect(await other.query('postgres')).toHaveLength(0);
+  });
+
+  test('keeps vectors another process saved in the meantime', async () => {
+    fs.writeFileSync(path.join(tempDir, 'a.md'), 'postgres migrations');
+    fs.writeFileSync(path.join(tempDir, 'b.md'), 'redis eviction');
+    const embedder = new HashedNgramEmbedder(64);
+    await new VectorStore(tempDir, embedder).sync([{ path: 'a.md', mtimeMs: 1, size: 10 }]);
+
+    const first = new VectorStore(tempDir, embedder);
+    const second = new VectorStore(tempDir, embedder);
+    await second.query('postgres');
+
+    await first.sync([{ path: 'a.md', mtimeMs: 1, size: 10 }, { path: 'b.md', mtimeMs: 1, size: 10 }]);
+    await second.sync([{ path: 'a.md', mtimeMs: 2, size: 10 }]);
+
+    const reloaded = new VectorStore(tempDir, embedder);
+    expect((await reloaded.query('redis')).map(r => r.path)).toContain('b.md');
+  });
+});
+
+describe('VaultManager semantic search', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-semantic-test-'));
+    vault = new VaultManager(tempDir, '_claude-mem');
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Remove caching layer',
+      content: 'We dropped the cache layer because it kept serving stale sessions.',
+      project: 'app',
+    });
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Lint setup',
+      content: 'Configured eslint rules for the monorepo.',
+      project: 'app',
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('semantic mode matches notes with different word forms', async () => {
+    const keyword = await vault.searchNotes('dropping caching', { mode: 'keyword' });
+    const semantic = await vault.searchNotes('dropping caching', { mode: 'semantic' });
+
+    expect(keyword.some(r => r.title === 'Remove caching layer')).toBe(true);
+    expect(semantic[0].title).toBe('Remove caching layer');
+    expect(fs.existsSync(path.join(vault.getMemPath(), '.index', 'vectors.json'))).toBe(true);
+  });
+
+  test('hybrid mode ranks and respects filters', async () => {
+    const results = await vault.searchNotes('why did we drop the cache', { mode: 'hybrid', type: 'decision' });
+    expect(results[0].title).toBe('Remove caching layer');
+
+    const none = await vault.searchNotes('why did we drop the cache', { mode: 'hybrid', type: 'error' });
+    expect(none).toHaveLength(0);
+  });
+});
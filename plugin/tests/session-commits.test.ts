@@ -0,0 +1,102 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { getCommitsBetween } from '../hooks/scripts/utils/helpers.js';
+import { finalizeSession } from '../src/services/session-lifecycle.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config } from '../src/shared/types.js';
+
+describe('Session commit linkage', () => {
+  let tempDir: string;
+  let repoDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  const git = (args: string[], date?: string) => execFileSync('git', args, {
+    cwd: repoDir,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+      ...(date ? { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date } : {}),
+    },
+  }).trim();
+
+  const commit = (file: string, message: string, date: string) => {
+    fs.writeFileSync(path.join(repoDir, file), message);
+    git(['add', file]);
+    git(['commit', '-q', '-m', message], date);
+    return git(['rev-parse', 'HEAD']);
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-commits-test-'));
+    repoDir = path.join(tempDir, 'app');
+    fs.mkdirSync(repoDir);
+    git(['init', '-q', '-b', 'main']);
+    sessionId = `session-commits-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('getCommitsBetween lists commits in the window, oldest first', () => {
+    commit('a.txt', 'Before the session', '2026-01-01T09:00:00Z');
+    const first = commit('b.txt', 'Fix login redirect', '2026-01-01T10:10:00Z');
+    const second = commit('c.txt', 'Add regression test', '2026-01-01T10:20:00Z');
+    commit('d.txt', 'After the session', '2026-01-01T12:00:00Z');
+
+    const commits = getCommitsBetween(repoDir, '2026-01-01T10:00:00Z', '2026-01-01T11:00:00Z');
+
+    expect(commits.map(c => c.hash)).toEqual([first, second]);
+    expect(commits.map(c => c.message)).toEqual(['Fix login redirect', 'Add regression test']);
+  });
+
+  test('returns nothing outside a git repository', () => {
+    expect(getCommitsBetween(os.tmpdir(), '2026-01-01T00:00:00Z', '2026-01-02T00:00:00Z')).toEqual([]);
+  });
+
+  test('session notes record commits and are found by hash', async () => {
+    commit('a.txt', 'Initial commit', '2020-01-01T00:00:00Z');
+    startSession(sessionId, 'app', repoDir);
+    const hash = commit('b.txt', 'Fix login redirect', new Date().toISOString());
+
+    const sessionPath = await finalizeSession(
+      { session_id: sessionId, cwd: repoDir, transcript_path: '' },
+      'end',
+      config,
+      vault
+    );
+    const raw = fs.readFileSync(path.join(vault.getMemPath(), sessionPath!), 'utf-8');
+    const { frontmatter, content } = parseFrontmatter(raw);
+
+    expect(frontmatter.commits).toEqual([hash]);
+    expect(content).toContain('## Commits');
+    expect(content).toContain(`\`${hash.substring(0, 7)}\` Fix login redirect`);
+
+    for (const query of [hash, hash.substring(0, 7)]) {
+      const results = await vault.searchNotes(query, { project: 'app' });
+      expect(results.map(r => r.type)).toEqual(['session']);
+    }
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parseTestRun } from '../src/shared/test-runs.js';
+import { isFlaky } from '../src/services/test-tracker.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, readSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config, TestRunData } from '../src/shared/types.js';
+
+describe('parseTestRun', () => {
+  test('bun test', () => {
+    const output = '(fail) auth > rejects expired tokens [1.20ms]\n\n 12 pass\n 1 skip\n 1 fail\nRan 14 tests across 3 files.';
+    expect(parseTestRun('bun test', output)).toEqual({
+      runner: 'bun',
+      passed: 12,
+      failed: 1,
+      skipped: 1,
+      failedTests: ['auth > rejects expired tokens'],
+    });
+  });
+
+  test('jest and vitest', () => {
+    const jest = '  ● auth › rejects expired tokens\n\nTests:       1 failed, 2 skipped, 10 passed, 13 total';
+    expect(parseTestRun('npx jest', jest)).toMatchObject({
+      runner: 'jest',
+      passed: 10,
+      failed: 1,
+      skipped: 2,
+      failedTests: ['auth › rejects expired tokens'],
+    });
+
+    const vitest = ' FAIL  src/auth.test.ts > auth > rejects expired tokens\n Tests  1 failed | 10 passed (11)';
+    expect(parseTestRun('npx vitest run', vitest)).toMatchObject({
+      passed: 10,
+      failed: 1,
+      failedTests: ['src/auth.test.ts > auth > rejects expired tokens'],
+    });
+  });
+
+  test('pytest', () => {
+    const output = 'FAILED tests/test_auth.py::test_expired - AssertionError\n==== 1 failed, 8 passed, 1 skipped in 0.42s ====';
+    expect(parseTestRun('python -m pytest -x', output)).toEqual({
+      runner: 'pytest',
+      passed: 8,
+      failed: 1,
+      skipped: 1,
+      failedTests: ['tests/test_auth.py::test_expired'],
+    });
+  });
+
+  test('go test and cargo test', () => {
+    const go = '=== RUN   TestLogin\n--- FAIL: TestLogin (0.00s)\n--- PASS: TestLogout (0.00s)\nFAIL\tapp/auth\t0.01s';
+    expect(parseTestRun('go test -v ./...', go)).toMatchObject({ runner: 'go', passed: 1, failed: 1, failedTests: ['TestLogin'] });
+
+    const cargo = 'test auth::expired ... FAILED\ntest result: FAILED. 4 passed; 1 failed; 2 ignored; 0 measured';
+    expect(parseTestRun('cargo test', cargo)).toMatchObject({ runner: 'cargo', passed: 4, failed: 1, skipped: 2, failedTests: ['auth::expired'] });
+  });
+
+  test('package scripts are recognized from their output', () => {
+    expect(parseTestRun('npm test', 'Tests:       3 passed, 3 total')).toMatchObject({ runner: 'jest', passed: 3 });
+    expect(parseTestRun('pnpm run test', 'error: tsc failed')).toEqual({
+      runner: 'pnpm',
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      failedTests: [],
+    });
+  });
+
+  test('ignores other commands', () => {
+    expect(parseTestRun('npm install', 'added 10 packages')).toBeNull();
+    expect(parseTestRun('git status', '')).toBeNull();
+  });
+});
+
+describe('isFlaky', () => {
+  const results = (...entries: Array<[string, 'pass' | 'fail']>) =>
+    entries.map(([session, result]) => ({ date: '2026-01-01T00:00:00.000Z', session, result }));
+
+  test('needs repeated flips across sessions', () => {
+    expect(isFlaky(results(['a', 'fail'], ['b', 'pass'], ['c', 'fail']))).toBe(true);
+    expect(isFlaky(results(['a', 'fail'], ['a', 'fail'], ['b', 'pass']))).toBe(false);
+    expect(isFlaky(results(['a', 'fail'], ['a', 'pass'], ['a', 'fail']))).toBe(false);
+  });
+});
+
+describe('Test run capture', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  const sessionIds: string[] = [];
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-runs-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+  });
+
+  afterEach(() => {
+    for (const id of sessionIds.splice(0)) clearSessionFile(id, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const runTests = async (sessionId: string, failing: boolean) => {
+    const output = failing
+      ? '(fail) auth > refresh [3.00ms]\n\n 9 pass\n 1 fail'
+      : '\n 10 pass\n 0 fail';
+    await processToolUse({
+      session_id: sessionId,
+      cwd: projectDir,
+      tool_name: 'Bash',
+      tool_input: { command: 'bun test' },
+      tool_response: { content: [{ type: 'text', text: output }], isError: failing },
+    }, config, vault);
+  };
+
+  const newSession = (name: string) => {
+    const id = `test-runs-${name}-${Date.now()}`;
+    startSession(id, 'app', projectDir);
+    sessionIds.push(id);
+    return id;
+  };
+
+  test('records a test_run observation with counts', async () => {
+    const sessionId = newSession('a');
+    await runTests(sessionId, true);
+
+    const [observation] = readSession(sessionId)!.observations;
+    expect(observation.type).toBe('test_run');
+    expect(observation.isError).toBe(true);
+    const data = observation.data as TestRunData;
+    expect(data).toMatchObject({ runner: 'bun', passed: 9, failed: 1, failedTests: ['auth > refresh'] });
+    expect(data.error?.code).toBe('auth > refresh');
+  });
+
+  test('flags a test that alternates across sessions as flaky', async () => {
+    await runTests(newSession('a'), true);
+    await runTests(newSession('b'), false);
+
+    let context = await vault.getProjectContext('app');
+    expect(context.flakyTests).toHaveLength(0);
+
+    await runTests(newSession('c'), true);
+
+    const testsDir = path.join(vault.getMemPath(), 'projects', 'app', 'tests');
+    const [noteFile] = fs.readdirSync(testsDir).filter(f => f !== 'tests.md');
+    const { frontmatter } = parseFrontmatter(fs.readFileSync(path.join(testsDir, noteFile), 'utf-8'));
+    expect(frontmatter).toMatchObject({ test_name: 'auth > refresh', runs: 3, failures: 2, flaky: true });
+
+    context = await vault.getProjectContext('app');
+    expect(context.flakyTests).toMatchObject([{ name: 'auth > refresh', runs: 3, failures: 2 }]);
+  });
+});
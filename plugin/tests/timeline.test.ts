@@ -0,0 +1,84 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+
+describe('VaultManager.getTimeline', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+
+  const writeRaw = (relPath: string, frontmatter: string, content: string) => {
+    const fullPath = path.join(vault.getMemPath(), relPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, `---\n${frontmatter}\n---\n\n${content}\n`);
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'timeline-test-'));
+    vault = new VaultManager(tempDir, '_claude-mem');
+    await vault.ensureProjectStructure('app');
+
+    writeRaw('projects/app/sessions/2026-03-02_aaaa.md',
+      'type: session\ntitle: "Session 2026-03-02"\ncreated: 2026-03-02T09:00:00.000Z\nstart_time: 2026-03-02T09:00:00.000Z\nsummary: "Fixed login redirect"\ntags: [session]',
+      '# Session');
+    writeRaw('projects/app/errors/abc.md',
+      'type: error\ntitle: "Error: TypeError"\ncreated: 2026-03-02T09:30:00.000Z\nfirst_seen: 2026-03-02T09:30:00.000Z\nlast_seen: 2026-03-04T11:00:00.000Z\noccurrences: 3\nresolved: true\nresolved_at: 2026-03-04T12:00:00.000Z\ntags: [error]',
+      '# Error: TypeError');
+    writeRaw('projects/app/decisions/rest.md',
+      'type: decision\ntitle: "Use REST"\ncreated: 2026-02-20T10:00:00.000Z\ntags: [decision]',
+      'Plain REST endpoints.');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('merges events from all note types in chronological order', async () => {
+    const events = await vault.getTimeline('app');
+
+    expect(events.map(e => e.kind)).toEqual([
+      'decision',
+      'session',
+      'error_first_seen',
+      'error_last_seen',
+      'error_resolved',
+    ]);
+    expect(events[1].detail).toBe('Fixed login redirect');
+    expect(events[3].detail).toBe('3 occurrences');
+    expect(events[0].path).toBe('projects/app/decisions/rest.md');
+    // Category indexes are not events
+    expect(events.some(e => e.path.endsWith('errors/errors.md'))).toBe(false);
+  });
+
+  test('filters by date range and type', async () => {
+    const week = await vault.getTimeline('app', { from: '2026-03-02', to: '2026-03-03' });
+    expect(week.map(e => e.kind)).toEqual(['session', 'error_first_seen']);
+
+    // A plain end date includes the whole day
+    const sameDay = await vault.getTimeline('app', { from: '2026-03-04', to: '2026-03-04' });
+    expect(sameDay.map(e => e.kind)).toEqual(['error_last_seen', 'error_resolved']);
+
+    const decisions = await vault.getTimeline('app', { types: ['decision'] });
+    expect(decisions.map(e => e.title)).toEqual(['Use REST']);
+
+    await expect(vault.getTimeline('app', { from: 'last week' })).rejects.toThrow('Invalid date');
+  });
+
+  test('records supersessions and keeps the newest events under the limit', async () => {
+    const { path: oldPath } = await vault.writeNote({ type: 'decision', title: 'Use SOAP', content: 'XML.', project: 'app' });
+    await vault.supersedeNote(oldPath, { type: 'decision', title: 'Use GraphQL', content: 'One endpoint.', project: 'app' });
+
+    const events = await vault.getTimeline('app', { types: ['decision'], limit: 2 });
+
+    expect(events).toHaveLength(2);
+    const supersession = events.find(e => e.kind === 'supersession');
+    expect(supersession?.title).toBe('Use GraphQL');
+    expect(supersession?.detail).toContain('decisions/use-soap');
+    expect(events.some(e => e.title === 'Use REST')).toBe(false);
+  });
+
+  test('returns nothing for unknown projects', async () => {
+    expect(await vault.getTimeline('missing')).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'bun:test';
+import { estimateTokens, fitSections } from '../src/shared/token-budget.js';
+
+describe('estimateTokens', () => {
+  test('counts short words as single tokens', () => {
+    expect(estimateTokens('Hello world, this is a test.')).toBe(8);
+  });
+
+  test('splits long words, numbers and symbols', () => {
+    expect(estimateTokens('internationalization')).toBe(5);
+    expect(estimateTokens('1234567')).toBe(3);
+    expect(estimateTokens('a.b(c)')).toBe(6);
+  });
+
+  test('counts code denser than chars/4 would', () => {
+    const code = 'const x = fn({ a: 1, b: [2, 3] });';
+    expect(estimateTokens(code)).toBeGreaterThan(code.length / 4);
+  });
+
+  test('returns 0 for empty text', () => {
+    expect(estimateTokens('')).toBe(0);
+  });
+});
+
+describe('fitSections', () => {
+  const entry = (n: number) => `- item ${n} with some words`;
+
+  test('keeps everything when the budget allows', () => {
+    const kept = fitSections([
+      { heading: '## A', entries: [entry(1), entry(2)], share: 0.5 },
+      { heading: '## B', entries: [entry(3)], share: 0.5 },
+    ], 1000);
+
+    expect(kept).toEqual([[entry(1), entry(2)], [entry(3)]]);
+  });
+
+  test('gives each section its share and drops whole low-priority entries', () => {
+    const many = Array.from({ length: 20 }, (_, i) => entry(i));
+    const kept = fitSections([
+      { heading: '## A', entries: many, share: 0.5 },
+      { heading: '## B', entries: many, share: 0.5 },
+    ], 60);
+
+    // A can't crowd B out, and entries are kept in priority order
+    expect(kept[1].length).toBeGreaterThan(0);
+    expect(kept[0]).toEqual(many.slice(0, kept[0].length));
+    for (const section of kept) {
+      for (const line of section) expect(many).toContain(line);
+    }
+  });
+
+  test('lends unused share to other sections', () => {
+    const many = Array.from({ length: 20 }, (_, i) => entry(i));
+    const alone = fitSections([{ heading: '## A', entries: many, share: 0.5 }], 60);
+    const withEmpty = fitSections([
+      { heading: '## A', entries: many, share: 0.5 },
+      { heading: '## B', entries: [], share: 0.5 },
+    ], 60);
+
+    expect(withEmpty[0]).toEqual(alone[0]);
+  });
+
+  test('never exceeds the budget', () => {
+    const many = Array.from({ length: 50 }, (_, i) => entry(i));
+    const sections = [
+      { heading: '## A', entries: many, share: 0.7 },
+      { heading: '## B', entries: many, share: 0.3 },
+    ];
+    const kept = fitSections(sections, 100);
+    const text = kept
+      .map((entries, i) => (entries.length ? [sections[i].heading, ...entries].join('\n') : ''))
+      .join('\n');
+
+    expect(estimateTokens(text)).toBeLessThanOrEqual(100);
+  });
+});
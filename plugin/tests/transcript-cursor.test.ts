@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parseTranscript, readTranscriptCursor } from '../src/services/transcript.js';
+import { summarizeTranscript, type SummarizeInput } from '../src/services/transcript-summarizer.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { getDefaultConfig, getConfigDir } from '../src/shared/config.js';
+import type { Config } from '../src/shared/types.js';
+
+const message = (uuid: string, role: 'user' | 'assistant', text: string) =>
+  JSON.stringify({ type: role, uuid, message: { role, content: text } }) + '\n';
+
+describe('Incremental transcript parsing', () => {
+  let tempDir: string;
+  let transcriptPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-cursor-test-'));
+    transcriptPath = path.join(tempDir, 'transcript.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('parses only entries after the cursor', () => {
+    fs.writeFileSync(transcriptPath, message('u1', 'user', 'First question') + message('a1', 'assistant', 'First answer'));
+    const first = parseTranscript(transcriptPath);
+    expect(first.turns.map(t => t.text)).toEqual(['First question', 'First answer']);
+    expect(first.cursor).toEqual({ offset: fs.statSync(transcriptPath).size, lastUuid: 'a1' });
+
+    fs.appendFileSync(transcriptPath, message('u2', 'user', 'Second question'));
+    const second = parseTranscript(transcriptPath, first.cursor);
+    expect(second.turns.map(t => t.text)).toEqual(['Second question']);
+    expect(second.cursor?.lastUuid).toBe('u2');
+
+    expect(parseTranscript(transcriptPath, second.cursor).turns).toEqual([]);
+  });
+
+  test('leaves a line that is still being written for the next parse', () => {
+    const complete = message('u1', 'user', 'Complete');
+    const partial = message('a1', 'assistant', 'Partial answer');
+    fs.writeFileSync(transcriptPath, complete + partial.substring(0, 20));
+
+    const first = parseTranscript(transcriptPath);
+    expect(first.turns.map(t => t.text)).toEqual(['Complete']);
+    expect(first.cursor?.offset).toBe(Buffer.byteLength(complete));
+
+    fs.appendFileSync(transcriptPath, partial.substring(20));
+    expect(parseTranscript(transcriptPath, first.cursor).turns.map(t => t.text)).toEqual(['Partial answer']);
+  });
+
+  test('finds its place by uuid when the file was rewritten', () => {
+    fs.writeFileSync(transcriptPath, message('u1', 'user', 'Old question') + message('a1', 'assistant', 'Old answer'));
+    const cursor = { offset: 1_000_000, lastUuid: 'u1' };
+
+    expect(parseTranscript(transcriptPath, cursor).turns.map(t => t.text)).toEqual(['Old answer']);
+    expect(parseTranscript(transcriptPath, { ...cursor, lastUuid: 'gone' }).turns).toHaveLength(2);
+  });
+});
+
+describe('Incremental summarization', () => {
+  let tempDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let input: SummarizeInput;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-cursor-test-'));
+    const fixturePath = path.join(tempDir, 'fixtures.json');
+    fs.writeFileSync(fixturePath, JSON.stringify({ responses: [], default: [] }));
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, provider: 'fixture', fixturePath },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+
+    input = {
+      transcript_path: path.join(tempDir, 'transcript.jsonl'),
+      session_id: `transcript-cursor-test-${Date.now()}`,
+      project: 'app',
+      trigger: 'pre-compact',
+      mem_folder: '_claude-mem',
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(getConfigDir(), 'transcript-cursors', `${input.session_id}.json`), { force: true });
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('each run covers only what was added since the last successful one', async () => {
+    fs.writeFileSync(input.transcript_path, message('u1', 'user', 'How do I configure the cache? ' + 'x'.repeat(300)) +
+      message('a1', 'assistant', 'Set cache.ttl in config. ' + 'y'.repeat(300)));
+
+    expect(await summarizeTranscript(input, config, vault)).toBe('Nothing worth remembering was found');
+    expect(readTranscriptCursor(input.session_id)?.lastUuid).toBe('a1');
+
+    expect(await summarizeTranscript({ ...input, trigger: 'session-end' }, config, vault))
+      .toBe('No new conversation turns since the last run');
+
+    // Too little new context to summarize: the cursor stays put for the next run
+    fs.appendFileSync(input.transcript_path, message('u2', 'user', 'Thanks, and the retry policy?'));
+    expect(await summarizeTranscript(input, config, vault)).toContain('Context too short');
+    expect(readTranscriptCursor(input.session_id)?.lastUuid).toBe('a1');
+  });
+
+  test('a failed run does not move the cursor', async () => {
+    fs.writeFileSync(config.summarization.fixturePath!, JSON.stringify({ responses: [] }));
+    fs.writeFileSync(input.transcript_path, message('u1', 'user', 'z'.repeat(800)));
+
+    await expect(summarizeTranscript(input, config, vault)).rejects.toThrow('No fixture response');
+    expect(readTranscriptCursor(input.session_id)).toBeNull();
+  });
+});
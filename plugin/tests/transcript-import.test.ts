@@ -0,0 +1,131 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { findTranscripts, importTranscripts } from '../src/services/transcript-import.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import type { Config } from '../src/shared/types.js';
+
+describe('Transcript import', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let transcriptsDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  const sessionId = '3f2c9a1e-import-test';
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-import-test-'));
+    projectDir = path.join(tempDir, 'app');
+    fs.mkdirSync(projectDir);
+    transcriptsDir = path.join(tempDir, 'claude-projects');
+
+    const meta = { sessionId, cwd: projectDir, gitBranch: 'feature/login' };
+    const entries = [
+      { ...meta, type: 'user', uuid: 'u1', timestamp: '2025-03-01T10:00:00.000Z', message: { role: 'user', content: 'Fix the login redirect' } },
+      {
+        ...meta, type: 'assistant', uuid: 'a1', timestamp: '2025-03-01T10:05:00.000Z',
+        message: {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Updating the redirect.' },
+            { type: 'tool_use', id: 't1', name: 'Edit', input: { file_path: path.join(projectDir, 'login.ts'), old_string: 'a', new_string: 'b' } },
+            { type: 'tool_use', id: 't2', name: 'Bash', input: { command: 'bun test' } },
+          ],
+        },
+      },
+      {
+        ...meta, type: 'user', uuid: 'u2', timestamp: '2025-03-01T10:06:00.000Z',
+        message: {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 't1', content: 'The file has been updated.' },
+            { type: 'tool_result', tool_use_id: 't2', content: '3 pass' },
+          ],
+        },
+      },
+      { ...meta, type: 'assistant', uuid: 'a2', timestamp: '2025-03-01T10:30:00.000Z', message: { role: 'assistant', content: 'Done.' } },
+    ];
+
+    const encodedDir = path.join(transcriptsDir, projectDir.replace(/[\\/]/g, '-'));
+    fs.mkdirSync(path.join(encodedDir, sessionId, 'subagents'), { recursive: true });
+    fs.writeFileSync(path.join(encodedDir, `${sessionId}.jsonl`), entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+    fs.writeFileSync(path.join(encodedDir, sessionId, 'subagents', 'agent-1.jsonl'), JSON.stringify(entries[0]));
+    fs.writeFileSync(path.join(encodedDir, 'empty.jsonl'), '');
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('finds session transcripts but not subagent ones', () => {
+    expect(findTranscripts(transcriptsDir).map(p => path.basename(p))).toEqual([`${sessionId}.jsonl`, 'empty.jsonl']);
+  });
+
+  test('rebuilds sessions from transcripts and skips them on re-import', async () => {
+    const transcripts = findTranscripts(transcriptsDir);
+
+    const preview = await importTranscripts(transcripts, config, vault, { dryRun: true });
+    expect(preview.map(r => [r.imported, r.reason])).toEqual([[true, undefined], [false, 'no conversation turns']]);
+    expect(fs.existsSync(vault.getMemPath())).toBe(false);
+
+    const [result] = await importTranscripts(transcripts, config, vault);
+    expect(result).toMatchObject({ imported: true, project: 'app', startTime: '2025-03-01T10:00:00.000Z' });
+    expect(result.sessionPath).toBe('projects/app/sessions/2025-03-01_3f2c9a1e.md');
+
+    const { frontmatter, content } = parseFrontmatter(fs.readFileSync(path.join(vault.getMemPath(), result.sessionPath!), 'utf-8'));
+    expect(frontmatter).toMatchObject({
+      session_id: sessionId,
+      branch: 'feature/login',
+      duration_minutes: 30,
+      files_modified: 1,
+      commands_run: 1,
+      status: 'completed',
+    });
+    expect(content).toContain('> Fix the login redirect');
+    expect(content).toContain('`bun test`');
+
+    const [again] = await importTranscripts(transcripts, config, vault);
+    expect(again).toMatchObject({ imported: false, reason: 'already imported', sessionPath: result.sessionPath });
+  });
+
+  test('leaves out what live capture would not record', async () => {
+    fs.writeFileSync(path.join(projectDir, '.memignore'), '.env\n');
+    const meta = { sessionId, cwd: projectDir };
+    const entries = [
+      { ...meta, type: 'user', uuid: 'u1', timestamp: '2025-03-02T10:00:00.000Z', message: { role: 'user', content: 'Rotate the key in .env\nthen run the tests' } },
+      {
+        ...meta, type: 'assistant', uuid: 'a1', timestamp: '2025-03-02T10:01:00.000Z',
+        message: {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 't1', name: 'Edit', input: { file_path: path.join(projectDir, '.env'), old_string: 'a', new_string: 'b' } },
+            { type: 'tool_use', id: 't2', name: 'Bash', input: { command: 'grep KEY .env' } },
+            { type: 'tool_use', id: 't3', name: 'Bash', input: { command: 'ls src' } },
+            { type: 'tool_use', id: 't4', name: 'Bash', input: { command: 'bun test' } },
+          ],
+        },
+      },
+    ];
+    const transcriptPath = path.join(tempDir, 'ignored.jsonl');
+    fs.writeFileSync(transcriptPath, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+
+    const [result] = await importTranscripts([transcriptPath], config, vault);
+    const raw = fs.readFileSync(path.join(vault.getMemPath(), result.sessionPath!), 'utf-8');
+    const { frontmatter } = parseFrontmatter(raw);
+    expect(frontmatter).toMatchObject({ files_modified: 0, commands_run: 1 });
+    expect(raw).not.toContain('.env');
+    expect(raw).not.toContain('ls src');
+    expect(raw).toContain('then run the tests');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createWorkerApp } from '../src/worker/server.js';
+import { callWorker } from '../src/worker/client.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { getDefaultConfig, loadConfig, clearConfigCache } from '../src/shared/config.js';
+import { readSession, clearSessionFile } from '../src/shared/session-store.js';
+import { WORKER_ENDPOINTS } from '../src/shared/constants.js';
+import type { Config } from '../src/shared/types.js';
+
+describe('Worker service', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let server: Server;
+  let config: Config;
+  const sessionId = `worker-test-${Date.now()}`;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worker-test-'));
+    projectDir = path.join(tempDir, 'my-project');
+    fs.mkdirSync(projectDir);
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+      worker: { ...defaults.worker, port: 0 },
+    };
+
+    const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    const app = createWorkerApp(() => ({ config, vault }));
+
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    config.worker.port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('reports health', async () => {
+    const health = await callWorker<{ status: string; pid: number }>(config, WORKER_ENDPOINTS.health);
+    expect(health?.status).toBe('ok');
+    expect(health?.pid).toBe(process.pid);
+  });
+
+  test('runs a session from start to end', async () => {
+    await callWorker(config, WORKER_ENDPOINTS.sessionStart, {
+      body: { session_id: sessionId, cwd: projectDir, transcript_path: '' },
+    });
+    expect(readSession(sessionId)?.project).toBe('my-project');
+
+    await callWorker(config, WORKER_ENDPOINTS.observationCapture, {
+      body: {
+        session_id: sessionId,
+        cwd: projectDir,
+        tool_name: 'Write',
+        tool_input: { file_path: path.join(projectDir, 'index.ts'), content: 'export {}' },
+        tool_response: { content: [{ type: 'text', text: 'File created successfully' }] },
+      },
+    });
+
+    await callWorker(config, WORKER_ENDPOINTS.promptCapture, {
+      body: { session_id: sessionId, cwd: projectDir, prompt: 'Please add an index file to the project' },
+    });
+
+    const current = await callWorker<{ sessions: Array<{ id: string; observations: number }> }>(
+      config,
+      WORKER_ENDPOINTS.sessionCurrent
+    );
+    expect(current?.sessions.find(s => s.id === sessionId)?.observations).toBe(2);
+
+    const ended = await callWorker<{ sessionPath: string }>(config, WORKER_ENDPOINTS.sessionEnd, {
+      body: { input: { session_id: sessionId, cwd: projectDir, transcript_path: '' }, type: 'end' },
+    });
+    expect(ended?.sessionPath).toMatch(/^projects\/my-project\/sessions\/.+\.md$/);
+    expect(fs.existsSync(path.join(config.vault.path, '_claude-mem', ended!.sessionPath))).toBe(true);
+    expect(readSession(sessionId)).toBeNull();
+  });
+
+  test('rejects context requests without a project', async () => {
+    await expect(callWorker(config, WORKER_ENDPOINTS.contextProject)).rejects.toThrow('400');
+  });
+});
+
+describe('Worker client', () => {
+  test('returns null when the worker is not running', async () => {
+    const config = getDefaultConfig();
+    // Port 9 (discard) is practically never listening on localhost
+    const result = await callWorker({ ...config, worker: { ...config.worker, port: 9 } }, WORKER_ENDPOINTS.health);
+    expect(result).toBeNull();
+  });
+
+  test('returns null when the worker is disabled', async () => {
+    const config = getDefaultConfig();
+    const result = await callWorker({ ...config, worker: { ...config.worker, enabled: false } }, WORKER_ENDPOINTS.health);
+    expect(result).toBeNull();
+  });
+});
+
+describe('Config reload', () => {
+  const originalConfigPath = process.env.CONFIG_PATH;
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-reload-test-'));
+    process.env.CONFIG_PATH = path.join(tempDir, 'config.json');
+    clearConfigCache();
+  });
+
+  afterAll(() => {
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    clearConfigCache();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('loadConfig picks up edits to config.json', () => {
+    const configPath = process.env.CONFIG_PATH!;
+    expect(loadConfig().redaction.patterns).toEqual([]);
+
+    fs.writeFileSync(configPath, JSON.stringify({ redaction: { patterns: [{ name: 'ticket', pattern: 'T-\\d+' }] } }));
+    const edited = loadConfig();
+    expect(edited.redaction.patterns).toHaveLength(1);
+    // Unchanged file - same cached object
+    expect(loadConfig()).toBe(edited);
+
+    fs.writeFileSync(configPath, JSON.stringify({ redaction: { enabled: false } }));
+    expect(loadConfig().redaction).toMatchObject({ enabled: false, patterns: [] });
+  });
+});
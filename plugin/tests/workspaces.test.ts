@@ -0,0 +1,147 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { detectWorkspaces, findWorkspace, subProjectName } from '../src/services/workspaces.js';
+import { processToolUse } from '../src/services/observation-processor.js';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { parseFrontmatter } from '../src/mcp-server/utils/frontmatter.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import { startSession, readSession, clearSessionFile } from '../src/shared/session-store.js';
+import type { Config } from '../src/shared/types.js';
+
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+describe('detectWorkspaces', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('package.json workspaces with negation', () => {
+    writeFile(path.join(root, 'package.json'), JSON.stringify({ workspaces: ['packages/*', '!packages/legacy'] }));
+    writeFile(path.join(root, 'packages/web/package.json'), JSON.stringify({ name: '@acme/web' }));
+    writeFile(path.join(root, 'packages/api/package.json'), JSON.stringify({ name: 'api-server' }));
+    writeFile(path.join(root, 'packages/legacy/package.json'), '{}');
+    fs.mkdirSync(path.join(root, 'packages/docs'));
+
+    expect(detectWorkspaces(root)).toEqual([
+      { name: 'api-server', path: path.join(root, 'packages/api') },
+      { name: 'web', path: path.join(root, 'packages/web') },
+    ]);
+  });
+
+  test('pnpm-workspace.yaml', () => {
+    writeFile(path.join(root, 'pnpm-workspace.yaml'), "packages:\n  - 'apps/**'\n  - \"tools/cli\"\n");
+    writeFile(path.join(root, 'apps/site/package.json'), JSON.stringify({ name: 'site' }));
+    writeFile(path.join(root, 'apps/group/admin/package.json'), JSON.stringify({ name: 'admin' }));
+    writeFile(path.join(root, 'tools/cli/package.json'), '{}');
+
+    expect(detectWorkspaces(root).map(w => w.name)).toEqual(['admin', 'site', 'cli']);
+  });
+
+  test('Cargo and go.work', () => {
+    writeFile(path.join(root, 'Cargo.toml'), '[workspace]\nmembers = [\n  "crates/*",\n]\nexclude = ["crates/old"]\n');
+    writeFile(path.join(root, 'crates/core/Cargo.toml'), '[package]\nname = "acme-core"\n');
+    writeFile(path.join(root, 'crates/old/Cargo.toml'), '[package]\nname = "old"\n');
+    writeFile(path.join(root, 'go.work'), 'go 1.22\n\nuse (\n\t./svc/auth\n)\n');
+    writeFile(path.join(root, 'svc/auth/go.mod'), 'module github.com/acme/auth\n');
+
+    expect(detectWorkspaces(root).map(w => w.name)).toEqual(['acme-core', 'auth']);
+  });
+
+  test('a single-package repository has no workspaces', () => {
+    writeFile(path.join(root, 'package.json'), JSON.stringify({ name: 'app' }));
+    expect(detectWorkspaces(root)).toEqual([]);
+  });
+
+  test('findWorkspace picks the most deeply nested package', () => {
+    const workspaces = [
+      { name: 'web', path: path.join(root, 'packages/web') },
+      { name: 'ui', path: path.join(root, 'packages/web/ui') },
+    ];
+
+    expect(findWorkspace(workspaces, path.join(root, 'packages/web/ui/button.tsx'))?.name).toBe('ui');
+    expect(findWorkspace(workspaces, path.join(root, 'packages/web/index.ts'))?.name).toBe('web');
+    expect(findWorkspace(workspaces, path.join(root, 'packages/webapp/index.ts'))).toBeNull();
+    expect(subProjectName('acme', workspaces[1])).toBe('acme/ui');
+  });
+});
+
+describe('Sub-project attribution', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let config: Config;
+  let vault: VaultManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-test-'));
+    projectDir = path.join(tempDir, 'app');
+    writeFile(path.join(projectDir, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }));
+    writeFile(path.join(projectDir, 'packages/web/package.json'), JSON.stringify({ name: 'web' }));
+    sessionId = `workspaces-test-${Date.now()}`;
+
+    const defaults = getDefaultConfig();
+    config = {
+      ...defaults,
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      summarization: { ...defaults.summarization, enabled: false },
+      monorepo: { enabled: true },
+    };
+    vault = new VaultManager(config.vault.path, config.vault.memFolder);
+    await vault.ensureProjectStructure('app');
+    startSession(sessionId, 'app', projectDir, {}, detectWorkspaces(projectDir));
+  });
+
+  afterEach(() => {
+    clearSessionFile(sessionId, 0);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('files notes under the package and aggregates them in the parent context', async () => {
+    const filePath = path.join(projectDir, 'packages/web/index.ts');
+    await processToolUse({
+      session_id: sessionId,
+      cwd: projectDir,
+      tool_name: 'Write',
+      tool_input: { file_path: filePath, content: 'export const x = 1;\n' },
+      tool_response: { content: [{ type: 'text', text: 'File created successfully' }] },
+    }, config, vault);
+
+    await processToolUse({
+      session_id: sessionId,
+      cwd: path.join(projectDir, 'packages/web'),
+      tool_name: 'Bash',
+      tool_input: { command: 'npx tsc --noEmit' },
+      tool_response: {
+        content: [{ type: 'text', text: "index.ts(1,14): error TS2322: Type 'number' is not assignable to type 'string'." }],
+        isError: true,
+      },
+    }, config, vault);
+
+    const observations = readSession(sessionId)!.observations;
+    expect(observations.map(o => o.project)).toEqual(['app/web', 'app/web']);
+
+    const subProjectDir = path.join(vault.getMemPath(), 'projects', 'app_web');
+    expect(fs.readdirSync(path.join(subProjectDir, 'files')).filter(f => f !== 'files.md')).toHaveLength(1);
+    expect(fs.readdirSync(path.join(subProjectDir, 'errors')).filter(f => f !== 'errors.md')).toHaveLength(1);
+    expect(fs.existsSync(path.join(vault.getMemPath(), 'projects', 'app', 'errors'))).toBe(true);
+
+    const { frontmatter } = parseFrontmatter(fs.readFileSync(path.join(subProjectDir, 'app_web.md'), 'utf-8'));
+    expect(frontmatter.parent_project).toBe('app');
+    expect(vault.getSubProjects('app')).toEqual(['app/web']);
+
+    const context = await vault.getProjectContext('app');
+    expect(context.unresolvedErrors).toHaveLength(1);
+    expect((await vault.getProjectContext('app', { includeSubProjects: false })).unresolvedErrors).toHaveLength(0);
+  });
+});